@@ -0,0 +1,42 @@
+/**
+ * 准备软件解码器使用的 libmedia wasm，放到 public/libmedia/decode 下随应用一起部署
+ * libmedia 的 npm 包不包含 wasm，版本必须与安装的 @libmedia/avcodec 一致（JS 胶水代码和 wasm 成对发布）
+ * 用法: node scripts/fetch-libmedia-wasm.mjs [libmedia dist 目录]
+ *   不传目录时从 libmedia 对应版本的 GitHub 发布内容下载；传入本地构建的 dist 目录时直接复制
+ * @author guo xiao
+ */
+
+import { readFileSync, writeFileSync, copyFileSync, mkdirSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// 软件解码只用于 H.264/H.265；getWasmUrl 按浏览器能力选择 SIMD、原子操作或基础版本
+const DECODERS = ['h264', 'hevc'];
+const VARIANTS = ['', '-simd', '-atomic'];
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const { version } = JSON.parse(readFileSync(join(root, 'node_modules/@libmedia/avcodec/package.json'), 'utf8'));
+const outputDir = join(root, 'public/libmedia/decode');
+const [localDist] = process.argv.slice(2);
+const remoteDist = `https://cdn.jsdelivr.net/gh/zhaohappy/libmedia@v${version}/dist`;
+
+mkdirSync(outputDir, { recursive: true });
+for (const decoder of DECODERS) {
+    for (const variant of VARIANTS) {
+        const name = `${decoder}${variant}.wasm`;
+        const output = join(outputDir, name);
+        if (localDist) {
+            copyFileSync(join(localDist, 'decode', name), output);
+            console.log(`已复制 ${name}`);
+            continue;
+        }
+        const url = `${remoteDist}/decode/${name}`;
+        const response = await fetch(url);
+        if (!response.ok) {
+            console.error(`下载失败 ${url}: HTTP ${response.status}`);
+            process.exit(1);
+        }
+        writeFileSync(output, new Uint8Array(await response.arrayBuffer()));
+        console.log(`已下载 ${name}（libmedia v${version}）`);
+    }
+}
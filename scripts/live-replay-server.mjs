@@ -0,0 +1,156 @@
+/**
+ * 把本地 TS 文件按 PCR 节奏实时回放成直播流，用于测试直播模式
+ *   WebSocket:  ws://localhost:8090/
+ *   HTTP-TS:    http://localhost:8090/live.ts（播放器中勾选“直播”）
+ * 用法: node scripts/live-replay-server.mjs <file.ts> [port]
+ * 文件播放完后从头循环，时间戳会跳变，可以用来验证播放器的不连续处理
+ * @author guo xiao
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const TS_PACKET_SIZE = 188;
+// 每次发送的最长间隔（毫秒）
+const SEND_INTERVAL = 20;
+
+const [file, portArg] = process.argv.slice(2);
+if (!file) {
+    console.error('用法: node scripts/live-replay-server.mjs <file.ts> [port]');
+    process.exit(1);
+}
+const port = Number(portArg) || 8090;
+const data = readFileSync(file);
+
+/**
+ * 读取 TS 包中的 PCR（秒），没有 PCR 时返回 undefined
+ */
+function readPcr(offset) {
+    if (data[offset] !== 0x47) {
+        return undefined;
+    }
+    const adaptationFieldControl = (data[offset + 3] >> 4) & 0x03;
+    if (!(adaptationFieldControl & 0x02) || data[offset + 4] < 7 || !(data[offset + 5] & 0x10)) {
+        return undefined;
+    }
+    // program_clock_reference_base 33 位，90kHz
+    const base = data[offset + 6] * 2 ** 25 + data[offset + 7] * 2 ** 17 + data[offset + 8] * 2 ** 9
+        + data[offset + 9] * 2 + (data[offset + 10] >> 7);
+    return base / 90000;
+}
+
+// 预先计算每个 TS 包的发送时间（相对于文件开头，秒），没有 PCR 的包沿用上一个 PCR
+const sendTimes = new Float64Array(Math.floor(data.length / TS_PACKET_SIZE));
+let firstPcr;
+let lastTime = 0;
+for (let i = 0; i < sendTimes.length; i++) {
+    const pcr = readPcr(i * TS_PACKET_SIZE);
+    if (pcr !== undefined) {
+        firstPcr ??= pcr;
+        // PCR 回绕或跳变时保持单调
+        lastTime = Math.max(lastTime, pcr - firstPcr);
+    }
+    sendTimes[i] = lastTime;
+}
+const fileDuration = lastTime || 1;
+console.log(`${file}: ${sendTimes.length} TS packets, ${fileDuration.toFixed(2)}s`);
+
+/**
+ * 按实时节奏回放，send 返回 false 时停止
+ */
+function replay(send) {
+    const startTime = performance.now();
+    let index = 0;
+    let loop = 0;
+    const timer = setInterval(() => {
+        const elapsed = (performance.now() - startTime) / 1000 - loop * fileDuration;
+        const begin = index;
+        while (index < sendTimes.length && sendTimes[index] <= elapsed) {
+            index++;
+        }
+        if (index > begin && !send(data.subarray(begin * TS_PACKET_SIZE, index * TS_PACKET_SIZE))) {
+            clearInterval(timer);
+            return;
+        }
+        if (index >= sendTimes.length) {
+            index = 0;
+            loop++;
+        }
+    }, SEND_INTERVAL);
+    return () => clearInterval(timer);
+}
+
+/**
+ * 编码一个不带掩码的 WebSocket 二进制帧
+ */
+function encodeFrame(payload) {
+    let header;
+    if (payload.length < 126) {
+        header = Buffer.from([0x82, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x82;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x82;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+const server = createServer((req, res) => {
+    if (req.url !== '/live.ts') {
+        res.writeHead(404).end();
+        return;
+    }
+    console.log('HTTP client connected');
+    res.writeHead(200, {
+        'Content-Type': 'video/mp2t',
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'no-cache',
+    });
+    const stop = replay((chunk) => res.write(chunk) || !res.destroyed);
+    res.on('close', () => {
+        stop();
+        console.log('HTTP client disconnected');
+    });
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key) {
+        socket.destroy();
+        return;
+    }
+    const accept = createHash('sha1').update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11').digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+    ].join('\r\n'));
+    console.log('WebSocket client connected');
+
+    const stop = replay((chunk) => !socket.destroyed && (socket.write(encodeFrame(chunk)), true));
+    // 客户端发来的帧（包括 close）只用于判断断开，内容忽略
+    socket.on('data', (frame) => {
+        if ((frame[0] & 0x0f) === 0x08) {
+            socket.end(Buffer.from([0x88, 0x00]));
+        }
+    });
+    socket.on('close', () => {
+        stop();
+        console.log('WebSocket client disconnected');
+    });
+    socket.on('error', () => stop());
+});
+
+server.listen(port, () => {
+    console.log(`Live replay server: ws://localhost:${port}/  http://localhost:${port}/live.ts`);
+});
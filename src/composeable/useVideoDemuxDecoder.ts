@@ -1,23 +1,37 @@
-import { ref, type Ref } from 'vue';
+import { ref, shallowRef, type Ref } from 'vue';
 import IOReader from '@libmedia/common/io/IOReader';
-import { IOError, AVPacketFlags } from '@libmedia/avutil/enum';
+import { IOError, AVPacketFlags, AVSeekFlags } from '@libmedia/avutil/enum';
+import { NOPTS_VALUE_BIGINT } from '@libmedia/avutil/constant';
 import * as demux from '@libmedia/avformat/demux';
 import { dumpCodecName } from '@libmedia/avformat/dump';
 import IMpegtsFormat from '@libmedia/avformat/formats/IMpegtsFormat';
 import IIsobmffFormat from '@libmedia/avformat/formats/IIsobmffFormat';
+import IFlvFormat from '@libmedia/avformat/formats/IFlvFormat';
+import IMatroskaFormat from '@libmedia/avformat/formats/IMatroskaFormat';
 import type IFormat from '@libmedia/avformat/formats/IFormat';
 import { createAVIFormatContext } from '@libmedia/avformat/AVFormatContext';
 import { createAVPacket, destroyAVPacket } from '@libmedia/avutil/util/avpacket';
 import AVPacket from '@libmedia/avutil/struct/avpacket';
 import structAccess from '@libmedia/cheap/std/structAccess';
 import { mapUint8Array } from '@libmedia/cheap/std/memory';
-import { WebcodecPlayer, detectKeyframe } from '../webcodec-player';
-import { SpeedControl } from '../webcodec-player/speed-control';
-import { extractH264Description, extractH265Description } from '../webcodec-player/codec-description';
+import type { Rational } from '@libmedia/avutil/struct/rational';
+import { WebcodecPlayer, AudioPlayer, KeyframeIndex, ThumbnailGenerator, ThumbnailCache, ClipMuxer, detectKeyframe, isNonReferenceFrame, isSupportedAudioCodec, toVideoCodec, createRenderer, isVideoRenderSupported, isRawFrameFormat, encodeFrameImage, copyFramePlanes, PacketLog, PacketRecorder, parseBitstreamInfo, CaptionDecoder, EmbeddedSubtitles, mergeSubtitleCues, parseSubtitleFile, StreamTimeline, toMicroseconds, CoveredRanges, SeekQueue, FrameStepper, type VideoCodec, type RendererType, type Renderer, type DecodeMode, type DecodePath, type PlayerState, type AudioOutput, type AudioPlayerOptions, type Thumbnail, type FrameExportFormat, type RawFrameData, type ClipFormat, type PacketRecord, type VideoBitstreamInfo, type SeiEvent, type SubtitleTrack, type SubtitleTrackInfo, type SubtitleCue } from '../webcodec-player';
+import { SpeedControl, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../webcodec-player/speed-control';
+import { PROBE_SIZE, probeContainer, formatProbeBytes } from '../webcodec-player/probe';
+import { createIOSource } from '../webcodec-player/io-source';
+import { HlsSource, type HlsStats } from '../webcodec-player/hls-source';
+import { isHlsUrl, type HlsVariant } from '../webcodec-player/hls-playlist';
+import { LiveSource, isLiveUrl } from '../webcodec-player/live-source';
+import { extractH264Description, extractH265Description, toDecoderConfigurationRecord, getParameterSetNalUnits, getNalFormat, isAnnexB, annexBToLengthPrefixed, type NalFormat } from '../webcodec-player/codec-description';
+import type { VideoDemuxWorkerRequest, VideoDemuxWorkerResponse, VideoDemuxWorkerState } from './videoDemuxWorkerMessages';
 
 export interface VideoDemuxDecoderStats {
   videoCodecName: string;
-  codecType: 'h264' | 'h265';
+  codecType: VideoCodec;
+  codecString: string; // 实际配置解码器使用的 WebCodecs 编码字符串
+  videoProfile: string; // 无法从码流解析时为空字符串
+  videoLevel: string; // 无法从码流解析时为空字符串
+  decodePath: DecodePath | null; // 实际使用的解码路径，解码器就绪前为 null
   width: number;
   height: number;
   totalPackets: number;
@@ -25,44 +39,320 @@ export interface VideoDemuxDecoderStats {
   keyframes: number;
   keyframeRatio: number;
   videoStreamIndex: number;
+  audioCodecName: string; // 没有可播放的音频流时为空字符串
+  audioStreamIndex: number; // 没有音频流时为 -1
+  audioSampleRate: number;
+  audioChannels: number;
+  audioPackets: number;
+  avSyncDrift: number; // 最近一帧视频相对音频主时钟的偏差（毫秒，正数表示视频超前）
+  avSyncDriftAvg: number; // 偏差绝对值的平均值（毫秒）
+  avSyncDriftMax: number; // 偏差绝对值的最大值（毫秒）
+  hls: HlsStats | null; // HLS 档位、带宽估计和缓冲长度，非 HLS 来源为 null
+  liveLatency: number | null; // 直播延迟（毫秒）：最新收到的帧与正在播放的帧之间的时长，非直播为 null
+  droppedFrames: number; // 直播追赶延迟时丢弃的非参考帧数
+  decoderRecoveries: number; // 解码器出错后自动恢复的次数
+  parameterChanges: number; // 码流中编码参数（SPS/PPS/VPS）变化、重新配置解码器的次数
+  bitstream: VideoBitstreamInfo | null; // 从 SPS/PPS/VPS 解析出的码流参数，VP8/VP9 或无法解析时为 null
 }
 
 export interface VideoDemuxDecoderOptions {
   source: string | File;
   videoEl?: HTMLVideoElement;
+  canvasEl?: HTMLCanvasElement | OffscreenCanvas; // canvas 渲染使用的画布，不传时自动在 videoEl 旁边创建
+  renderer?: RendererType; // 强制指定渲染器，默认根据浏览器能力自动选择
+  decodeMode?: DecodeMode; // 强制硬件/软件解码，默认优先硬件、不支持时回退到软件
+  wasmBaseUrl?: string; // 软件解码器 wasm 所在目录
+  live?: boolean; // 把 HTTP 地址作为直播流（HTTP-FLV / HTTP-TS）读取；ws:// 和 wss:// 地址总是直播
+  targetLatency?: number; // 直播目标延迟（毫秒），默认 1000
+  signal?: AbortSignal; // 取消加载：中止数据请求和解封装，关闭解码器并释放全部资源
+  worker?: boolean; // 在 Worker 中解封装和解码，画面渲染到 OffscreenCanvas 或把帧转发回主线程，避免大文件卡住页面
+  thumbnails?: boolean; // 生成进度条预览缩略图，默认开启；直播不生成
   onProgress?: (stats: Partial<VideoDemuxDecoderStats>) => void;
+  onSei?: (event: SeiEvent) => void; // 解码输出的帧带有 SEI（仅 H.264/H.265），按显示顺序回调
+  // 以下由 Worker 内部使用
+  onVideoFrame?: (videoFrame: VideoFrame) => void; // 不在本线程渲染，把解码出的帧交给回调，接收方负责 close
+  createAudioOutput?: (options: AudioPlayerOptions) => AudioOutput; // 替换音频输出，Worker 中没有 AudioContext
+  onThumbnail?: (thumbnail: Thumbnail) => void; // 替换缩略图的存放位置，接收方负责 close
+  onPacketRecords?: (records: PacketRecord[]) => void; // 替换数据包记录的存放位置
+  onSubtitleCues?: (track: SubtitleTrackInfo, cues: SubtitleCue[]) => void; // 替换内嵌字幕的存放位置，发现字幕流时以空数组调用一次
 }
 
+// 流水线模式下 SpeedControl 队列上限（帧），达到后暂停解封装读取
+const PIPELINE_QUEUE_SIZE = 120;
+// 每读取多少个视频包增量更新一次统计信息
+const PROGRESS_INTERVAL = 100;
+// 无法获取帧率时使用的默认帧间隔（毫秒）
+const DEFAULT_FRAME_INTERVAL = 40;
+// 每渲染多少帧刷新一次音视频同步统计
+const SYNC_STATS_INTERVAL = 30;
+// 直播默认目标延迟（毫秒）
+const DEFAULT_TARGET_LATENCY = 1000;
+// 播放速率达到该值时只解码关键帧
+const KEYFRAME_ONLY_RATE = 4;
+// worker 模式下主线程向 Worker 同步音频主时钟的间隔（毫秒），两次采样之间由 Worker 按经过的时间外推
+const AUDIO_CLOCK_INTERVAL = 50;
+// 预览缩略图的最小间隔（微秒）和数量上限，长视频按时长均分
+const THUMBNAIL_INTERVAL = 2_000_000;
+const MAX_THUMBNAILS = 300;
+// 数据包检查保留的记录数上限，超过后丢弃最早的记录
+const MAX_PACKET_RECORDS = 200_000;
+
 /**
- * 根据文件扩展名或文件名选择正确的解封装格式
+ * 当前显示的帧
  */
-function selectFormat(source: string | File): IFormat {
-  let fileName = '';
-  
-  if (source instanceof File) {
-    fileName = source.name.toLowerCase();
-  } else {
-    // 从 URL 中提取文件名
-    try {
-      const url = new URL(source);
-      fileName = url.pathname.toLowerCase();
-    } catch {
-      // 如果不是有效的 URL，直接使用字符串作为文件名
-      fileName = source.toLowerCase();
+export interface DisplayedFrame {
+  frame: VideoFrame; // 接收方负责 close
+  time: number; // 时间（秒，相对于流的起始时间）
+}
+
+/**
+ * 导出的帧：图片格式为 blob，I420/NV12 为 raw
+ */
+export interface ExportedFrame {
+  format: FrameExportFormat;
+  time: number; // 时间（秒，相对于流的起始时间）
+  timestamp: number; // pts（微秒）
+  width: number;
+  height: number;
+  blob?: Blob;
+  raw?: RawFrameData;
+}
+
+export interface FrameRangeExportOptions {
+  format?: FrameExportFormat; // 默认 png
+  quality?: number; // JPEG 质量 0 ~ 1
+  signal?: AbortSignal; // 中途停止导出
+  onFrame: (frame: ExportedFrame) => void | Promise<void>; // 每导出一帧调用，返回 Promise 时等待处理完再导出下一帧
+}
+
+export interface ClipExportOptions {
+  format?: ClipFormat; // 默认 mp4
+  signal?: AbortSignal; // 中途取消导出
+}
+
+/**
+ * 当前加载的播放控制：在当前线程解码时直接操作播放器，worker 模式下转发给 Worker
+ */
+interface PlaybackControls {
+  seek: (seconds: number) => Promise<void>;
+  setPaused: (paused: boolean) => void;
+  setPlaybackRate: (rate: number) => number; // 返回实际生效的速率
+  step: (backward: boolean) => Promise<void>;
+  getDisplayedFrame: () => Promise<DisplayedFrame | null>;
+  exportClip: (startSeconds: number, endSeconds: number, format: ClipFormat, signal: AbortSignal) => Promise<Blob>;
+}
+
+/**
+ * 比较两段字节是否相同
+ */
+function equalBytes(a: Uint8Array | undefined, b: Uint8Array | undefined): boolean {
+  if (!a || !b || a.length !== b.length) {
+    return a === b;
+  }
+  return a.every((value, index) => value === b[index]);
+}
+
+/**
+ * 比较两份 avcC/hvcC 携带的参数集（SPS/PPS/VPS）是否相同
+ * 只比较 NAL 单元本身，容器 extradata 与从码流重新生成的记录头部字段可能不同，不代表编码参数变化
+ */
+function equalParameterSets(codec: 'h264' | 'h265', a: Uint8Array, b: Uint8Array | undefined): boolean {
+  if (!b) {
+    return false;
+  }
+  // 参数集以 rbsp_stop_one_bit 结尾，末尾的 0 字节是 Annex-B 的 trailing_zero_8bits，不属于参数集
+  const trim = (nalUnit: Uint8Array) => {
+    let end = nalUnit.length;
+    while (end > 0 && nalUnit[end - 1] === 0) {
+      end--;
     }
+    return nalUnit.subarray(0, end);
+  };
+  const nalUnitsA = getParameterSetNalUnits(codec, a).map(trim);
+  const nalUnitsB = getParameterSetNalUnits(codec, b).map(trim);
+  return nalUnitsA.length === nalUnitsB.length
+    && nalUnitsA.every((nalUnit) => nalUnitsB.some((other) => equalBytes(nalUnit, other)));
+}
+
+/**
+ * 读取文件头部字节探测容器格式，并创建对应的解封装格式
+ * 不依赖文件扩展名，改名的文件、带查询参数的 URL、没有扩展名的 Blob 都能正确识别
+ */
+async function probeFormat(ioReader: IOReader, fileSize: bigint): Promise<IFormat> {
+  let header: Uint8Array;
+  try {
+    const probeSize = fileSize > BigInt(0) ? Math.min(PROBE_SIZE, Number(fileSize)) : PROBE_SIZE;
+    // peek 不会移动读取位置，解封装仍然从文件开头开始
+    header = await ioReader.peekBuffer(probeSize);
+  } catch (err) {
+    throw new Error(`无法读取文件头部用于探测容器格式: ${(err as Error)?.message ?? err}`);
   }
-  
-  // 根据文件扩展名选择格式
-  if (fileName.endsWith('.mp4') || fileName.endsWith('.m4v') || fileName.endsWith('.mov')) {
-    console.log(`检测到 MP4 格式文件，使用 IIsobmffFormat`);
-    return new IIsobmffFormat();
-  } else if (fileName.endsWith('.ts') || fileName.endsWith('.m2ts') || fileName.endsWith('.mts')) {
-    console.log(`检测到 MPEG-TS 格式文件，使用 IMpegtsFormat`);
-    return new IMpegtsFormat();
-  } else {
-    // 默认使用 MPEG-TS 格式（向后兼容）
-    console.log(`未识别的文件格式，默认使用 IMpegtsFormat`);
-    return new IMpegtsFormat();
+
+  const result = probeContainer(header);
+  if (!result) {
+    throw new Error(`不支持的容器格式（unsupported container）：无法从文件头识别，前 16 字节: ${formatProbeBytes(header)}`);
+  }
+
+  switch (result.format) {
+    case 'isobmff':
+      console.log(`探测到 MP4 (ISOBMFF) 格式，使用 IIsobmffFormat`);
+      return new IIsobmffFormat();
+    case 'mpegts':
+      console.log(`探测到 MPEG-TS 格式（包长 ${result.packetSize} 字节），使用 IMpegtsFormat`);
+      return new IMpegtsFormat();
+    case 'flv':
+      console.log(`探测到 FLV 格式，使用 IFlvFormat`);
+      return new IFlvFormat();
+    case 'matroska':
+    case 'webm':
+      console.log(`探测到 ${result.format === 'webm' ? 'WebM' : 'Matroska'} 格式，使用 IMatroskaFormat`);
+      return new IMatroskaFormat();
+    default:
+      throw new Error(`不支持的容器格式（unsupported container）：${result.format}`);
+  }
+}
+
+interface RemuxClipOptions {
+  source: string | File;
+  format: ClipFormat;
+  videoStreamIndex: number;
+  audioStreamIndex: number; // 没有音频时为 -1
+  seekUs: number; // 定位用的时间戳（微秒），解封装器从它之前最近的关键帧开始读取
+  endUs: number; // 出点（微秒）
+  description?: Uint8Array; // 流参数中没有 extradata 时使用的 avcC/hvcC
+  signal: AbortSignal;
+}
+
+/**
+ * 单独打开一次数据源，从入点之前最近的关键帧读到出点，把视频和音频数据包原样封装为新文件
+ * 播放送去解码后就释放数据包，不保留数据，缓存全部数据包的内存开销和文件大小相当；
+ * 借用播放的解封装器又会移动它的读取位置打断播放。所以这里只复用播放已得到的关键帧索引和 avcC/hvcC，
+ * 数据包用各自的读取位置重新读取，只读入点到出点之间的部分
+ */
+async function remuxClip(options: RemuxClipOptions): Promise<Blob> {
+  const { source, videoStreamIndex, audioStreamIndex, seekUs, endUs, signal } = options;
+  const ioSource = createIOSource(source);
+  const ioReader = new IOReader();
+  const iformatContext = createAVIFormatContext();
+  iformatContext.ioReader = ioReader;
+  const avpacket = createAVPacket();
+  const muxer = new ClipMuxer(options.format);
+  let readPos = 0;
+  let fileSize = BigInt(0);
+  let ioError: Error | null = null;
+  const abort = () => ioSource.destroy();
+
+  ioReader.onFlush = async (buffer: Uint8Array) => {
+    if (fileSize > BigInt(0) && readPos >= Number(fileSize)) {
+      return IOError.END;
+    }
+    try {
+      const len = await ioSource.read(readPos, buffer);
+      if (len <= 0) {
+        return IOError.END;
+      }
+      readPos += len;
+      return len;
+    } catch (err) {
+      ioError = err as Error;
+      return IOError.NETWORK_ERROR;
+    }
+  };
+  ioReader.onSeek = (pos: bigint) => {
+    readPos = Number(pos);
+    ioSource.seek(readPos);
+    return 0;
+  };
+  ioReader.onSize = () => fileSize;
+
+  try {
+    signal.throwIfAborted();
+    signal.addEventListener('abort', abort, { once: true });
+    await ioSource.open();
+    fileSize = BigInt(ioSource.getSize());
+    iformatContext.iformat = await probeFormat(ioReader, fileSize);
+    await demux.open(iformatContext);
+    await demux.analyzeStreams(iformatContext);
+    signal.throwIfAborted();
+
+    const videoStream = iformatContext.getStreamByIndex(videoStreamIndex);
+    if (!videoStream) {
+      throw new Error('无法获取视频流信息');
+    }
+    const audioStream = audioStreamIndex >= 0 ? iformatContext.getStreamByIndex(audioStreamIndex) : undefined;
+    const videoTimeBase = { num: videoStream.timeBase.num, den: videoStream.timeBase.den } as Rational;
+    const audioTimeBase = audioStream ? { num: audioStream.timeBase.num, den: audioStream.timeBase.den } as Rational : null;
+    muxer.addStream(videoStreamIndex, videoStream.codecpar, videoTimeBase, options.description);
+    if (audioStream && audioTimeBase) {
+      muxer.addStream(audioStreamIndex, audioStream.codecpar, audioTimeBase);
+    }
+    muxer.open();
+
+    // demux.seek 的时间戳单位为毫秒；向上取整，保证换算回流时间基后不会落到前一个关键帧
+    const ret = await demux.seek(iformatContext, videoStreamIndex, BigInt(Math.ceil(seekUs / 1000)), AVSeekFlags.BACKWARD);
+    if (ret < BigInt(0)) {
+      console.warn(`片段导出 seek 失败，错误码: ${ret}，从文件开头读取`);
+    }
+
+    // 片段以第一个视频关键帧为起点，所有流减去同一偏移；关键帧之前的数据包无法独立解码或播放，丢弃
+    let offsetUs: number | null = null;
+    let keyframePtsUs = 0;
+    let videoEnded = false;
+    let audioEnded = !audioStream;
+    let videoPackets = 0;
+    while (!videoEnded || !audioEnded) {
+      signal.throwIfAborted();
+      if (await demux.readAVPacket(iformatContext, avpacket) !== 0) {
+        break;
+      }
+      const pkt = structAccess(avpacket, AVPacket);
+      if (pkt.streamIndex === videoStreamIndex) {
+        const ptsUs = toMicroseconds(pkt.pts, videoTimeBase);
+        const dtsUs = toMicroseconds(pkt.dts, videoTimeBase) ?? ptsUs;
+        if (dtsUs === undefined || videoEnded) {
+          continue;
+        }
+        if (offsetUs === null) {
+          if (!(pkt.flags & AVPacketFlags.AV_PKT_FLAG_KEY)) {
+            continue;
+          }
+          keyframePtsUs = ptsUs ?? dtsUs;
+          offsetUs = Math.min(dtsUs, keyframePtsUs);
+        }
+        // 按解码顺序判断，显示时间不晚于出点的帧都已写入
+        if (dtsUs > endUs) {
+          videoEnded = true;
+          continue;
+        }
+        muxer.writePacket(avpacket, offsetUs);
+        videoPackets++;
+      } else if (audioStream && audioTimeBase && pkt.streamIndex === audioStreamIndex) {
+        const ptsUs = toMicroseconds(pkt.pts, audioTimeBase) ?? toMicroseconds(pkt.dts, audioTimeBase);
+        if (offsetUs === null || audioEnded || ptsUs === undefined || ptsUs < keyframePtsUs) {
+          continue;
+        }
+        if (ptsUs > endUs) {
+          audioEnded = true;
+          continue;
+        }
+        muxer.writePacket(avpacket, offsetUs);
+      }
+    }
+    signal.throwIfAborted();
+    if (ioError) {
+      throw new Error(`读取数据失败: ${(ioError as Error).message}`);
+    }
+    if (!videoPackets) {
+      throw new Error('所选范围内没有可导出的视频帧');
+    }
+    console.log(`片段导出完成: ${videoPackets} 个视频数据包，起点关键帧 pts=${keyframePtsUs}us`);
+    return muxer.finish();
+  } finally {
+    signal.removeEventListener('abort', abort);
+    muxer.destroy();
+    iformatContext.destroy();
+    destroyAVPacket(avpacket);
+    ioSource.destroy();
   }
 }
 
@@ -70,112 +360,421 @@ export function useVideoDemuxDecoder() {
   const stats: Ref<VideoDemuxDecoderStats | null> = ref(null);
   const isLoading = ref(false);
   const error = ref<Error | null>(null);
+  // 当前播放时间与总时长（秒），由解码输出的 VideoFrame.timestamp 驱动
+  const currentTime = ref(0);
+  const duration = ref(0);
+  // 播放器状态（跟随 WebcodecPlayer 的 statechange 事件），以及播放中是否在等待数据
+  const playerState = ref<PlayerState>('idle');
+  const waiting = ref(false);
+  // 当前显示的隐藏字幕（SEI 中的 CEA-608/708），没有时为空字符串
+  const captionText = ref('');
+  // 音量与静音状态，在不同文件之间保持
+  let audioVolume = 1;
+  let audioMuted = false;
+  let activeAudioPlayer: AudioOutput | null = null;
+  // 播放状态：暂停在加载新文件时重置，播放速率在不同文件之间保持
+  const paused = ref(false);
+  const playbackRate = ref(1);
+  let activeControls: PlaybackControls | null = null;
+  // 当前加载的取消控制器，以及加载结束、资源全部释放后 resolve 的 Promise
+  let activeController: AbortController | null = null;
+  let activeRun: Promise<void> | null = null;
+  // 每次 stop() 递增，用于判断等待上一次加载结束期间是否又有新的加载或停止请求
+  let loadCount = 0;
+  // 进度条预览缩略图，随解封装增量生成
+  const thumbnails = new ThumbnailCache();
+  // 数据包检查：首次读取到的每个数据包，随解封装增量追加
+  const packetLog = new PacketLog(MAX_PACKET_RECORDS);
+  const packets = shallowRef<readonly PacketRecord[]>([]);
+  // packets 原地追加不会触发更新，每次追加后版本号加一
+  const packetsVersion = ref(0);
+  // 字幕轨道：容器中的文字字幕流（随解封装增量追加字幕条目）和外挂的字幕文件
+  const subtitleTracks = shallowRef<readonly SubtitleTrack[]>([]);
+  let sidecarCount = 0;
+
+  /**
+   * 设置音量
+   * @param volume 0 ~ 1
+   */
+  function setVolume(volume: number) {
+    audioVolume = volume;
+    activeAudioPlayer?.setVolume(volume);
+  }
+
+  /**
+   * 跳转到指定时间，定位到之前最近的关键帧后解码并丢弃目标之前的帧；暂停时解码出目标帧显示出来
+   * @param seconds 目标时间（秒，相对于流的起始时间）
+   */
+  async function seek(seconds: number): Promise<void> {
+    await activeControls?.seek(seconds);
+  }
+
+  /**
+   * 继续播放
+   */
+  function play() {
+    activeControls?.setPaused(false);
+    paused.value = false;
+  }
+
+  /**
+   * 暂停播放，视频停在当前帧，音频同时暂停
+   */
+  function pause() {
+    activeControls?.setPaused(true);
+    paused.value = true;
+  }
+
+  /**
+   * 设置播放速率。音频无法跟随变速，非 1 倍速时关闭音频、按内部时钟播放，
+   * 达到 4 倍速时只解码关键帧；直播固定为 1 倍速
+   * @param rate 0.25 ~ 8
+   */
+  function setPlaybackRate(rate: number) {
+    const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    playbackRate.value = activeControls ? activeControls.setPlaybackRate(clamped) : clamped;
+  }
+
+  /**
+   * 暂停并前进一帧
+   */
+  async function stepForward(): Promise<void> {
+    pause();
+    await activeControls?.step(false);
+  }
+
+  /**
+   * 暂停并后退一帧：从上一帧之前最近的关键帧重新解码到上一帧
+   */
+  async function stepBackward(): Promise<void> {
+    pause();
+    await activeControls?.step(true);
+  }
+
+  /**
+   * 创建在当前线程播放的音频播放器，使用当前的音量和静音状态；解码器出错时记录到 error
+   */
+  function createAudioPlayer(audioOptions: AudioPlayerOptions): AudioPlayer {
+    const audioPlayer = new AudioPlayer({ ...audioOptions, volume: audioVolume, muted: audioMuted });
+    audioPlayer.on('error', (err) => {
+      error.value = err;
+    });
+    return audioPlayer;
+  }
+
+  /**
+   * 设置静音状态
+   */
+  function setMuted(muted: boolean) {
+    audioMuted = muted;
+    activeAudioPlayer?.setMuted(muted);
+  }
+
+  /**
+   * 把播放状态恢复为未加载
+   */
+  function resetState() {
+    stats.value = null;
+    error.value = null;
+    isLoading.value = false;
+    currentTime.value = 0;
+    duration.value = 0;
+    paused.value = false;
+    playerState.value = 'idle';
+    waiting.value = false;
+    captionText.value = '';
+    thumbnails.clear();
+    packetLog.clear();
+    packets.value = packetLog.getRecords();
+    packetsVersion.value++;
+    subtitleTracks.value = [];
+  }
+
+  /**
+   * 添加预览缩略图
+   */
+  function addThumbnail(thumbnail: Thumbnail) {
+    thumbnails.add(thumbnail.time, thumbnail.bitmap);
+  }
+
+  /**
+   * 追加数据包记录；记录数组原地更新，不复制，通过版本号通知依赖它的组件
+   */
+  function addPacketRecords(records: PacketRecord[]) {
+    packetLog.add(records);
+    packets.value = packetLog.getRecords();
+    packetsVersion.value++;
+  }
+
+  /**
+   * 追加字幕条目，轨道不存在时先添加轨道；轨道对象整体替换，让依赖它的组件刷新
+   */
+  function addSubtitleCues(info: SubtitleTrackInfo, cues: SubtitleCue[]) {
+    const existing = subtitleTracks.value.find((track) => track.id === info.id);
+    if (existing && !cues.length) {
+      return;
+    }
+    const track: SubtitleTrack = { ...info, cues: mergeSubtitleCues(existing?.cues ?? [], cues) };
+    subtitleTracks.value = existing
+      ? subtitleTracks.value.map((item) => item === existing ? track : item)
+      : [...subtitleTracks.value, track];
+  }
+
+  /**
+   * 加载外挂字幕文件（WebVTT / SRT / ASS），时间相对于视频开头；加载新视频时清除
+   * @returns 添加的字幕轨道
+   */
+  async function addSubtitleFile(file: File): Promise<SubtitleTrack> {
+    const { format, cues } = parseSubtitleFile(await file.text(), file.name);
+    const info: SubtitleTrackInfo = {
+      id: `sidecar-${++sidecarCount}`,
+      label: file.name,
+      format,
+      source: 'sidecar',
+    };
+    addSubtitleCues(info, cues);
+    console.log(`外挂字幕已加载: ${file.name}，格式 ${format}，${cues.length} 条`);
+    return subtitleTracks.value.find((track) => track.id === info.id)!;
+  }
+
+  /**
+   * 获取离指定时间最近的预览缩略图，还没有生成时返回 null
+   * @param seconds 时间（秒，相对于流的起始时间）
+   */
+  function getThumbnail(seconds: number): Thumbnail | null {
+    return thumbnails.getNearest(seconds) ?? null;
+  }
+
+  /**
+   * 获取当前显示的帧，没有正在播放的视频或尚未渲染时返回 null
+   */
+  async function getDisplayedFrame(): Promise<DisplayedFrame | null> {
+    return await activeControls?.getDisplayedFrame() ?? null;
+  }
+
+  /**
+   * 按原始分辨率导出一帧
+   */
+  async function exportFrame({ frame, time }: DisplayedFrame, format: FrameExportFormat, quality?: number): Promise<ExportedFrame> {
+    const exported: ExportedFrame = {
+      format,
+      time,
+      timestamp: frame.timestamp,
+      width: frame.displayWidth,
+      height: frame.displayHeight,
+    };
+    if (isRawFrameFormat(format)) {
+      exported.raw = await copyFramePlanes(frame, format);
+    } else {
+      exported.blob = await encodeFrameImage(frame, format, quality);
+    }
+    return exported;
+  }
 
+  /**
+   * 截取当前显示的帧：PNG/JPEG 图片或 I420/NV12 原始数据，没有可截取的帧时返回 null
+   * @param format 导出格式，默认 png
+   * @param quality JPEG 质量 0 ~ 1
+   */
+  async function captureFrame(format: FrameExportFormat = 'png', quality?: number): Promise<ExportedFrame | null> {
+    const displayed = await getDisplayedFrame();
+    if (!displayed) {
+      return null;
+    }
+    try {
+      return await exportFrame(displayed, format, quality);
+    } finally {
+      displayed.frame.close();
+    }
+  }
+
+  /**
+   * 批量导出一段时间内的全部帧：暂停后 seek 到起点，逐帧步进直到超过终点或到达结尾
+   * 导出结束后回到原来的位置和播放状态
+   * @param startSeconds 起始时间（秒，包含）
+   * @param endSeconds 结束时间（秒，包含）
+   * @returns 导出的帧数
+   */
+  async function exportFrames(startSeconds: number, endSeconds: number, options: FrameRangeExportOptions): Promise<number> {
+    if (!activeControls || endSeconds < startSeconds) {
+      return 0;
+    }
+    const { format = 'png', quality, signal, onFrame } = options;
+    const wasPaused = paused.value;
+    const resumeTime = currentTime.value;
+    let count = 0;
+    pause();
+    try {
+      await seek(startSeconds);
+      let lastTimestamp = -Infinity;
+      while (!signal?.aborted) {
+        const displayed = await getDisplayedFrame();
+        if (!displayed) {
+          break;
+        }
+        try {
+          // 步进后画面没有前进说明已经到达结尾
+          if (displayed.frame.timestamp <= lastTimestamp || displayed.time > endSeconds) {
+            break;
+          }
+          lastTimestamp = displayed.frame.timestamp;
+          await onFrame(await exportFrame(displayed, format, quality));
+          count++;
+        } finally {
+          displayed.frame.close();
+        }
+        await stepForward();
+      }
+    } finally {
+      await seek(resumeTime);
+      if (!wasPaused) {
+        play();
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 导出一段片段：从入点之前最近的关键帧开始，把视频和音频数据包原样封装为 MP4 或 TS，不重新编码
+   * 直播和 HLS 不支持；停止或切换视频时导出随之取消
+   * @param startSeconds 入点（秒，相对于流的起始时间）
+   * @param endSeconds 出点（秒）
+   */
+  async function exportClip(startSeconds: number, endSeconds: number, options: ClipExportOptions = {}): Promise<Blob> {
+    if (!activeControls || !activeController) {
+      throw new Error('没有正在播放的视频');
+    }
+    if (!(endSeconds > startSeconds)) {
+      throw new Error('出点必须晚于入点');
+    }
+    const signals = [activeController.signal];
+    if (options.signal) {
+      signals.push(options.signal);
+    }
+    return activeControls.exportClip(Math.max(0, startSeconds), endSeconds, options.format ?? 'mp4', AbortSignal.any(signals));
+  }
+
+  /**
+   * 停止当前加载：中止数据请求和解封装，关闭解码器并释放全部资源，状态恢复为未加载
+   * 等待资源释放完毕后 resolve
+   */
+  async function stop(): Promise<void> {
+    loadCount++;
+    activeController?.abort();
+    await activeRun;
+    resetState();
+  }
+
+  /**
+   * 加载并播放视频。开始前会先停止上一次加载，取消时以 AbortError 拒绝
+   */
   async function processVideoFile(options: VideoDemuxDecoderOptions) {
+    const stopping = stop();
+    const loadId = loadCount;
+    await stopping;
+    // 等待期间又有新的加载或停止请求，本次加载作废
+    if (loadId !== loadCount) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+    const controller = new AbortController();
+    const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+    let finishRun!: () => void;
+    activeController = controller;
+    activeRun = new Promise<void>((resolve) => {
+      finishRun = resolve;
+    });
+
     isLoading.value = true;
     error.value = null;
+    playerState.value = 'loading';
+    try {
+      return options.worker ? await processInWorker(options, signal) : await demuxAndDecode(options, signal);
+    } catch (err) {
+      if (signal.aborted) {
+        console.log('加载已取消');
+        throw signal.reason;
+      }
+      console.error(`${options.worker ? 'Worker ' : ''}解封装和解码过程出错:`, err);
+      // worker 模式下 Worker 中的错误已经随状态同步过来
+      if (!options.worker || !error.value) {
+        error.value = err as Error;
+      }
+      isLoading.value = false;
+      playerState.value = 'error';
+      throw err;
+    } finally {
+      if (activeController === controller) {
+        activeController = null;
+        activeRun = null;
+      }
+      // 由外部 signal 取消时没有经过 stop()，在这里恢复状态
+      if (signal.aborted) {
+        resetState();
+      }
+      finishRun();
+    }
+  }
+
+  /**
+   * 在当前线程解封装和解码
+   */
+  async function demuxAndDecode(options: VideoDemuxDecoderOptions, signal: AbortSignal): Promise<VideoDemuxDecoderStats> {
+    const loadStartTime = performance.now();
     
-    const { source, videoEl, onProgress } = options;
+    const { source, videoEl, canvasEl, renderer, decodeMode, wasmBaseUrl, onProgress, onVideoFrame } = options;
+    const targetLatency = options.targetLatency ?? DEFAULT_TARGET_LATENCY;
     
     const iformatContext = createAVIFormatContext();
     const ioReader = new IOReader();
 
-    // 根据文件类型自动选择解封装格式
-    const iformat = selectFormat(source);
     iformatContext.ioReader = ioReader;
-    iformatContext.iformat = iformat;
 
     const avpacket = createAVPacket();
     let readPos = 0;
     let fileSize: bigint = BigInt(0);
-    let fileData: Uint8Array | null = null;
-
-    // 处理文件源：支持 File 对象或字符串 URL
-    try {
-      if (source instanceof File) {
-        // 如果是 File 对象，直接读取到内存
-        console.log('Loading File object into memory...');
-        fileSize = BigInt(source.size);
-        const arrayBuffer = await source.arrayBuffer();
-        fileData = new Uint8Array(arrayBuffer);
-        fileSize = BigInt(arrayBuffer.byteLength);
-        console.log(`File loaded: ${source.name}, size: ${fileSize} bytes`);
-      } else {
-        // 如果是字符串 URL，使用原有逻辑
-        const headResponse = await fetch(source, { method: 'HEAD' });
-        const contentLength = headResponse.headers.get('content-length');
-        fileSize = contentLength ? BigInt(contentLength) : BigInt(0);
-
-        // 如果文件较小，一次性加载到内存
-        const maxFileSize = 200 * 1024 * 1024; // 200MB
-        if (fileSize && fileSize < BigInt(maxFileSize)) {
-          console.log('Loading entire file into memory...');
-          const response = await fetch(source);
-          const arrayBuffer = await response.arrayBuffer();
-          fileData = new Uint8Array(arrayBuffer);
-          fileSize = BigInt(arrayBuffer.byteLength);
-        }
-      }
-    } catch (err) {
-      console.error('Error getting file size:', err);
-      error.value = err as Error;
-      isLoading.value = false;
-      throw err;
-    }
+    // 直播流按到达顺序增量读取；m3u8 按分片下载拼接成 TS 字节流；
+    // 本地文件按需读取，其他 URL 按块 Range 请求（带缓存、预读和重试）
+    const liveSource = isLiveUrl(source) || (options.live && typeof source === 'string')
+      ? new LiveSource(source as string)
+      : null;
+    const hlsSource = !liveSource && isHlsUrl(source)
+      ? new HlsSource(source, {
+        getPlaybackTime: () => currentTime.value,
+        onSegmentLoaded: () => {
+          if (stats.value && hlsSource) {
+            stats.value = { ...stats.value, hls: hlsSource.getStats() };
+          }
+        },
+      })
+      : null;
+    const ioSource = liveSource ?? hlsSource ?? createIOSource(source);
+    // 数据源读取失败（重试后仍失败）的原因，用于区分正常结束和网络错误
+    let ioError: Error | null = null;
+    // 取消时立即中止进行中的请求，正在等待数据的解封装随之返回
+    signal.addEventListener('abort', () => ioSource.destroy(), { once: true });
 
     ioReader.onFlush = async (buffer: Uint8Array) => {
-      if (readPos >= Number(fileSize)) {
+      if (fileSize > BigInt(0) && readPos >= Number(fileSize)) {
         return IOError.END;
       }
 
-      // 如果文件已完全加载到内存
-      if (fileData) {
-        const len = Math.min(buffer.length, fileData.length - readPos);
+      try {
+        const len = await ioSource.read(readPos, buffer);
         if (len <= 0) {
           return IOError.END;
         }
-        buffer.set(fileData.subarray(readPos, readPos + len), 0);
         readPos += len;
         return len;
-      }
-
-      // 从 URL 加载数据（仅当 source 是字符串时）
-      if (typeof source === 'string') {
-        const len = Math.min(buffer.length, Number(fileSize) - readPos);
-        if (len <= 0) {
-          return IOError.END;
-        }
-
-        try {
-          const endPos = readPos + len - 1;
-          const response = await fetch(source, {
-            headers: {
-              'Range': `bytes=${readPos}-${endPos}`
-            }
-          });
-
-          if (!response.ok && response.status !== 206) {
-            return IOError.END;
-          }
-
-          const arrayBuffer = await response.arrayBuffer();
-          const data = new Uint8Array(arrayBuffer);
-          const actualLen = Math.min(len, data.length);
-          buffer.set(data.subarray(0, actualLen), 0);
-          readPos += actualLen;
-          return actualLen;
-        } catch (err) {
-          console.error('Error loading data:', err);
-          return IOError.END;
-        }
-      } else {
-        // File 对象应该已经在 fileData 中，不应该走到这里
-        return IOError.END;
+      } catch (err) {
+        console.error('Error loading data:', err);
+        ioError = err as Error;
+        return IOError.NETWORK_ERROR;
       }
     };
 
     ioReader.onSeek = (pos: bigint) => {
       readPos = Number(pos);
+      ioSource.seek(readPos);
       return 0;
     };
 
@@ -183,8 +782,21 @@ export function useVideoDemuxDecoder() {
       return fileSize;
     };
 
+    let player: WebcodecPlayer | null = null;
+    let audioPlayer: AudioOutput | null = null;
+    // SEI 中的 CEA-608/708 字幕，按显示顺序解码
+    const captionDecoder = new CaptionDecoder();
+
     try {
-      await demux.open(iformatContext);
+      signal.throwIfAborted();
+      await ioSource.open();
+      fileSize = BigInt(ioSource.getSize());
+      console.log(`数据源已打开: ${source instanceof File ? source.name : source}, size: ${fileSize} bytes`);
+
+      // 根据文件头部字节自动选择解封装格式
+      iformatContext.iformat = await probeFormat(ioReader, fileSize);
+      // 直播流拿到流参数后就开始播放，不为分析时长多等待数据
+      await demux.open(iformatContext, liveSource ? { fastOpen: true } : undefined);
       await demux.analyzeStreams(iformatContext);
 
       // got stream info from iformatContext.streams
@@ -228,6 +840,23 @@ export function useVideoDemuxDecoder() {
         throw new Error('未找到视频流');
       }
 
+      // 找到第一个可以播放的音频流 - AVMEDIA_TYPE_AUDIO = 1
+      let audioStreamIndex = -1;
+      let audioCodecName = '';
+      for (let i = 0; i < iformatContext.streams.length; i++) {
+        const stream = iformatContext.streams[i];
+        if (stream && stream.codecpar.codecType === 1) {
+          const codecName = dumpCodecName(stream.codecpar.codecType, stream.codecpar.codecId);
+          if (isSupportedAudioCodec(codecName)) {
+            audioStreamIndex = i;
+            audioCodecName = codecName;
+            console.log(`\n找到音频流索引: ${i}, 编码格式: ${codecName}`);
+            break;
+          }
+          console.warn(`音频流 ${i} 编码格式 ${codecName} 暂不支持，跳过`);
+        }
+      }
+
       // 创建 WebcodecPlayer 实例
       const videoStream = iformatContext.streams[videoStreamIndex];
       if (!videoStream) {
@@ -235,14 +864,54 @@ export function useVideoDemuxDecoder() {
       }
 
       // 立即保存视频流的宽高信息，避免后续 iformatContext.destroy() 后无法访问
-      const videoWidth = videoStream.codecpar.width || 0;
-      const videoHeight = videoStream.codecpar.height || 0;
+      // HLS 切换档位后按新档位的分辨率更新
+      let videoWidth = videoStream.codecpar.width || 0;
+      let videoHeight = videoStream.codecpar.height || 0;
+
+      // 保存时间基和起始时间，用于把 pts/dts 转换为微秒
+      const timeBase: Rational = {
+        num: videoStream.timeBase.num,
+        den: videoStream.timeBase.den,
+      } as Rational;
+      const timeline = new StreamTimeline(toMicroseconds(videoStream.startTime, timeBase));
+
+      const streamDurationUs = videoStream.duration > BigInt(0)
+        ? toMicroseconds(videoStream.duration, timeBase)
+        : undefined;
+      if (streamDurationUs) {
+        duration.value = streamDurationUs / 1_000_000;
+      }
+      // TS 分片拼接的字节流没有总大小，解封装器估计不出时长，使用播放列表的总时长（直播为 0）
+      if (hlsSource) {
+        duration.value = hlsSource.getDuration();
+      }
+
+      // 直播只能按 1 倍速从当前位置往后播放
+      const isLiveStream = !!liveSource || !!hlsSource?.isLive();
+      if (isLiveStream) {
+        playbackRate.value = 1;
+      }
+      // 非 1 倍速时不解码音频，视频按内部时钟播放
+      let audioEnabled = playbackRate.value === 1;
+
+      // 帧率仅在没有时间戳时作为后备
+      let frameInterval = DEFAULT_FRAME_INTERVAL;
+      const framerate = videoStream.codecpar.framerate;
+      const hasContainerFramerate = !!framerate && framerate.num > 0 && framerate.den > 0;
+      if (hasContainerFramerate) {
+        frameInterval = 1000 * framerate.den / framerate.num;
+      }
 
       // 根据检测到的编码格式自动判断
-      const codecType = videoCodecName.toLowerCase() === 'h264' ? 'h264' : 'h265';
+      const codecType = toVideoCodec(videoCodecName);
+      if (!codecType) {
+        throw new Error(`不支持的视频编码格式: ${videoCodecName}`);
+      }
       
       // 提取 extradata/description（用于 H.264 和 H.265）
       let description: Uint8Array | undefined = undefined;
+      // 数据包的 NAL 格式按流确定一次：extradata 为 avcC/hvcC 时是长度前缀，MPEG-TS 是 Annex-B，都无法确定时才逐包判断
+      let nalFormat: NalFormat | undefined = iformatContext.iformat instanceof IMpegtsFormat ? 'annexb' : undefined;
       try {
         // 尝试从 codecpar 中获取 extradata
         if (videoStream.codecpar.extradata && videoStream.codecpar.extradataSize > 0) {
@@ -251,6 +920,14 @@ export function useVideoDemuxDecoder() {
           // Clone data because mapUint8Array only returns a view into libmedia's WASM memory.
           description = new Uint8Array(extradataView);
           console.log(`提取到 extradata，大小: ${extradataSize} 字节`);
+          nalFormat = getNalFormat(description) ?? nalFormat;
+          // MPEG-TS 等容器给出的是 Annex-B 格式的参数集，统一转换为 avcC/hvcC
+          if (codecType === 'h264' || codecType === 'h265') {
+            description = toDecoderConfigurationRecord(codecType, description);
+            if (!description) {
+              console.warn('extradata 无法转换为 avcC/hvcC，将在第一个关键帧中提取');
+            }
+          }
         } else {
           console.log('未找到 extradata，将在第一个关键帧中提取');
         }
@@ -258,23 +935,181 @@ export function useVideoDemuxDecoder() {
         console.warn('提取 extradata 时出错:', err);
       }
       
-      // 如果没有提供 videoEl，创建一个临时的 video 元素用于解码
-      const targetVideoEl = videoEl || document.createElement('video');
-      
-      // 先创建 player，但如果 H.264/H.265 且没有 description，需要延迟配置
-      let player: WebcodecPlayer | null = null;
+      // 创建音频播放器，音频作为音视频同步的主时钟
+      let audioTimeBase: Rational | null = null;
+      let audioSampleRate = 0;
+      let audioChannels = 0;
+      const audioStream = audioStreamIndex >= 0 ? iformatContext.streams[audioStreamIndex] : undefined;
+      if (audioStream && isSupportedAudioCodec(audioCodecName)) {
+        audioTimeBase = {
+          num: audioStream.timeBase.num,
+          den: audioStream.timeBase.den,
+        } as Rational;
+        audioSampleRate = audioStream.codecpar.sampleRate;
+        audioChannels = audioStream.codecpar.chLayout.nbChannels;
+
+        let audioDescription: Uint8Array | undefined = undefined;
+        if (audioStream.codecpar.extradata && audioStream.codecpar.extradataSize > 0) {
+          audioDescription = new Uint8Array(mapUint8Array(audioStream.codecpar.extradata, audioStream.codecpar.extradataSize));
+        }
+
+        const audioOptions: AudioPlayerOptions = {
+          codec: audioCodecName,
+          sampleRate: audioSampleRate,
+          numberOfChannels: audioChannels,
+          description: audioDescription,
+          volume: audioVolume,
+          muted: audioMuted,
+          targetLatency: liveSource ? targetLatency : undefined,
+        };
+        audioPlayer = options.createAudioOutput ? options.createAudioOutput(audioOptions) : createAudioPlayer(audioOptions);
+        activeAudioPlayer = audioPlayer;
+      }
+
+      // 容器中的文字字幕流，读到的字幕包解析为字幕条目
+      const embeddedSubtitles = new EmbeddedSubtitles(timeline, options.onSubtitleCues ?? addSubtitleCues);
+      iformatContext.streams.forEach((stream, index) => embeddedSubtitles.addStream(index, stream));
+
+      // 音视频同步偏差统计
+      let syncSamples = 0;
+      let syncDrift = 0;
+      let syncDriftSum = 0;
+      let syncDriftMax = 0;
+      // 直播延迟统计，渲染时从 SpeedControl 读取
+      let liveLatency: number | null = null;
+      let droppedFrames = 0;
+      let decoderRecoveries = 0;
+      let parameterChanges = 0;
+      // 高倍速播放时只解码关键帧，暂停（逐帧步进）时总是完整解码
+      const isKeyframeOnly = (isPaused: boolean, rate: number) => !isPaused && rate >= KEYFRAME_ONLY_RATE;
+      // 逐帧步进：记录渲染过的帧，暂停时一次只前进或后退一帧
+      const frameStepper = new FrameStepper({
+        timeline,
+        step: () => speedControl.step(),
+        isReadEnded: () => readEnded,
+        seek: (seconds) => requestSeek(seconds),
+        getFrameInterval: () => frameInterval,
+        signal,
+      });
+
+      // 没有任何渲染目标时，创建一个临时的 video 元素用于解码
+      const targetVideoEl = videoEl ?? (canvasEl || onVideoFrame ? undefined : document.createElement('video'));
       
-      // 如果 H.264/H.265 且没有 description，先不创建 player，等找到第一个关键帧后再创建
-      if ((codecType === 'h264' || codecType === 'h265') && !description) {
-        console.log(`${codecType.toUpperCase()} 未找到 extradata，将在找到第一个关键帧后提取 description`);
-      } else {
-        player = new WebcodecPlayer({
+      /**
+       * 容器没有给出分辨率或帧率时，使用参数集中裁剪后的尺寸和 VUI 中的帧率
+       */
+      const applyBitstreamInfo = (description?: Uint8Array) => {
+        const info = parseBitstreamInfo(codecType, description);
+        if (!info) {
+          return;
+        }
+        if (!videoWidth || !videoHeight) {
+          videoWidth = info.width;
+          videoHeight = info.height;
+          console.log(`容器未给出分辨率，使用 SPS 中的尺寸: ${videoWidth}x${videoHeight}`);
+        }
+        if (!hasContainerFramerate && info.frameRate) {
+          frameInterval = 1000 / info.frameRate;
+          console.log(`容器未给出帧率，使用 VUI 中的帧率: ${info.frameRate.toFixed(2)} fps`);
+        }
+      };
+
+      const createPlayer = (description?: Uint8Array) => {
+        const newPlayer = new WebcodecPlayer({
           codec: codecType,
           width: videoWidth || 1920,
           height: videoHeight || 1080,
           videoEl: targetVideoEl,
+          canvasEl,
+          renderer,
+          onVideoFrame,
           description: description, // 传递 description 给解码器
+          decodeMode,
+          codecpar: videoStream.codecpar,
+          wasmBaseUrl,
+        });
+        newPlayer.on('statechange', (state) => {
+          playerState.value = state;
+        });
+        newPlayer.on('configured', (info) => {
+          console.log(`视频解码路径: ${info.decodePath}, ${info.codecString}`);
+          if (stats.value) {
+            stats.value = buildStats();
+          }
+        });
+        newPlayer.on('error', (err) => {
+          error.value = err;
+          if (stats.value) {
+            stats.value = buildStats();
+          }
+        });
+        newPlayer.on('firstframe', () => {
+          console.log(`首帧渲染: 加载后 ${(performance.now() - loadStartTime).toFixed(0)}ms`);
+        });
+        newPlayer.on('recovery', (info) => {
+          if (info.cause === 'decoder-error') {
+            decoderRecoveries++;
+            console.warn(`解码器出错，第 ${info.attempt} 次自动恢复，从下一个关键帧继续:`, info.error);
+          } else {
+            parameterChanges++;
+          }
+          if (stats.value) {
+            stats.value = buildStats();
+          }
+        });
+        newPlayer.on('resize', (width, height) => {
+          videoWidth = width;
+          videoHeight = height;
+          if (stats.value) {
+            stats.value = buildStats();
+          }
+        });
+        newPlayer.on('waiting', () => {
+          waiting.value = true;
+        });
+        newPlayer.on('decoded', () => frameStepper.notifyOutput());
+        newPlayer.on('sei', (event) => {
+          options.onSei?.(event);
+          if (captionDecoder.pushSei(event)) {
+            captionText.value = captionDecoder.getText();
+          }
+        });
+        newPlayer.on('frame', (timestamp) => {
+          waiting.value = false;
+          if (timeline.getStartTime() !== undefined) {
+            currentTime.value = Math.max(0, timeline.toSeconds(timestamp));
+          }
+          frameStepper.notifyRendered(timestamp, !isKeyframeOnly(paused.value, speedControl.getPlaybackRate()));
+
+          // 记录视频帧相对音频主时钟的偏差
+          const audioClock = audioPlayer?.getCurrentTime();
+          if (audioClock !== undefined) {
+            syncDrift = (timestamp - audioClock) / 1000;
+            syncSamples++;
+            syncDriftSum += Math.abs(syncDrift);
+            syncDriftMax = Math.max(syncDriftMax, Math.abs(syncDrift));
+          }
+          if (liveSource) {
+            liveLatency = speedControl.getLatency() / 1000;
+            droppedFrames = speedControl.getDroppedCount();
+          }
+          if ((audioPlayer || liveSource) && frameStepper.rendered % SYNC_STATS_INTERVAL === 0 && stats.value) {
+            stats.value = buildStats();
+          }
         });
+        if (paused.value) {
+          newPlayer.pause();
+        }
+        playerState.value = newPlayer.getState();
+        return newPlayer;
+      };
+
+      // 如果 H.264/H.265 且没有 description，先不创建 player，等找到第一个关键帧后再创建
+      if ((codecType === 'h264' || codecType === 'h265') && !description) {
+        console.log(`${codecType.toUpperCase()} 未找到 extradata，将在找到第一个关键帧后提取 description`);
+      } else {
+        applyBitstreamInfo(description);
+        player = createPlayer(description);
       }
 
       console.log(`\n创建 WebcodecPlayer: ${videoCodecName}, ${videoWidth}x${videoHeight}`);
@@ -284,37 +1119,459 @@ export function useVideoDemuxDecoder() {
       let packetCount = 0;
       let keyframeCount = 0;
       let videoPacketCount = 0;
+      let audioPacketCount = 0;
+      let decodedFrameCount = 0;
+      let queuedFrameCount = 0;
 
-      // 缓存所有视频帧数据
+      // 进入 SpeedControl 队列的视频帧数据
       interface VideoFrameData {
         data: Uint8Array;
         isKeyframe: boolean;
         packetIndex: number;
+        timestamp?: number; // pts（微秒）
+        dts?: number; // dts（微秒），用于 SpeedControl 调度
+        duration?: number; // 帧时长（微秒）
+        description?: Uint8Array; // 关键帧中的编码参数与之前不同（分辨率变化、HLS 切换档位等），解码前重新配置解码器
+        width?: number; // 新编码参数对应的分辨率（HLS 档位信息），未知时以解码输出为准
+        height?: number;
+        droppable?: boolean; // 非参考帧，直播追赶延迟时可以丢弃
       }
-      const videoFrameCache: VideoFrameData[] = [];
 
-      console.log('\n=== 开始读取数据包 ===\n');
+      const buildStats = (): VideoDemuxDecoderStats => {
+        const codecInfo = player?.getCodecInfo();
+        return {
+          videoCodecName,
+          codecType,
+          codecString: codecInfo?.codecString ?? '',
+          videoProfile: codecInfo ? [codecInfo.profile, codecInfo.tier && `${codecInfo.tier} Tier`].filter(Boolean).join(' / ') : '',
+          videoLevel: codecInfo?.level ?? '',
+          decodePath: player?.getDecodePath() ?? null,
+          width: videoWidth,
+          height: videoHeight,
+          totalPackets: packetCount,
+          videoPackets: videoPacketCount,
+          keyframes: keyframeCount,
+          keyframeRatio: videoPacketCount > 0 ? (keyframeCount / videoPacketCount * 100) : 0,
+          videoStreamIndex,
+          audioCodecName,
+          audioStreamIndex,
+          audioSampleRate,
+          audioChannels,
+          audioPackets: audioPacketCount,
+          avSyncDrift: syncDrift,
+          avSyncDriftAvg: syncSamples > 0 ? syncDriftSum / syncSamples : 0,
+          avSyncDriftMax: syncDriftMax,
+          hls: hlsSource?.getStats() ?? null,
+          liveLatency,
+          droppedFrames,
+          decoderRecoveries,
+          parameterChanges,
+          bitstream: player?.getBitstreamInfo() ?? null,
+        };
+      };
 
-      // 第一步：读取所有数据包并缓存视频帧
-      while (1) {
-        let ret = await demux.readAVPacket(iformatContext, avpacket);
-        if (ret !== 0) {
-          if (ret === IOError.END) {
-            iformatContext.destroy();
-            destroyAVPacket(avpacket);
+      // 流信息已就绪，先展示基础统计信息，数据包计数随解封装增量更新
+      stats.value = buildStats();
+      isLoading.value = false;
+
+      // 创建 SpeedControl 实例：解封装与解码流水线并行，队列满时暂停读取
+      const speedControl = new SpeedControl<VideoFrameData>((frameData) => {
+        // SpeedControl 消费回调：执行实际的解码操作
+        if (frameData.description && player) {
+          // 编码参数在这一帧变化：之前的帧都已经送入旧的解码器，按新参数重新配置
+          console.log(`编码参数变化，重新配置解码器: description ${frameData.description.length} 字节${frameData.width ? `, ${frameData.width}x${frameData.height}` : ''}`);
+          player.reconfigure(frameData.description, frameData.width, frameData.height);
+          activeDescription = frameData.description;
+        }
+        if (!player) {
+          return;
+        }
+        // 高倍速时跳过非关键帧，退出该模式时会从当前位置重新 seek，不会用缺少参考帧的数据解码
+        if (!frameData.isKeyframe && isKeyframeOnly(paused.value, speedControl.getPlaybackRate())) {
+          decodedFrameCount++;
+          return;
+        }
+        try {
+          player.decode(frameData.data, frameData.isKeyframe, frameData.timestamp, frameData.duration);
+          decodedFrameCount++;
+        } catch (err) {
+          console.error(`❌ 解码视频帧失败 #${frameData.packetIndex}:`, err);
+        }
+      }, {
+        maxQueueSize: PIPELINE_QUEUE_SIZE,
+        frameInterval,
+        // 按 dts（解码顺序）调度，没有 dts 时退回 pts
+        getTimestamp: (frameData) => frameData.dts ?? frameData.timestamp,
+        // 有音频时以音频为主时钟，视频帧向音频对齐
+        getMasterClock: audioPlayer && audioEnabled ? () => audioPlayer?.getCurrentTime() : undefined,
+        // 直播时作为抖动缓冲，延迟超过目标时加速或丢弃非参考帧
+        targetLatency: liveSource ? targetLatency : undefined,
+        isDroppable: (frameData) => !!frameData.droppable,
+        playbackRate: playbackRate.value,
+        // 读取结束后队列耗尽是正常的排空，不算等待数据
+        onWaiting: () => {
+          if (!readEnded) {
+            player?.notifyWaiting();
           }
-          break;
+        },
+      });
+      if (paused.value) {
+        speedControl.setPausedState(true);
+        audioPlayer?.setPausedState(true);
+      }
+      // 取消时唤醒被背压阻塞或等待排空的读取循环
+      signal.addEventListener('abort', () => {
+        speedControl.clear();
+        wakeReader?.();
+      }, { once: true });
+
+      // 关键帧索引：记录关键帧的 pts 和字节位置，用于 seek
+      const keyframeIndex = new KeyframeIndex();
+      // 进度条预览缩略图：读到的关键帧同时交给独立的解码器，直播没有进度条不生成
+      const thumbnailGenerator = options.thumbnails !== false && !isLiveStream && typeof VideoDecoder !== 'undefined'
+        ? new ThumbnailGenerator({
+          codec: codecType,
+          interval: Math.max(THUMBNAIL_INTERVAL, duration.value * 1_000_000 / MAX_THUMBNAILS),
+          onThumbnail: (timestamp, bitmap) => {
+            (options.onThumbnail ?? addThumbnail)({ time: Math.max(0, timeline.toSeconds(timestamp)), bitmap });
+          },
+        })
+        : null;
+      // 每个流已连续读取过的 dts 区间，seek 回退后重复读取的数据包不重复计入统计
+      // 按流各自判断，不受交错存放的音视频数据字节位置前后跳动的影响
+      const readRanges = new Map<number, CoveredRanges>();
+      /**
+       * 记录读取到的数据包，返回是否第一次读取到；没有时间戳的数据包无法判断，按第一次读取处理
+       */
+      const markPacketRead = (streamIndex: number, dts: bigint, pts: bigint): boolean => {
+        const timestamp = dts !== NOPTS_VALUE_BIGINT ? dts : pts;
+        if (timestamp === NOPTS_VALUE_BIGINT) {
+          return true;
+        }
+        let ranges = readRanges.get(streamIndex);
+        if (!ranges) {
+          ranges = new CoveredRanges();
+          readRanges.set(streamIndex, ranges);
+        }
+        const value = Number(timestamp);
+        const firstRead = !ranges.contains(value);
+        ranges.extend(value);
+        return firstRead;
+      };
+      let readEnded = false;
+      let wakeReader: (() => void) | null = null;
+      // 待执行的 seek，由读取循环在两个数据包之间执行
+      const seekQueue = new SeekQueue(() => {
+        // 丢弃队列中旧位置的帧，并唤醒被背压阻塞或正在等待解码完成的读取循环
+        speedControl.clear();
+        wakeReader?.();
+      });
+      // 首次读取到的数据包记录，随进度回调批量提交
+      const packetRecorder = new PacketRecorder({
+        codec: codecType,
+        nalFormat,
+        timeline,
+        getNumExtraSliceHeaderBits: () => player?.getBitstreamInfo()?.numExtraSliceHeaderBits,
+        onRecords: options.onPacketRecords ?? addPacketRecords,
+      });
+      // 当前 player 使用的 description，以及最近送入队列的 description
+      let activeDescription = description;
+      let queuedDescription = description;
+
+      const requestSeek = async (seconds: number) => {
+        // 直播只能从当前位置往后播放
+        if (isLiveStream) {
+          return;
         }
+        await seekQueue.request(Math.max(0, duration.value > 0 ? Math.min(seconds, duration.value) : seconds));
+      };
+
+      /**
+       * 执行 seek：定位到目标之前最近的关键帧，重置解码器和队列，丢弃目标之前的帧
+       */
+      const performSeek = async (seconds: number) => {
+        const targetUs = timeline.fromSeconds(seconds);
+        // 目标落在已连续建立索引的范围内时，直接使用索引中的关键帧；
+        // 向前 seek 跳过的范围里可能有未读取到的关键帧，交给解封装器查找
+        const keyframe = keyframeIndex.findCovered(targetUs);
+        const seekUs = keyframe ? keyframe.pts : targetUs;
+
+        console.log(`seek 到 ${seconds.toFixed(3)}s，${keyframe ? `使用索引关键帧 pts=${keyframe.pts}us, pos=${keyframe.pos}` : '索引未覆盖，交给解封装器查找关键帧'}`);
+
+        speedControl.clear(targetUs);
+        player?.reset(targetUs);
+        audioPlayer?.reset(targetUs);
+        // 字幕从新位置重新解码
+        captionDecoder.reset();
+        captionText.value = '';
+        queuedFrameCount = decodedFrameCount;
+        currentTime.value = seconds;
+        // 队列中尚未生效的编码参数变化已被丢弃，落点分片的关键帧需要重新检查
+        queuedDescription = activeDescription;
+        // 读取位置跳变，之后建立的索引和读取区间与之前的不再连续
+        keyframeIndex.markDiscontinuity();
+        readRanges.forEach((ranges) => ranges.break());
+
+        if (hlsSource) {
+          // HLS 按时间定位分片，解封装器按时间戳 seek 后从新分片开始读取
+          if (!hlsSource.seekToTime(seconds)) {
+            console.warn(`HLS seek 失败: ${seconds.toFixed(3)}s`);
+            return;
+          }
+          const ret = await demux.seek(
+            iformatContext,
+            videoStreamIndex,
+            BigInt(Math.ceil(targetUs / 1000)),
+            AVSeekFlags.TIMESTAMP
+          );
+          if (ret < BigInt(0)) {
+            console.warn(`seek 失败，错误码: ${ret}`);
+          }
+          readEnded = false;
+          return;
+        }
+
+        // demux.seek 的时间戳单位为毫秒；向上取整，保证换算回流时间基后不会落到前一个关键帧
+        const ret = await demux.seek(
+          iformatContext,
+          videoStreamIndex,
+          BigInt(Math.ceil(seekUs / 1000)),
+          AVSeekFlags.BACKWARD
+        );
+        if (ret < BigInt(0)) {
+          console.warn(`seek 失败，错误码: ${ret}`);
+        }
+        readEnded = false;
+      };
+
+      activeControls = {
+        seek: async (seconds: number) => {
+          await requestSeek(seconds);
+          // 暂停时时钟不前进，需要主动解码出目标帧显示出来
+          if (paused.value) {
+            await frameStepper.step(false);
+          }
+        },
+        setPaused: (value: boolean) => {
+          const wasKeyframeOnly = isKeyframeOnly(paused.value, speedControl.getPlaybackRate());
+          speedControl.setPausedState(value);
+          audioPlayer?.setPausedState(value);
+          if (value) {
+            player?.pause();
+          } else {
+            player?.play();
+          }
+          // 暂停时画面停在最近的关键帧上，重新解码到当前位置，之后才能逐帧步进
+          if (wasKeyframeOnly && !isKeyframeOnly(value, speedControl.getPlaybackRate())) {
+            void seek(currentTime.value);
+          }
+        },
+        setPlaybackRate: (rate: number) => {
+          if (isLiveStream) {
+            console.warn('直播不支持调整播放速率');
+            return 1;
+          }
+          const wasKeyframeOnly = isKeyframeOnly(paused.value, speedControl.getPlaybackRate());
+          speedControl.setPlaybackRate(rate);
+          const applied = speedControl.getPlaybackRate();
+          let needResync = wasKeyframeOnly && !isKeyframeOnly(paused.value, applied);
+          if (audioPlayer && audioEnabled !== (applied === 1)) {
+            audioEnabled = applied === 1;
+            speedControl.setMasterClock(audioEnabled ? () => audioPlayer?.getCurrentTime() : null);
+            if (audioEnabled) {
+              // 关闭期间没有解码音频，从当前位置重新解码
+              needResync = true;
+            } else {
+              audioPlayer.reset();
+            }
+          }
+          console.log(`播放速率: ${applied}x${audioPlayer && !audioEnabled ? '（音频已关闭）' : ''}`);
+          if (needResync) {
+            void seek(currentTime.value);
+          }
+          return applied;
+        },
+        step: (backward: boolean) => frameStepper.step(backward),
+        getDisplayedFrame: async () => {
+          const frame = player?.getDisplayedFrame();
+          if (!frame) {
+            return null;
+          }
+          return { frame, time: Math.max(0, timeline.toSeconds(frame.timestamp)) };
+        },
+        exportClip: async (startSeconds: number, endSeconds: number, format: ClipFormat, exportSignal: AbortSignal) => {
+          if (isLiveStream || hlsSource) {
+            throw new Error('直播和 HLS 不支持导出片段');
+          }
+          const startUs = timeline.fromSeconds(startSeconds);
+          // 入点落在已连续建立索引的范围内时，直接定位到索引中的关键帧
+          const keyframe = keyframeIndex.findCovered(startUs);
+          console.log(`导出片段 ${startSeconds.toFixed(3)}s ~ ${endSeconds.toFixed(3)}s (${format})，${keyframe ? `起点关键帧 pts=${keyframe.pts}us` : '索引未覆盖，交给解封装器查找关键帧'}`);
+          return remuxClip({
+            source,
+            format,
+            videoStreamIndex,
+            audioStreamIndex,
+            seekUs: keyframe ? keyframe.pts : startUs,
+            endUs: timeline.fromSeconds(endSeconds),
+            description,
+            signal: exportSignal,
+          });
+        },
+      };
+
+      /**
+       * 读取结束后等待队列中的剩余帧全部送去解码，期间如果有 seek 请求则提前返回 false
+       * 暂停时队列不会被消费，一直等到继续播放
+       */
+      const waitForDrainOrSeek = () => {
+        console.log(`剩余 ${speedControl.getQueueSize()} 帧待解码`);
+
+        return new Promise<boolean>((resolve) => {
+          let settled = false;
+          const finish = (drained: boolean) => {
+            if (settled) {
+              return;
+            }
+            settled = true;
+            if (wakeReader === wake) {
+              wakeReader = null;
+            }
+            resolve(drained);
+          };
+          const wake = () => finish(false);
+          wakeReader = wake;
+          // seek 时 clear() 同样会清空队列，以是否有待执行的 seek 区分
+          speedControl.waitForEmpty().then(() => finish(!seekQueue.pending));
+        });
+      };
+
+      console.log('\n=== 开始读取数据包（流水线解码） ===\n');
+
+      let demuxStats = buildStats();
+
+      try {
+        while (1) {
+          if (signal.aborted) {
+            break;
+          }
+
+          const target = seekQueue.take();
+          if (target !== null) {
+            await performSeek(target);
+            seekQueue.resolve();
+            continue;
+          }
+
+          if (readEnded) {
+            // 读取结束：等待剩余帧解码完成，期间仍然允许 seek
+            if (await waitForDrainOrSeek()) {
+              // 输出解码器中缓存的最后几帧，播放器进入 ended
+              if (player) {
+                await player.endOfStream();
+              } else {
+                playerState.value = 'ended';
+              }
+              // 输出剩余帧期间收到了 seek
+              if (seekQueue.pending) {
+                continue;
+              }
+              break;
+            }
+            continue;
+          }
+
+          let ret = await demux.readAVPacket(iformatContext, avpacket);
+          // 取消时数据源已销毁，读取失败不是真正的错误
+          if (signal.aborted) {
+            break;
+          }
+          if (ret !== 0) {
+            if (ret !== IOError.END) {
+              console.warn(`读取数据包结束，错误码: ${ret}`);
+            }
+            // 网络错误不能当作正常结束处理，否则文件会被悄悄截断
+            if (ioError) {
+              error.value = new Error(`读取数据失败: ${ioError.message}`);
+              ioError = null;
+            } else if (ret === IOError.END) {
+              // 正常读到文件末尾，最后一个关键帧之后的范围也已完整建立索引
+              keyframeIndex.markEnd();
+            }
+            readEnded = true;
+            packetRecorder.flush();
+
+            // 解封装完成，更新最终统计信息
+            demuxStats = buildStats();
+            stats.value = demuxStats;
+            onProgress?.(demuxStats);
+
+            console.log(`\n=== 解封装统计信息 ===`);
+            console.log(`视频编码格式: ${videoCodecName}`);
+            console.log(`分辨率: ${demuxStats.width}x${demuxStats.height}`);
+            console.log(`总数据包数: ${packetCount}`);
+            console.log(`视频数据包数: ${videoPacketCount}`);
+            console.log(`关键帧数量: ${keyframeCount}`);
+            console.log(`关键帧比例: ${demuxStats.keyframeRatio.toFixed(2)}%`);
+            console.log(`关键帧索引: ${keyframeIndex.size} 项`);
+            continue;
+          }
+
+          // 使用 structAccess 将指针转换为可访问的对象
+          const pkt = structAccess(avpacket, AVPacket);
+          // HLS 的字节流位置在 seek 后重新分配，按分片判断是否重复读取
+          const hlsSegment = hlsSource?.getSegmentAt(Number(pkt.pos));
+          const isFirstRead = hlsSegment ? hlsSegment.firstDelivery : markPacketRead(pkt.streamIndex, pkt.dts, pkt.pts);
+          if (isFirstRead) {
+            packetCount++;
+          }
+
+          // HLS 进入新的不连续段时，时间线按该分片的位置重新平移
+          if (hlsSegment) {
+            const packetTimeBase = pkt.streamIndex === audioStreamIndex && audioTimeBase ? audioTimeBase : timeBase;
+            timeline.enterSegment(hlsSegment, toMicroseconds(pkt.pts, packetTimeBase) ?? toMicroseconds(pkt.dts, packetTimeBase));
+          }
+
+          const isVideoPacket = videoStreamIndex >= 0 && pkt.streamIndex === videoStreamIndex;
+          if (isFirstRead && !isVideoPacket) {
+            const isAudioPacket = pkt.streamIndex === audioStreamIndex;
+            const packetTimeBase = isAudioPacket && audioTimeBase ? audioTimeBase : iformatContext.streams[pkt.streamIndex]?.timeBase;
+            packetRecorder.record(pkt, packetCount - 1, isAudioPacket ? 'audio' : 'other', packetTimeBase, !!(pkt.flags & AVPacketFlags.AV_PKT_FLAG_KEY));
+          }
+
+          // 字幕包只在第一次读到时解析
+          if (embeddedSubtitles.has(pkt.streamIndex)) {
+            if (isFirstRead) {
+              embeddedSubtitles.decode(pkt);
+            }
+            continue;
+          }
 
-        // 使用 structAccess 将指针转换为可访问的对象
-        const pkt = structAccess(avpacket, AVPacket);
-        packetCount++;
+          // 音频包直接送入 AudioDecoder，由 Web Audio 按时间戳调度播放
+          if (audioPlayer && audioTimeBase && pkt.streamIndex === audioStreamIndex) {
+            if (isFirstRead) {
+              audioPacketCount++;
+            }
+            if (!audioEnabled) {
+              continue;
+            }
+            const audioPtsUs = timeline.toTimestamp(pkt.pts, audioTimeBase) ?? timeline.toTimestamp(pkt.dts, audioTimeBase);
+            if (pkt.data && pkt.size > 0 && audioPtsUs !== undefined) {
+              const audioData = new Uint8Array(mapUint8Array(pkt.data, pkt.size));
+              const audioDurationUs = pkt.duration > BigInt(0) ? toMicroseconds(pkt.duration, audioTimeBase) : undefined;
+              audioPlayer.decode(audioData, audioPtsUs, audioDurationUs);
+            }
+            continue;
+          }
 
-        const isVideoPacket = videoStreamIndex >= 0 && pkt.streamIndex === videoStreamIndex;
-        let isKeyframe = !!(pkt.flags & AVPacketFlags.AV_PKT_FLAG_KEY);
+          if (!isVideoPacket) {
+            continue;
+          }
 
-        if (isVideoPacket) {
-          videoPacketCount++;
+          let isKeyframe = !!(pkt.flags & AVPacketFlags.AV_PKT_FLAG_KEY);
+          if (isFirstRead) {
+            videoPacketCount++;
+          }
 
           // 使用工具函数检测关键帧（支持 H.264 和 H.265）
           if (pkt.data && pkt.size > 4) {
@@ -327,220 +1584,439 @@ export function useVideoDemuxDecoder() {
             }
           }
 
-          if (isKeyframe) {
+          if (isKeyframe && isFirstRead) {
             keyframeCount++;
           }
 
-          // 显示详细的包信息来调试关键帧检测
-          // if (videoPacketCount <= 100) {
-          //   const streamType = isVideoPacket ? 'VIDEO' : 'AUDIO';
-          //   const keyframeInfo = isKeyframe ? '🔑 KEYFRAME' : '';
-          //   console.log(`[${streamType}] packet #${videoPacketCount}, flags: ${pkt.flags}, size: ${pkt.size}, dts: ${pkt.dts}, pts: ${pkt.pts} ${keyframeInfo}`);
-          // }
-
-          // 进度回调
-          if (onProgress && videoPacketCount % 100 === 0) {
-            onProgress({
+          // 增量更新统计信息并触发进度回调
+          if (isFirstRead && videoPacketCount % PROGRESS_INTERVAL === 0) {
+            packetRecorder.flush();
+            stats.value = buildStats();
+            onProgress?.({
               videoPackets: videoPacketCount,
               keyframes: keyframeCount,
               totalPackets: packetCount,
+              keyframeRatio: stats.value.keyframeRatio,
             });
           }
 
-          // 如果是 H.264/H.265 且还没有 description，尝试从第一个关键帧中提取
-          if ((codecType === 'h264' || codecType === 'h265') && !description && isKeyframe && pkt.data && pkt.size > 0) {
+          // 将 pts/dts 从流时间基转换为微秒
+          const ptsUs = timeline.toTimestamp(pkt.pts, timeBase);
+          const dtsUs = timeline.toTimestamp(pkt.dts, timeBase);
+          const durationUs = pkt.duration > BigInt(0) ? toMicroseconds(pkt.duration, timeBase) : undefined;
+          timeline.setStartTimeIfUnknown(ptsUs ?? dtsUs);
+          if (isFirstRead) {
+            packetRecorder.record(pkt, packetCount - 1, 'video', timeBase, isKeyframe);
+          }
+
+          // HLS 按分片 seek，字节位置没有意义，不建立关键帧索引
+          if (isKeyframe && ptsUs !== undefined && !hlsSource) {
+            keyframeIndex.add({
+              pts: ptsUs,
+              dts: dtsUs ?? ptsUs,
+              pos: Number(pkt.pos),
+            });
+          }
+
+          // 如果是 H.264/H.265 且还没有创建 player，等待第一个关键帧提取 description
+          if (!player && isKeyframe && pkt.data && pkt.size > 0) {
             try {
               const videoData = mapUint8Array(pkt.data, pkt.size);
               if (codecType === 'h264') {
-                description = extractH264Description(videoData);
+                description = extractH264Description(videoData, nalFormat);
               } else {
-                description = extractH265Description(videoData);
+                description = extractH265Description(videoData, nalFormat);
               }
               if (description) {
                 console.log(`从第一个关键帧提取到 ${codecType.toUpperCase()} description，大小: ${description.length} 字节`);
-                // 现在创建 player
-                if (!player) {
-                  player = new WebcodecPlayer({
-                    codec: codecType,
-                    width: videoWidth || 1920,
-                    height: videoHeight || 1080,
-                    videoEl: targetVideoEl,
-                    description: description,
-                  });
-                }
+              } else {
+                // 无法提取 description，使用空 description 创建（可能会失败，但至少尝试）
+                console.warn(`警告: 无法提取 ${codecType.toUpperCase()} description，尝试使用空 description`);
+              }
+            } catch (err) {
+              console.warn('从关键帧提取 description 时出错:', err);
+            }
+            applyBitstreamInfo(description);
+            speedControl.setFrameInterval(frameInterval);
+            player = createPlayer(description);
+            activeDescription = description;
+            queuedDescription = description;
+            // 编码字符串、profile 和 level 要等 player 创建后才能确定
+            stats.value = buildStats();
+          }
+
+          // 关键帧携带参数集时与当前编码参数比较：分辨率变化、HLS 切换档位或不连续段都会带来新的 SPS/PPS
+          let newDescription: Uint8Array | undefined;
+          let newVariant: HlsVariant | undefined;
+          if (player && isKeyframe && pkt.data && pkt.size > 0 && (codecType === 'h264' || codecType === 'h265')) {
+            try {
+              const videoData = mapUint8Array(pkt.data, pkt.size);
+              const inbandDescription = codecType === 'h264' ? extractH264Description(videoData, nalFormat) : extractH265Description(videoData, nalFormat);
+              if (inbandDescription && !equalParameterSets(codecType, inbandDescription, queuedDescription)) {
+                newDescription = inbandDescription;
+                queuedDescription = inbandDescription;
+                newVariant = hlsSegment ? hlsSource!.getVariant(hlsSegment.variant) : undefined;
               }
             } catch (err) {
               console.warn('从关键帧提取 description 时出错:', err);
             }
           }
 
-          // 缓存视频帧数据（复制数据，因为 AVPacket 会被重用）
-          if (pkt.data && pkt.size > 0) {
-            const videoData = mapUint8Array(pkt.data, pkt.size);
-            // 创建数据副本
-            const dataCopy = new Uint8Array(videoData.length);
+          // player 创建之前的非关键帧无法解码，直接丢弃
+          if (!player || !pkt.data || pkt.size <= 0) {
+            continue;
+          }
+
+          // 复制数据，因为 AVPacket 会被重用
+          const videoData = mapUint8Array(pkt.data, pkt.size);
+          let dataCopy: Uint8Array;
+          const packetFormat = nalFormat ?? (isAnnexB(videoData) ? 'annexb' : 'length-prefixed');
+          if (description && (codecType === 'h264' || codecType === 'h265') && packetFormat === 'annexb') {
+            // 配置了 avcC/hvcC 时，解码器要求数据为长度前缀格式（转换结果本身就是新分配的内存）
+            dataCopy = annexBToLengthPrefixed(videoData);
+          } else {
+            dataCopy = new Uint8Array(videoData.length);
             dataCopy.set(videoData);
-            
-            videoFrameCache.push({
-              data: dataCopy,
-              isKeyframe,
-              packetIndex: videoPacketCount,
-            });
           }
-        }
-      }
 
-      console.log(`\n=== 数据包读取完成 ===`);
-      console.log(`总数据包数: ${packetCount}`);
-      console.log(`视频数据包数: ${videoPacketCount}`);
-      console.log(`缓存的视频帧数: ${videoFrameCache.length}`);
-      console.log(`关键帧数量: ${keyframeCount}`);
-
-      // 如果 H.264/H.265 且还没有创建 player（说明没有找到 extradata 且第一个关键帧也没有提取到 description）
-      if ((codecType === 'h264' || codecType === 'h265') && !player) {
-        console.warn(`警告: ${codecType.toUpperCase()} 未找到 description，尝试从缓存的第一个关键帧中提取`);
-        // 查找第一个关键帧
-        for (const frameData of videoFrameCache) {
-          if (frameData.isKeyframe) {
-            if (codecType === 'h264') {
-              description = extractH264Description(frameData.data);
-            } else {
-              description = extractH265Description(frameData.data);
-            }
-            if (description) {
-              console.log(`从缓存的关键帧提取到 ${codecType.toUpperCase()} description，大小: ${description.length} 字节`);
-              player = new WebcodecPlayer({
-                codec: codecType,
-                width: videoWidth || 1920,
-                height: videoHeight || 1080,
-                videoEl: targetVideoEl,
-                description: description,
-              });
-              break;
-            }
+          if (isKeyframe && ptsUs !== undefined) {
+            thumbnailGenerator?.add(dataCopy, ptsUs, queuedDescription);
           }
-        }
-        
-        // 如果仍然没有创建 player，使用空 description 创建（可能会失败，但至少尝试）
-        if (!player) {
-          console.warn(`警告: 无法提取 ${codecType.toUpperCase()} description，尝试使用空 description`);
-          player = new WebcodecPlayer({
-            codec: codecType,
-            width: videoWidth || 1920,
-            height: videoHeight || 1080,
-            videoEl: targetVideoEl,
+
+          // 队列已满时暂停读取，等待 SpeedControl 消费
+          await speedControl.waitForSpace();
+          // 等待期间收到 seek 请求，该数据包属于旧位置，丢弃；取消时在下一轮退出
+          if (seekQueue.pending || signal.aborted) {
+            continue;
+          }
+          speedControl.addEncodeVideoChunk({
+            data: dataCopy,
+            isKeyframe,
+            packetIndex: videoPacketCount,
+            timestamp: ptsUs ?? dtsUs,
+            dts: dtsUs,
+            duration: durationUs,
+            description: newDescription,
+            width: newVariant?.width,
+            height: newVariant?.height,
+            droppable: liveSource ? isNonReferenceFrame(codecType, dataCopy, description ? 'length-prefixed' : packetFormat) : undefined,
           });
+          queuedFrameCount++;
         }
+      } finally {
+        activeControls = null;
+        seekQueue.resolve();
+        speedControl.destroy();
+        thumbnailGenerator?.destroy();
       }
 
-      // 解封装完成后立即计算并显示统计信息
-      const demuxStats: VideoDemuxDecoderStats = {
-        videoCodecName,
-        codecType,
-        width: videoWidth,
-        height: videoHeight,
-        totalPackets: packetCount,
-        videoPackets: videoPacketCount,
-        keyframes: keyframeCount,
-        keyframeRatio: videoPacketCount > 0 ? (keyframeCount / videoPacketCount * 100) : 0,
-        videoStreamIndex,
-      };
+      signal.throwIfAborted();
+      console.log(`\n=== 解码完成 ===`);
+      console.log(`已解码帧数: ${decodedFrameCount}/${queuedFrameCount}`);
 
-      // 更新统计信息，让 UI 立即显示
-      stats.value = demuxStats;
-      
-      // 解封装完成，设置加载状态为 false，让 UI 显示统计信息
-      isLoading.value = false;
+      return demuxStats;
+    } finally {
+      // 无论正常结束、出错还是取消，都关闭解码器并释放 libmedia 的结构体
+      player?.destroy();
+      audioPlayer?.destroy();
+      if (activeAudioPlayer === audioPlayer) {
+        activeAudioPlayer = null;
+      }
+      iformatContext.destroy();
+      destroyAVPacket(avpacket);
+      ioSource.destroy();
+    }
+  }
 
-      console.log(`\n=== 解封装统计信息 ===`);
-      console.log(`视频编码格式: ${videoCodecName}`);
-      console.log(`分辨率: ${demuxStats.width}x${demuxStats.height}`);
-      console.log(`总数据包数: ${packetCount}`);
-      console.log(`视频数据包数: ${videoPacketCount}`);
-      console.log(`关键帧数量: ${keyframeCount}`);
-      console.log(`关键帧比例: ${demuxStats.keyframeRatio.toFixed(2)}%`);
+  /**
+   * 在 Worker 中解封装和解码，播放状态通过 postMessage 同步回来
+   * 主线程支持 video 元素渲染时把帧转发回来渲染，否则把画布交给 Worker 绘制；音频总是在主线程播放
+   */
+  async function processInWorker(options: VideoDemuxDecoderOptions, signal: AbortSignal): Promise<VideoDemuxDecoderStats> {
+    signal.throwIfAborted();
 
-      // 第二步：使用 SpeedControl 控制解码速度（后台异步进行）
-      console.log(`\n=== 开始解码视频帧 ===\n`);
-      
-      let decodedFrameCount = 0;
-      
-      // 确保 player 已创建
-      if (!player) {
-        throw new Error('Player 未创建，无法继续解码');
-      }
+    const { source, videoEl, canvasEl, renderer, onProgress } = options;
+    const worker = new Worker(new URL('./videoDemuxDecoder.worker.ts', import.meta.url), { type: 'module' });
+    const post = (message: VideoDemuxWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
 
-      // 创建 SpeedControl 实例来控制解码速度
-      const speedControl = new SpeedControl((encodedChunk: any) => {
-        // SpeedControl 消费回调：执行实际的解码操作
-        const frameData = encodedChunk as VideoFrameData;
-        try {
-          player!.decode(frameData.data, frameData.isKeyframe);
-          decodedFrameCount++;
-          
-          // if (decodedFrameCount <= 100 || frameData.isKeyframe) {
-          //   console.log(`✅ 解码视频帧 #${frameData.packetIndex}, size: ${frameData.data.length}, ${frameData.isKeyframe ? '关键帧' : '普通帧'}`);
-          // }
-        } catch (err) {
-          console.error(`❌ 解码视频帧失败 #${frameData.packetIndex}:`, err);
-        }
-      });
+    // 渲染目标：video 元素（帧转发回主线程，收到第一帧时按帧尺寸创建渲染器）或 OffscreenCanvas（Worker 直接绘制）
+    const renderFrames = !!videoEl && !canvasEl && renderer !== 'canvas' && isVideoRenderSupported();
+    let frameRenderer: Renderer | null = null;
+    let frameWidth = 0;
+    let frameHeight = 0;
+    let offscreen: OffscreenCanvas | undefined;
+    let ownedCanvas: HTMLCanvasElement | null = null;
+    let hiddenVideoDisplay = '';
+    const destroyFrameRenderer = () => {
+      frameRenderer?.destroy();
+      frameRenderer = null;
+    };
+    if (canvasEl) {
+      // 画布只能转移一次控制权，每次加载需要传入新的画布
+      offscreen = canvasEl instanceof OffscreenCanvas ? canvasEl : canvasEl.transferControlToOffscreen();
+    } else if (!renderFrames && videoEl?.parentElement) {
+      // 在 video 元素旁边创建一个同样样式的画布并隐藏 video，画布按视频尺寸绘制，由 object-fit 缩放显示
+      ownedCanvas = document.createElement('canvas');
+      ownedCanvas.className = videoEl.className;
+      ownedCanvas.style.objectFit = 'contain';
+      videoEl.parentElement.insertBefore(ownedCanvas, videoEl.nextSibling);
+      hiddenVideoDisplay = videoEl.style.display;
+      videoEl.style.display = 'none';
+      offscreen = ownedCanvas.transferControlToOffscreen();
+    }
 
-      // 将所有缓存的视频帧添加到 SpeedControl 队列
-      console.log(`正在将 ${videoFrameCache.length} 个视频帧添加到 SpeedControl 队列...`);
-      for (const frameData of videoFrameCache) {
-        // 将帧数据作为 EncodedVideoChunk 添加到队列
-        // SpeedControl 会按照设定的速度（40ms/帧）自动消费
-        speedControl.addEncodeVideoChunk(frameData as any);
+    // 音频在主线程解码播放，定时把主时钟同步给 Worker
+    let audioPlayer: AudioPlayer | null = null;
+    let audioGeneration = 0;
+    const clockTimer = setInterval(() => {
+      if (audioPlayer) {
+        post({ type: 'audioClock', generation: audioGeneration, time: audioPlayer.getCurrentTime(), at: performance.timeOrigin + performance.now() });
+      }
+    }, AUDIO_CLOCK_INTERVAL);
+    const destroyAudio = () => {
+      audioPlayer?.destroy();
+      if (activeAudioPlayer === audioPlayer) {
+        activeAudioPlayer = null;
       }
+      audioPlayer = null;
+    };
 
-      // 等待所有帧解码完成
-      // 计算预期的总时间：帧数 * 40ms
-      const expectedDuration = videoFrameCache.length * 40;
-      console.log(`预计解码时间: ${(expectedDuration / 1000).toFixed(2)} 秒`);
-      
-      // 等待解码完成（留一些余量）
-      await new Promise<void>((resolve) => {
-        const checkInterval = setInterval(() => {
-          const queueSize = speedControl.getQueueSize();
-          // console.log(`解码进度: ${decodedFrameCount}/${videoFrameCache.length}, 队列剩余: ${queueSize}`);
-          
-          // 当队列为空且所有帧都已解码时，完成
-          if (queueSize === 0 && decodedFrameCount >= videoFrameCache.length) {
-            clearInterval(checkInterval);
-            resolve();
-          }
-        }, 1000); // 每秒检查一次进度
-        
-        // 设置超时保护（最多等待预期时间的2倍）
-        setTimeout(() => {
-          clearInterval(checkInterval);
-          resolve();
-        }, expectedDuration * 2 + 5000);
-      });
+    // seek / step 请求在 Worker 中完成后 resolve
+    let requestId = 0;
+    const pendingRequests = new Map<number, () => void>();
+    const request = (message: { type: 'seek'; seconds: number } | { type: 'step'; backward: boolean }) => new Promise<void>((resolve) => {
+      const id = ++requestId;
+      pendingRequests.set(id, resolve);
+      post({ ...message, id });
+    });
+    // 截图请求：Worker 把当前显示帧的副本转移过来
+    const pendingFrames = new Map<number, (displayed: DisplayedFrame | null) => void>();
+    // 片段导出请求：在 Worker 中重新读取并封装，完成后把文件传回来
+    const pendingClips = new Map<number, { resolve: (blob: Blob) => void; reject: (reason: unknown) => void }>();
+    activeControls = {
+      seek: (seconds: number) => request({ type: 'seek', seconds }),
+      setPaused: (value: boolean) => post({ type: 'setPaused', paused: value }),
+      setPlaybackRate: (rate: number) => {
+        post({ type: 'setPlaybackRate', rate });
+        // 实际生效的速率（例如直播固定为 1）随状态同步回来
+        return rate;
+      },
+      step: (backward: boolean) => request({ type: 'step', backward }),
+      getDisplayedFrame: () => new Promise<DisplayedFrame | null>((resolve) => {
+        const id = ++requestId;
+        pendingFrames.set(id, resolve);
+        post({ type: 'getDisplayedFrame', id });
+      }),
+      exportClip: (startSeconds: number, endSeconds: number, format: ClipFormat, exportSignal: AbortSignal) => new Promise<Blob>((resolve, reject) => {
+        if (exportSignal.aborted) {
+          reject(exportSignal.reason);
+          return;
+        }
+        const id = ++requestId;
+        const onAbort = () => post({ type: 'abortClip', id });
+        exportSignal.addEventListener('abort', onAbort, { once: true });
+        // 完成、失败或 Worker 销毁时都移除监听，之后的取消不再发送过期的 abortClip
+        pendingClips.set(id, {
+          resolve: (blob: Blob) => {
+            exportSignal.removeEventListener('abort', onAbort);
+            resolve(blob);
+          },
+          reject: (reason: unknown) => {
+            exportSignal.removeEventListener('abort', onAbort);
+            reject(exportSignal.aborted ? exportSignal.reason : reason);
+          },
+        });
+        post({ type: 'exportClip', id, startSeconds, endSeconds, format });
+      }),
+    };
 
-      console.log(`\n=== 解码完成 ===`);
-      console.log(`已解码帧数: ${decodedFrameCount}/${videoFrameCache.length}`);
+    const stateRefs: { [K in keyof VideoDemuxWorkerState]: Ref<VideoDemuxWorkerState[K]> } = {
+      stats,
+      isLoading,
+      error,
+      currentTime,
+      duration,
+      playerState,
+      waiting,
+      paused,
+      playbackRate,
+      captionText,
+    };
 
-      // 清理资源
-      speedControl.destroy();
-      player?.destroy();
+    const handleAudio = (command: Extract<VideoDemuxWorkerResponse, { type: 'audio' }>['command']) => {
+      switch (command.action) {
+        case 'create':
+          destroyAudio();
+          audioPlayer = createAudioPlayer(command.options);
+          activeAudioPlayer = audioPlayer;
+          break;
+        case 'decode':
+          audioPlayer?.decode(command.data, command.timestamp, command.duration);
+          break;
+        case 'reset':
+          audioGeneration = command.generation;
+          audioPlayer?.reset(command.dropBeforeTimestamp);
+          break;
+        case 'pause':
+          audioPlayer?.setPausedState(command.paused);
+          break;
+        case 'destroy':
+          destroyAudio();
+          break;
+      }
+    };
 
-      // 统计信息已在解封装完成后更新，这里直接返回
-      return demuxStats;
-    } catch (err) {
-      console.error('解封装和解码过程出错:', err);
-      error.value = err as Error;
-      isLoading.value = false;
-      throw err;
+    try {
+      return await new Promise<VideoDemuxDecoderStats>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<VideoDemuxWorkerResponse>) => {
+          const message = event.data;
+          switch (message.type) {
+            case 'state':
+              (stateRefs[message.key] as Ref<unknown>).value = message.value;
+              break;
+            case 'progress':
+              onProgress?.(message.stats);
+              break;
+            case 'frame': {
+              const { frame } = message;
+              if (!renderFrames) {
+                frame.close();
+                break;
+              }
+              if (!frameRenderer) {
+                frameRenderer = createRenderer({ type: 'video', videoEl, width: frame.displayWidth, height: frame.displayHeight });
+              } else if (frame.displayWidth !== frameWidth || frame.displayHeight !== frameHeight) {
+                frameRenderer.resize(frame.displayWidth, frame.displayHeight);
+              }
+              frameWidth = frame.displayWidth;
+              frameHeight = frame.displayHeight;
+              frameRenderer.render(frame);
+              break;
+            }
+            case 'audio':
+              handleAudio(message.command);
+              break;
+            case 'thumbnail':
+              // 已经停止的加载不再接收缩略图
+              if (signal.aborted) {
+                message.thumbnail.bitmap.close();
+              } else {
+                addThumbnail(message.thumbnail);
+              }
+              break;
+            case 'packets':
+              if (!signal.aborted) {
+                addPacketRecords(message.records);
+              }
+              break;
+            case 'sei':
+              options.onSei?.(message.event);
+              break;
+            case 'subtitles':
+              if (!signal.aborted) {
+                addSubtitleCues(message.track, message.cues);
+              }
+              break;
+            case 'resolved':
+              pendingRequests.get(message.id)?.();
+              pendingRequests.delete(message.id);
+              break;
+            case 'clip': {
+              const pending = pendingClips.get(message.id);
+              pendingClips.delete(message.id);
+              if (message.blob) {
+                pending?.resolve(message.blob);
+              } else {
+                pending?.reject(message.error);
+              }
+              break;
+            }
+            case 'displayedFrame': {
+              const resolveFrame = pendingFrames.get(message.id);
+              pendingFrames.delete(message.id);
+              const displayed = message.frame ? { frame: message.frame, time: message.time } : null;
+              if (resolveFrame) {
+                resolveFrame(displayed);
+              } else {
+                displayed?.frame.close();
+              }
+              break;
+            }
+            case 'done':
+              if (message.stats) {
+                resolve(message.stats);
+              } else {
+                reject(message.error);
+              }
+              break;
+          }
+        };
+        worker.onerror = (event) => {
+          reject(new Error(`Worker 出错: ${event.message}`));
+        };
+        // 取消时由 Worker 停止加载并释放资源，之后以 AbortError 结束
+        signal.addEventListener('abort', () => post({ type: 'stop' }), { once: true });
+
+        post({
+          type: 'load',
+          source,
+          decodeMode: options.decodeMode,
+          wasmBaseUrl: options.wasmBaseUrl,
+          live: options.live,
+          targetLatency: options.targetLatency,
+          playbackRate: playbackRate.value,
+          thumbnails: options.thumbnails,
+          sei: !!options.onSei,
+          canvas: offscreen,
+        }, offscreen ? [offscreen] : []);
+      });
+    } finally {
+      activeControls = null;
+      pendingRequests.forEach((resolve) => resolve());
+      pendingFrames.forEach((resolve) => resolve(null));
+      pendingClips.forEach(({ reject }) => reject(new DOMException('Aborted', 'AbortError')));
+      pendingClips.clear();
+      clearInterval(clockTimer);
+      worker.terminate();
+      destroyAudio();
+      destroyFrameRenderer();
+      if (ownedCanvas) {
+        ownedCanvas.remove();
+        videoEl!.style.display = hiddenVideoDisplay;
+      }
     }
   }
 
   return {
     processVideoFile,
+    stop,
+    getThumbnail,
+    packets,
+    packetsVersion,
+    subtitleTracks,
+    addSubtitleFile,
+    getDisplayedFrame,
+    captureFrame,
+    exportFrames,
+    exportClip,
     stats,
     isLoading,
     error,
+    currentTime,
+    duration,
+    setVolume,
+    setMuted,
+    seek,
+    playerState,
+    waiting,
+    captionText,
+    paused,
+    playbackRate,
+    play,
+    pause,
+    setPlaybackRate,
+    stepForward,
+    stepBackward,
   };
 }
 
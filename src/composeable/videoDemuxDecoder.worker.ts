@@ -0,0 +1,185 @@
+/**
+ * useVideoDemuxDecoder 的 worker 模式：在 Worker 中解封装和解码，不阻塞页面
+ * 播放状态变化时同步给主线程；Worker 中没有 AudioContext，音频数据交给主线程播放
+ * @author guo xiao
+ */
+
+import { watch, toRaw, type Ref } from 'vue';
+import { useVideoDemuxDecoder } from './useVideoDemuxDecoder';
+import type { AudioOutput, AudioPlayerOptions } from '../webcodec-player';
+import type { VideoDemuxAudioCommand, VideoDemuxWorkerRequest, VideoDemuxWorkerResponse, VideoDemuxWorkerState } from './videoDemuxWorkerMessages';
+
+function post(message: VideoDemuxWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+function postAudio(command: VideoDemuxAudioCommand, transfer: Transferable[] = []) {
+  post({ type: 'audio', command }, transfer);
+}
+
+/**
+ * 把音频转发给主线程的 AudioPlayer，主时钟使用主线程定时同步过来的采样，两次采样之间按经过的时间外推
+ */
+class RemoteAudioOutput implements AudioOutput {
+  // 每次 reset 递增，丢弃 reset 之前发出的时钟采样
+  private generation: number = 0;
+  private clock: { time: number; at: number } | null = null;
+  private paused: boolean = false;
+
+  constructor(options: AudioPlayerOptions) {
+    postAudio({ action: 'create', options });
+  }
+
+  decode(data: Uint8Array, timestamp: number, duration?: number) {
+    postAudio({ action: 'decode', data, timestamp, duration }, [data.buffer]);
+  }
+
+  reset(dropBeforeTimestamp: number = -Infinity) {
+    this.generation++;
+    this.clock = null;
+    postAudio({ action: 'reset', dropBeforeTimestamp, generation: this.generation });
+  }
+
+  /**
+   * 更新主线程的时钟采样
+   * @param generation 采样时主线程看到的 reset 次数
+   * @param time 音频主时钟（微秒），音频尚未开始播放时为 undefined
+   * @param at 采样时刻（毫秒，performance.timeOrigin + performance.now()）
+   */
+  updateClock(generation: number, time: number | undefined, at: number) {
+    if (generation !== this.generation) {
+      return;
+    }
+    this.clock = time === undefined ? null : { time, at };
+  }
+
+  getCurrentTime(): number | undefined {
+    if (!this.clock) {
+      return undefined;
+    }
+    if (this.paused) {
+      return this.clock.time;
+    }
+    return this.clock.time + (performance.timeOrigin + performance.now() - this.clock.at) * 1000;
+  }
+
+  // 音量和静音由主线程直接设置
+  setVolume(_volume: number) {}
+
+  setMuted(_muted: boolean) {}
+
+  setPausedState(paused: boolean) {
+    // 暂停期间时钟不前进，恢复时从暂停时的位置重新外推
+    const time = this.getCurrentTime();
+    if (time !== undefined) {
+      this.clock = { time, at: performance.timeOrigin + performance.now() };
+    }
+    this.paused = paused;
+    postAudio({ action: 'pause', paused });
+  }
+
+  destroy() {
+    postAudio({ action: 'destroy' });
+  }
+}
+
+const decoder = useVideoDemuxDecoder();
+let audioOutput: RemoteAudioOutput | null = null;
+// 进行中的片段导出，主线程取消时中止
+const clipControllers = new Map<number, AbortController>();
+
+const stateRefs: { [K in keyof VideoDemuxWorkerState]: Ref<VideoDemuxWorkerState[K]> } = {
+  stats: decoder.stats,
+  isLoading: decoder.isLoading,
+  error: decoder.error,
+  currentTime: decoder.currentTime,
+  duration: decoder.duration,
+  playerState: decoder.playerState,
+  waiting: decoder.waiting,
+  paused: decoder.paused,
+  playbackRate: decoder.playbackRate,
+  captionText: decoder.captionText,
+};
+// 同步触发，保证状态消息先于 done 到达主线程
+(Object.keys(stateRefs) as (keyof VideoDemuxWorkerState)[]).forEach((key) => {
+  watch(() => stateRefs[key].value, (value) => {
+    post({ type: 'state', key, value: toRaw(value) } as VideoDemuxWorkerResponse);
+  }, { flush: 'sync' });
+});
+
+async function load(message: Extract<VideoDemuxWorkerRequest, { type: 'load' }>) {
+  decoder.setPlaybackRate(message.playbackRate);
+  try {
+    const stats = await decoder.processVideoFile({
+      source: message.source,
+      canvasEl: message.canvas,
+      renderer: 'canvas',
+      decodeMode: message.decodeMode,
+      wasmBaseUrl: message.wasmBaseUrl,
+      live: message.live,
+      targetLatency: message.targetLatency,
+      thumbnails: message.thumbnails,
+      onProgress: (progressStats) => post({ type: 'progress', stats: progressStats }),
+      onSei: message.sei ? (event) => post({ type: 'sei', event }) : undefined,
+      onVideoFrame: message.canvas ? undefined : (videoFrame) => post({ type: 'frame', frame: videoFrame }, [videoFrame]),
+      onThumbnail: (thumbnail) => post({ type: 'thumbnail', thumbnail }, [thumbnail.bitmap]),
+      onPacketRecords: (records) => post({ type: 'packets', records }),
+      onSubtitleCues: (track, cues) => post({ type: 'subtitles', track, cues }),
+      createAudioOutput: (options) => {
+        audioOutput = new RemoteAudioOutput(options);
+        return audioOutput;
+      },
+    });
+    post({ type: 'done', stats });
+  } catch (error) {
+    post({ type: 'done', error });
+  }
+}
+
+self.onmessage = (event: MessageEvent<VideoDemuxWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'load':
+      load(message);
+      break;
+    case 'seek':
+      decoder.seek(message.seconds).finally(() => post({ type: 'resolved', id: message.id }));
+      break;
+    case 'step':
+      (message.backward ? decoder.stepBackward() : decoder.stepForward()).finally(() => post({ type: 'resolved', id: message.id }));
+      break;
+    case 'getDisplayedFrame':
+      decoder.getDisplayedFrame().then((displayed) => {
+        post({ type: 'displayedFrame', id: message.id, frame: displayed?.frame ?? null, time: displayed?.time ?? 0 }, displayed ? [displayed.frame] : []);
+      });
+      break;
+    case 'exportClip': {
+      const controller = new AbortController();
+      clipControllers.set(message.id, controller);
+      decoder.exportClip(message.startSeconds, message.endSeconds, { format: message.format, signal: controller.signal })
+        .then((blob) => post({ type: 'clip', id: message.id, blob }))
+        .catch((error) => post({ type: 'clip', id: message.id, error }))
+        .finally(() => clipControllers.delete(message.id));
+      break;
+    }
+    case 'abortClip':
+      clipControllers.get(message.id)?.abort();
+      break;
+    case 'setPaused':
+      if (message.paused) {
+        decoder.pause();
+      } else {
+        decoder.play();
+      }
+      break;
+    case 'setPlaybackRate':
+      decoder.setPlaybackRate(message.rate);
+      break;
+    case 'audioClock':
+      audioOutput?.updateClock(message.generation, message.time, message.at);
+      break;
+    case 'stop':
+      decoder.stop();
+      break;
+  }
+};
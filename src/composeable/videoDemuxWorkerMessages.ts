@@ -0,0 +1,81 @@
+/**
+ * useVideoDemuxDecoder 的 worker 模式下，主线程与 Worker 之间的消息
+ * @author guo xiao
+ */
+
+import type { AudioPlayerOptions, ClipFormat, DecodeMode, PacketRecord, PlayerState, SeiEvent, SubtitleCue, SubtitleTrackInfo, Thumbnail } from '../webcodec-player';
+import type { VideoDemuxDecoderStats } from './useVideoDemuxDecoder';
+
+/**
+ * Worker 中的播放状态，变化时同步到主线程的同名 ref
+ */
+export interface VideoDemuxWorkerState {
+  stats: VideoDemuxDecoderStats | null;
+  isLoading: boolean;
+  error: Error | null;
+  currentTime: number;
+  duration: number;
+  playerState: PlayerState;
+  waiting: boolean;
+  paused: boolean;
+  playbackRate: number;
+  captionText: string;
+}
+
+/**
+ * Worker 没有 AudioContext，音频数据交给主线程的 AudioPlayer 解码播放
+ */
+export type VideoDemuxAudioCommand =
+  | { action: 'create'; options: AudioPlayerOptions }
+  | { action: 'decode'; data: Uint8Array; timestamp: number; duration?: number }
+  | { action: 'reset'; dropBeforeTimestamp: number; generation: number }
+  | { action: 'pause'; paused: boolean }
+  | { action: 'destroy' };
+
+/**
+ * 主线程 → Worker
+ */
+export type VideoDemuxWorkerRequest =
+  | {
+    type: 'load';
+    source: string | File;
+    decodeMode?: DecodeMode;
+    wasmBaseUrl?: string;
+    live?: boolean;
+    targetLatency?: number;
+    playbackRate: number;
+    thumbnails?: boolean;
+    sei?: boolean; // 主线程订阅了 SEI，Worker 转发解析结果
+    canvas?: OffscreenCanvas; // 不传时把解码出的帧转发回主线程渲染
+  }
+  | { type: 'seek'; id: number; seconds: number }
+  | { type: 'step'; id: number; backward: boolean }
+  | { type: 'getDisplayedFrame'; id: number }
+  | { type: 'exportClip'; id: number; startSeconds: number; endSeconds: number; format: ClipFormat }
+  | { type: 'abortClip'; id: number }
+  | { type: 'setPaused'; paused: boolean }
+  | { type: 'setPlaybackRate'; rate: number }
+  // 主线程音频主时钟的采样：at 为采样时刻（performance.timeOrigin + performance.now()，毫秒）
+  | { type: 'audioClock'; generation: number; time: number | undefined; at: number }
+  | { type: 'stop' };
+
+type StateMessage = {
+  [K in keyof VideoDemuxWorkerState]: { type: 'state'; key: K; value: VideoDemuxWorkerState[K] };
+}[keyof VideoDemuxWorkerState];
+
+/**
+ * Worker → 主线程
+ */
+export type VideoDemuxWorkerResponse =
+  | StateMessage
+  | { type: 'progress'; stats: Partial<VideoDemuxDecoderStats> }
+  | { type: 'frame'; frame: VideoFrame }
+  | { type: 'audio'; command: VideoDemuxAudioCommand }
+  | { type: 'thumbnail'; thumbnail: Thumbnail }
+  | { type: 'packets'; records: PacketRecord[] } // 新读取到的数据包记录
+  | { type: 'sei'; event: SeiEvent }
+  | { type: 'subtitles'; track: SubtitleTrackInfo; cues: SubtitleCue[] } // 内嵌字幕流和新解析出的字幕条目
+  | { type: 'resolved'; id: number } // seek / step 完成
+  | { type: 'clip'; id: number; blob?: Blob; error?: unknown }
+  | { type: 'displayedFrame'; id: number; frame: VideoFrame | null; time: number }
+  | { type: 'done'; stats?: VideoDemuxDecoderStats; error?: unknown };
@@ -0,0 +1,453 @@
+/**
+ * 用 AudioDecoder 解码音频，并通过 Web Audio 播放，同时作为音视频同步的主时钟
+ * @author guo xiao
+ */
+
+import { EventEmitter } from './event-emitter';
+
+export type AudioCodec = 'aac' | 'mp3' | 'opus' | 'vorbis' | 'pcm_alaw' | 'pcm_mulaw';
+
+export interface AudioPlayerOptions {
+    codec: AudioCodec;
+    sampleRate: number;
+    numberOfChannels: number;
+    description?: Uint8Array; // AAC 的 AudioSpecificConfig / Opus 的 OpusHead / Vorbis 的 Xiph lacing 头
+    volume?: number; // 0 ~ 1
+    muted?: boolean;
+    targetLatency?: number; // 直播目标延迟（毫秒），调度积压过多时丢弃积压重新对齐
+}
+
+// 首个音频块相对 AudioContext 当前时间的调度提前量（秒），给解码和调度留出余量
+const SCHEDULE_LEAD = 0.1;
+// 直播时已调度未播放的音频超过目标延迟的该倍数时丢弃积压（与 SpeedControl 一致）
+const MAX_LATENCY_FACTOR = 3;
+// 解码器出错后自动重建的最大次数，超过后不再解码音频
+const MAX_DECODER_RECOVERIES = 3;
+// 自动播放策略拒绝恢复 AudioContext 时，在这些用户操作后重试
+const RESUME_GESTURE_EVENTS = ['pointerdown', 'keydown'];
+
+/**
+ * 判断 dumpCodecName 返回的音频编码名称是否受支持
+ * @param codecName 编码名称
+ */
+export function isSupportedAudioCodec(codecName: string): codecName is AudioCodec {
+    return ['aac', 'mp3', 'opus', 'vorbis', 'pcm_alaw', 'pcm_mulaw'].includes(codecName);
+}
+
+/**
+ * 获取 WebCodecs 音频编码字符串
+ * @param codec 音频编码
+ * @param description AAC 的 AudioSpecificConfig，用于读取 audioObjectType
+ */
+export function getAudioCodecString(codec: AudioCodec, description?: Uint8Array): string {
+    switch (codec) {
+        case 'aac': {
+            // AudioSpecificConfig 的前 5 位为 audioObjectType，缺省按 AAC-LC 处理
+            const objectType = description && description.length ? description[0]! >> 3 : 2;
+            return `mp4a.40.${objectType || 2}`;
+        }
+        case 'mp3':
+            return 'mp3';
+        case 'opus':
+            return 'opus';
+        case 'vorbis':
+            return 'vorbis';
+        case 'pcm_alaw':
+            return 'alaw';
+        case 'pcm_mulaw':
+            return 'ulaw';
+    }
+}
+
+/**
+ * 音频输出：解码播放音频并提供主时钟。Worker 中没有 AudioContext，由主线程的 AudioPlayer 代为播放
+ */
+export interface AudioOutput {
+    /**
+     * 解码音频数据
+     * @param data 编码后的音频数据
+     * @param timestamp 显示时间戳 pts（微秒）
+     * @param duration 时长（微秒），未知时不传
+     */
+    decode(data: Uint8Array, timestamp: number, duration?: number): void;
+    /**
+     * 重置（用于 seek）
+     * @param dropBeforeTimestamp 丢弃 timestamp 早于该值的音频（微秒）
+     */
+    reset(dropBeforeTimestamp?: number): void;
+    /**
+     * 获取音频主时钟（微秒），音频尚未开始播放时返回 undefined
+     */
+    getCurrentTime(): number | undefined;
+    setVolume(volume: number): void;
+    setMuted(muted: boolean): void;
+    setPausedState(paused: boolean): void;
+    destroy(): void;
+}
+
+export interface AudioPlayerEvents {
+    error: [error: Error]; // 解码器出错，之后会重建解码器，从后续数据继续解码
+}
+
+export class AudioPlayer extends EventEmitter<AudioPlayerEvents> implements AudioOutput {
+    private options: AudioPlayerOptions;
+    private decoder: AudioDecoder | null = null;
+    private decoderConfig: AudioDecoderConfig | null = null;
+    private audioContext: AudioContext | null = null;
+    private gainNode: GainNode | null = null;
+    private sources: Set<AudioBufferSourceNode> = new Set();
+    // 解码器配置完成之前到达的数据块
+    private pendingChunks: EncodedAudioChunk[] = [];
+    // 浏览器不支持该配置时不再接收数据
+    private unsupported: boolean = false;
+    // 媒体时间戳（微秒）与 AudioContext 时间（秒）之间的对齐锚点
+    private anchored: boolean = false;
+    private anchorTimestamp: number = 0;
+    private anchorContextTime: number = 0;
+    // seek 后丢弃 timestamp 早于该值的音频（微秒）
+    private dropBeforeTimestamp: number = -Infinity;
+    private volume: number;
+    private muted: boolean;
+    private frameCount: number = 0;
+    private paused: boolean = false;
+    private decoderRecoveries: number = 0;
+
+    constructor(options: AudioPlayerOptions) {
+        super();
+        this.options = options;
+        this.volume = options.volume ?? 1;
+        this.muted = !!options.muted;
+
+        console.log('[AudioPlayer] Initializing with options:', {
+            codec: options.codec,
+            sampleRate: options.sampleRate,
+            numberOfChannels: options.numberOfChannels,
+        });
+
+        if (!(window as any)['AudioDecoder']) {
+            console.error('sry, this browser not support AudioDecoder');
+            return;
+        }
+
+        this.audioContext = new AudioContext();
+        this.gainNode = this.audioContext.createGain();
+        this.gainNode.connect(this.audioContext.destination);
+        this.applyGain();
+        // AudioContext 在加载完成后才创建，已经离开了用户手势，可能处于 suspended 状态
+        this.resumeContext();
+
+        this.createDecoder();
+    }
+
+    /**
+     * 播放中恢复 AudioContext；没有用户手势时 resume 可能一直等待或被自动播放策略拒绝，下一次用户操作时再恢复
+     */
+    private resumeContext() {
+        const context = this.audioContext;
+        if (!context || this.paused || context.state === 'running') {
+            return;
+        }
+        context.resume().catch((error) => {
+            console.warn('[AudioPlayer] Failed to resume audio context:', error);
+        });
+        RESUME_GESTURE_EVENTS.forEach((event) => window.addEventListener(event, this.handleGesture, { capture: true }));
+    }
+
+    private handleGesture = () => {
+        this.removeGestureListeners();
+        this.resumeContext();
+    };
+
+    private removeGestureListeners() {
+        RESUME_GESTURE_EVENTS.forEach((event) => window.removeEventListener(event, this.handleGesture, { capture: true }));
+    }
+
+    private async createDecoder() {
+        const config: AudioDecoderConfig = {
+            codec: getAudioCodecString(this.options.codec, this.options.description),
+            sampleRate: this.options.sampleRate,
+            numberOfChannels: this.options.numberOfChannels,
+        };
+        if (this.options.description && this.options.description.length) {
+            config.description = this.options.description;
+        }
+
+        // 检查浏览器是否支持该编解码器
+        try {
+            const support = await AudioDecoder.isConfigSupported(config);
+            if (!support.supported) {
+                console.error(`[AudioPlayer] Codec not supported by browser: ${config.codec}`);
+                this.unsupported = true;
+                this.pendingChunks = [];
+                return;
+            }
+        } catch (error) {
+            console.warn('[AudioPlayer] Could not check codec support:', error);
+        }
+
+        // 检查期间已被销毁
+        if (!this.audioContext) {
+            return;
+        }
+
+        this.decoder = new AudioDecoder({
+            output: (audioData: AudioData) => {
+                this.schedule(audioData);
+            },
+            error: (error) => {
+                console.error('[AudioPlayer] Decoder error:', error);
+                this.emit('error', error);
+                this.recoverDecoder();
+            },
+        });
+
+        try {
+            this.decoder.configure(config);
+            this.decoderConfig = config;
+            console.log(`[AudioPlayer] Decoder configured successfully: ${config.codec}`);
+        } catch (error) {
+            console.error('[AudioPlayer] Failed to configure decoder:', error);
+            this.unsupported = true;
+            this.pendingChunks = [];
+            return;
+        }
+
+        const pendingChunks = this.pendingChunks;
+        this.pendingChunks = [];
+        pendingChunks.forEach((chunk) => this.decodeChunk(chunk));
+    }
+
+    /**
+     * 解码器出错后已被关闭，重建解码器从后续数据继续解码
+     */
+    private recoverDecoder() {
+        this.decoder = null;
+        this.decoderConfig = null;
+        if (!this.audioContext) {
+            return;
+        }
+        if (++this.decoderRecoveries > MAX_DECODER_RECOVERIES) {
+            console.error('[AudioPlayer] Decoder failed too many times, audio disabled');
+            this.unsupported = true;
+            this.pendingChunks = [];
+            return;
+        }
+        this.createDecoder();
+    }
+
+    /**
+     * 解码音频数据
+     * @param data 编码后的音频数据
+     * @param timestamp 显示时间戳 pts（微秒）
+     * @param duration 时长（微秒），未知时不传
+     */
+    decode(data: Uint8Array, timestamp: number, duration?: number) {
+        if (!this.audioContext || this.unsupported) {
+            return;
+        }
+
+        const init: EncodedAudioChunkInit = {
+            data,
+            type: 'key',
+            timestamp,
+        };
+        if (duration !== undefined && duration > 0) {
+            init.duration = duration;
+        }
+
+        const chunk = new EncodedAudioChunk(init);
+        // 解码器仍在检查/配置中，先缓存
+        if (!this.decoder) {
+            this.pendingChunks.push(chunk);
+            return;
+        }
+        this.decodeChunk(chunk);
+    }
+
+    private decodeChunk(chunk: EncodedAudioChunk) {
+        if (!this.decoder || this.decoder.state !== 'configured') {
+            return;
+        }
+
+        try {
+            this.decoder.decode(chunk);
+            this.frameCount++;
+            if (this.frameCount % 500 === 0) {
+                console.log(`[AudioPlayer] Received ${this.frameCount} frames`);
+            }
+        } catch (error) {
+            console.error('[AudioPlayer] decode error:', error);
+        }
+    }
+
+    /**
+     * 将解码后的 AudioData 按时间戳调度到 Web Audio 时间线上
+     * @param audioData 解码后的音频数据
+     */
+    private schedule(audioData: AudioData) {
+        const context = this.audioContext;
+        if (!context || !this.gainNode) {
+            audioData.close();
+            return;
+        }
+
+        // seek 目标位置之前的音频直接丢弃
+        if (audioData.timestamp < this.dropBeforeTimestamp) {
+            audioData.close();
+            return;
+        }
+
+        try {
+            const { numberOfChannels, numberOfFrames, sampleRate, timestamp } = audioData;
+            const buffer = context.createBuffer(numberOfChannels, numberOfFrames, sampleRate);
+            for (let channel = 0; channel < numberOfChannels; channel++) {
+                const channelData = new Float32Array(numberOfFrames);
+                audioData.copyTo(channelData, { planeIndex: channel, format: 'f32-planar' });
+                buffer.copyToChannel(channelData, channel);
+            }
+
+            let when = !this.anchored
+                ? -1
+                : this.anchorContextTime + (timestamp - this.anchorTimestamp) / 1_000_000;
+
+            // 第一次调度，或者已经落后于播放进度（解码卡顿、时间戳跳变）时重新对齐
+            if (when < context.currentTime) {
+                this.anchorContextTime = context.currentTime + SCHEDULE_LEAD;
+                this.anchorTimestamp = timestamp;
+                this.anchored = true;
+                when = this.anchorContextTime;
+            }
+
+            // 直播：网络卡顿后数据集中到达，积压的音频会一直拖着延迟，丢弃积压后按目标延迟重新对齐
+            const targetLatency = (this.options.targetLatency ?? 0) / 1000;
+            if (targetLatency && when - context.currentTime > targetLatency * MAX_LATENCY_FACTOR) {
+                console.log(`[AudioPlayer] Live latency ${((when - context.currentTime) * 1000).toFixed(0)}ms exceeds limit, dropping scheduled audio`);
+                this.stopSources();
+                this.anchorContextTime = context.currentTime + targetLatency;
+                this.anchorTimestamp = timestamp;
+                when = this.anchorContextTime;
+            }
+
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.connect(this.gainNode);
+            source.onended = () => {
+                this.sources.delete(source);
+            };
+            source.start(when);
+            this.sources.add(source);
+        } catch (error) {
+            console.error('[AudioPlayer] Failed to schedule audio:', error);
+        } finally {
+            audioData.close();
+        }
+    }
+
+    /**
+     * 重置（用于 seek）：停止已调度的音频，清空解码器并重新对齐时钟
+     * @param dropBeforeTimestamp 丢弃 timestamp 早于该值的音频（微秒）
+     */
+    reset(dropBeforeTimestamp: number = -Infinity) {
+        this.dropBeforeTimestamp = dropBeforeTimestamp;
+        this.anchored = false;
+        this.pendingChunks = [];
+        this.stopSources();
+
+        if (!this.decoder || !this.decoderConfig || this.decoder.state === 'closed') {
+            return;
+        }
+        try {
+            this.decoder.reset();
+            this.decoder.configure(this.decoderConfig);
+        } catch (error) {
+            console.error('[AudioPlayer] Failed to reset decoder:', error);
+        }
+    }
+
+    /**
+     * 停止所有已调度的音频
+     */
+    private stopSources() {
+        this.sources.forEach((source) => {
+            try {
+                source.stop();
+            } catch {
+                // 尚未开始播放的 source 可能抛错，忽略
+            }
+        });
+        this.sources.clear();
+    }
+
+    /**
+     * 获取音频主时钟（微秒），即当前正在播放的音频对应的媒体时间戳
+     * 音频尚未开始播放时返回 undefined
+     */
+    getCurrentTime(): number | undefined {
+        const context = this.audioContext;
+        if (!context || !this.anchored || context.currentTime < this.anchorContextTime) {
+            return undefined;
+        }
+        const latency = context.outputLatency || context.baseLatency || 0;
+        return this.anchorTimestamp + (context.currentTime - this.anchorContextTime - latency) * 1_000_000;
+    }
+
+    /**
+     * 设置音量
+     * @param volume 0 ~ 1
+     */
+    setVolume(volume: number) {
+        this.volume = Math.min(1, Math.max(0, volume));
+        this.applyGain();
+    }
+
+    /**
+     * 设置静音状态
+     * @param muted 是否静音
+     */
+    setMuted(muted: boolean) {
+        this.muted = muted;
+        this.applyGain();
+    }
+
+    private applyGain() {
+        if (this.gainNode) {
+            this.gainNode.gain.value = this.muted ? 0 : this.volume;
+        }
+    }
+
+    /**
+     * 暂停/恢复音频输出，暂停时主时钟同时停止
+     * @param paused 是否暂停
+     */
+    setPausedState(paused: boolean) {
+        if (!this.audioContext) {
+            return;
+        }
+        this.paused = paused;
+        if (paused) {
+            this.removeGestureListeners();
+            this.audioContext.suspend().catch((error) => {
+                console.warn('[AudioPlayer] Failed to suspend audio context:', error);
+            });
+        } else {
+            this.resumeContext();
+        }
+    }
+
+    destroy() {
+        this.removeGestureListeners();
+        this.removeAllListeners();
+        if (this.decoder && this.decoder.state !== 'closed') {
+            this.decoder.close();
+        }
+        this.decoder = null;
+        this.pendingChunks = [];
+        this.stopSources();
+        this.gainNode?.disconnect();
+        this.gainNode = null;
+        this.audioContext?.close().catch((error) => {
+            console.warn('[AudioPlayer] Failed to close audio context:', error);
+        });
+        this.audioContext = null;
+    }
+}
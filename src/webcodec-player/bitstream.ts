@@ -0,0 +1,105 @@
+/**
+ * 按位读取 RBSP（已去除防竞争字节）的读取器，支持 Exp-Golomb 编码
+ * @author guo xiao
+ */
+
+export class BitReader {
+    private data: Uint8Array;
+    private bitPos: number = 0;
+
+    /**
+     * @param data RBSP 数据，调用方负责先去除防竞争字节
+     */
+    constructor(data: Uint8Array) {
+        this.data = data;
+    }
+
+    /**
+     * 已读取的位数
+     */
+    get position(): number {
+        return this.bitPos;
+    }
+
+    /**
+     * 剩余的位数
+     */
+    get bitsLeft(): number {
+        return this.data.length * 8 - this.bitPos;
+    }
+
+    /**
+     * 读取 1 位，u(1)
+     */
+    readBit(): number {
+        const byte = this.data[this.bitPos >> 3];
+        if (byte === undefined) {
+            throw new RangeError('Bitstream read out of range');
+        }
+        const bit = (byte >> (7 - (this.bitPos & 7))) & 1;
+        this.bitPos++;
+        return bit;
+    }
+
+    readFlag(): boolean {
+        return this.readBit() === 1;
+    }
+
+    /**
+     * 读取 n 位无符号整数，u(n)，n 最大 32
+     */
+    readBits(n: number): number {
+        let value = 0;
+        for (let i = 0; i < n; i++) {
+            value = value * 2 + this.readBit();
+        }
+        return value;
+    }
+
+    skipBits(n: number) {
+        if (n > this.bitsLeft) {
+            throw new RangeError('Bitstream read out of range');
+        }
+        this.bitPos += n;
+    }
+
+    /**
+     * 读取无符号 Exp-Golomb 编码，ue(v)
+     */
+    readUe(): number {
+        let leadingZeros = 0;
+        while (this.readBit() === 0) {
+            if (++leadingZeros > 31) {
+                throw new RangeError('Invalid Exp-Golomb code');
+            }
+        }
+        return this.readBits(leadingZeros) + 2 ** leadingZeros - 1;
+    }
+
+    /**
+     * 读取有符号 Exp-Golomb 编码，se(v)：1, -1, 2, -2 ...
+     */
+    readSe(): number {
+        const value = this.readUe();
+        return value & 1 ? (value + 1) / 2 : -(value / 2);
+    }
+
+    /**
+     * more_rbsp_data()：最后一个 1（rbsp_stop_one_bit）之前是否还有数据
+     */
+    hasMoreRbspData(): boolean {
+        let lastByte = this.data.length - 1;
+        while (lastByte >= 0 && this.data[lastByte] === 0) {
+            lastByte--;
+        }
+        if (lastByte < 0) {
+            return false;
+        }
+        const byte = this.data[lastByte]!;
+        let stopBit = 0;
+        while (!((byte >> stopBit) & 1)) {
+            stopBit++;
+        }
+        return this.bitPos < lastByte * 8 + 7 - stopBit;
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * 不在本线程渲染，把 videoFrame 交给回调，例如在 Worker 中解码后转发给主线程渲染
+ * @author guo xiao
+ */
+
+import type { Renderer } from './renderer';
+
+export interface CallbackRenderOptions {
+    onFrame: (videoFrame: VideoFrame) => void; // 接收方负责 close
+}
+
+export class CallbackRender implements Renderer {
+    private onFrame: ((videoFrame: VideoFrame) => void) | null;
+
+    /**
+     * 构造函数
+     * @param options - 渲染配置选项
+     */
+    constructor(options: CallbackRenderOptions) {
+        this.onFrame = options.onFrame;
+    }
+
+    /**
+     * 把视频帧交给回调
+     * @param videoFrame - VideoFrame 对象
+     */
+    public render(videoFrame: VideoFrame): void {
+        if (!this.onFrame) {
+            videoFrame.close();
+            return;
+        }
+        try {
+            this.onFrame(videoFrame);
+        } catch (error) {
+            console.error('[CallbackRender] Failed to deliver frame:', error);
+            videoFrame.close();
+        }
+    }
+
+    /**
+     * 把 ImageData 包装成 VideoFrame 交给回调
+     * @param data - ImageData 对象
+     */
+    public renderImageData(data: ImageData): void {
+        this.render(new VideoFrame(data.data, {
+            format: 'RGBA',
+            codedWidth: data.width,
+            codedHeight: data.height,
+            timestamp: 0,
+        }));
+    }
+
+    /**
+     * 尺寸由接收方按帧的 displayWidth/displayHeight 处理
+     */
+    public resize(_width: number, _height: number): void {}
+
+    /**
+     * 销毁渲染器，之后到达的帧直接关闭
+     */
+    public destroy(): void {
+        this.onFrame = null;
+    }
+}
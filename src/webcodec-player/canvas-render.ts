@@ -0,0 +1,338 @@
+/**
+ * 用 canvas 渲染 videoFrame，优先 WebGL，不支持时回退到 2D drawImage
+ * 适用于不支持 MediaStreamTrackGenerator 的浏览器（Firefox、Safari），也可以在 Worker 中绘制到 OffscreenCanvas
+ * @author guo xiao
+ */
+
+import type { Renderer } from './renderer';
+
+export interface CanvasRenderOptions {
+    width: number;
+    height: number;
+    videoEl?: HTMLVideoElement; // 自动创建画布时插入到该元素旁边，并隐藏该元素
+    canvasEl?: HTMLCanvasElement | OffscreenCanvas; // OffscreenCanvas 没有布局信息，按视频尺寸绘制，由页面上的画布元素缩放显示
+}
+
+type CanvasSource = VideoFrame | HTMLCanvasElement | OffscreenCanvas;
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_texCoord;
+varying vec2 v_texCoord;
+void main() {
+    gl_Position = vec4(a_position, 0.0, 1.0);
+    v_texCoord = a_texCoord;
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_texture;
+varying vec2 v_texCoord;
+void main() {
+    gl_FragColor = texture2D(u_texture, v_texCoord);
+}
+`;
+
+export class CanvasRender implements Renderer {
+    private options: CanvasRenderOptions;
+    private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private ownsCanvas: boolean = false; // 画布是否由渲染器自己创建
+    private hiddenVideoEl: HTMLVideoElement | null = null;
+    private hiddenVideoDisplay: string = '';
+    private gl: WebGLRenderingContext | null = null;
+    private texture: WebGLTexture | null = null;
+    private context2d: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+    private scratchCanvas: HTMLCanvasElement | OffscreenCanvas | null = null; // 用于绘制 ImageData
+    private lastSource: CanvasSource | null = null; // 保留最近一帧，尺寸变化时重绘
+    private resizeObserver: ResizeObserver | null = null;
+
+    /**
+     * 构造函数
+     * @param options - 渲染配置选项
+     */
+    constructor(options: CanvasRenderOptions) {
+        this.options = Object.assign({}, options);
+        this.init();
+    }
+
+    /**
+     * 初始化画布和绘制上下文
+     */
+    private init(): void {
+        console.log('[CanvasRender] Initializing canvas render');
+        const { videoEl, canvasEl } = this.options;
+
+        if (canvasEl) {
+            this.canvas = canvasEl;
+        } else {
+            // 没有传入画布时，在 video 元素旁边创建一个同样样式的画布并隐藏 video
+            const canvas = document.createElement('canvas');
+            this.canvas = canvas;
+            this.ownsCanvas = true;
+            if (videoEl && videoEl.parentElement) {
+                canvas.className = videoEl.className;
+                videoEl.parentElement.insertBefore(canvas, videoEl.nextSibling);
+                this.hiddenVideoEl = videoEl;
+                this.hiddenVideoDisplay = videoEl.style.display;
+                videoEl.style.display = 'none';
+            }
+        }
+
+        if (!this.initWebGL()) {
+            this.context2d = this.canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+            if (!this.context2d) {
+                console.error('[CanvasRender] Neither WebGL nor 2D context is available');
+                return;
+            }
+            console.log('[CanvasRender] WebGL not available, using 2D context');
+        } else {
+            console.log('[CanvasRender] Using WebGL context');
+        }
+
+        this.syncCanvasSize();
+        if (typeof ResizeObserver !== 'undefined' && 'clientWidth' in this.canvas) {
+            this.resizeObserver = new ResizeObserver(() => {
+                if (this.syncCanvasSize() && this.lastSource) {
+                    this.draw(this.lastSource);
+                }
+            });
+            this.resizeObserver.observe(this.canvas);
+        }
+    }
+
+    /**
+     * 初始化 WebGL，失败时返回 false
+     */
+    private initWebGL(): boolean {
+        const gl = this.canvas?.getContext('webgl', { alpha: false, antialias: false, preserveDrawingBuffer: true }) as WebGLRenderingContext | null;
+        if (!gl) {
+            return false;
+        }
+
+        const vertexShader = this.compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+        const fragmentShader = this.compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+        const program = gl.createProgram();
+        if (!vertexShader || !fragmentShader || !program) {
+            return false;
+        }
+        gl.attachShader(program, vertexShader);
+        gl.attachShader(program, fragmentShader);
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            console.error('[CanvasRender] Failed to link program:', gl.getProgramInfoLog(program));
+            return false;
+        }
+        gl.useProgram(program);
+
+        // 全屏四边形，纹理坐标 y 轴向下，对应图像第一行在顶部
+        const vertices = new Float32Array([
+            -1, -1, 0, 1,
+            1, -1, 1, 1,
+            -1, 1, 0, 0,
+            1, 1, 1, 0,
+        ]);
+        const buffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+
+        const positionLocation = gl.getAttribLocation(program, 'a_position');
+        const texCoordLocation = gl.getAttribLocation(program, 'a_texCoord');
+        gl.enableVertexAttribArray(positionLocation);
+        gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 16, 0);
+        gl.enableVertexAttribArray(texCoordLocation);
+        gl.vertexAttribPointer(texCoordLocation, 2, gl.FLOAT, false, 16, 8);
+
+        this.texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, this.texture);
+        // 视频尺寸通常不是 2 的幂，必须使用 CLAMP_TO_EDGE 且不使用 mipmap
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+        gl.clearColor(0, 0, 0, 1);
+        this.gl = gl;
+        return true;
+    }
+
+    private compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+        const shader = gl.createShader(type);
+        if (!shader) {
+            return null;
+        }
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            console.error('[CanvasRender] Failed to compile shader:', gl.getShaderInfoLog(shader));
+            gl.deleteShader(shader);
+            return null;
+        }
+        return shader;
+    }
+
+    /**
+     * 按显示尺寸和 devicePixelRatio 同步画布的像素尺寸
+     * @returns 尺寸是否发生变化
+     */
+    private syncCanvasSize(): boolean {
+        const canvas = this.canvas;
+        if (!canvas) {
+            return false;
+        }
+        // 画布还没有布局（未插入文档）或者是 OffscreenCanvas 时使用视频尺寸
+        const clientWidth = 'clientWidth' in canvas ? canvas.clientWidth : 0;
+        const clientHeight = 'clientHeight' in canvas ? canvas.clientHeight : 0;
+        const dpr = typeof devicePixelRatio !== 'undefined' ? devicePixelRatio : 1;
+        const width = clientWidth ? Math.round(clientWidth * dpr) : this.options.width;
+        const height = clientHeight ? Math.round(clientHeight * dpr) : this.options.height;
+        if (canvas.width === width && canvas.height === height) {
+            return false;
+        }
+        canvas.width = width;
+        canvas.height = height;
+        return true;
+    }
+
+    /**
+     * 计算保持宽高比居中显示的区域（aspect-fit）
+     */
+    private getFitRect(sourceWidth: number, sourceHeight: number) {
+        const canvasWidth = this.canvas!.width;
+        const canvasHeight = this.canvas!.height;
+        const scale = Math.min(canvasWidth / sourceWidth, canvasHeight / sourceHeight);
+        const width = Math.round(sourceWidth * scale);
+        const height = Math.round(sourceHeight * scale);
+        return {
+            x: Math.round((canvasWidth - width) / 2),
+            y: Math.round((canvasHeight - height) / 2),
+            width,
+            height,
+        };
+    }
+
+    private draw(source: CanvasSource): void {
+        const sourceWidth = source instanceof VideoFrame ? source.displayWidth : source.width;
+        const sourceHeight = source instanceof VideoFrame ? source.displayHeight : source.height;
+        if (!this.canvas || !sourceWidth || !sourceHeight) {
+            return;
+        }
+        const rect = this.getFitRect(sourceWidth, sourceHeight);
+
+        if (this.gl) {
+            const gl = this.gl;
+            gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+            gl.clear(gl.COLOR_BUFFER_BIT);
+            gl.bindTexture(gl.TEXTURE_2D, this.texture);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+            // WebGL 的 viewport 原点在左下角
+            gl.viewport(rect.x, this.canvas.height - rect.y - rect.height, rect.width, rect.height);
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        } else if (this.context2d) {
+            const context = this.context2d;
+            context.fillStyle = '#000';
+            context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+            context.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+        }
+    }
+
+    /**
+     * 保存最近一帧，释放上一帧
+     */
+    private setLastSource(source: CanvasSource): void {
+        if (this.lastSource && this.lastSource !== source && this.lastSource instanceof VideoFrame) {
+            this.lastSource.close();
+        }
+        this.lastSource = source;
+    }
+
+    /**
+     * 渲染视频帧
+     * @param videoFrame - VideoFrame 对象
+     */
+    public render(videoFrame: VideoFrame): void {
+        if (!this.canvas || (!this.gl && !this.context2d)) {
+            videoFrame.close();
+            return;
+        }
+        try {
+            this.syncCanvasSize();
+            this.draw(videoFrame);
+            this.setLastSource(videoFrame);
+        } catch (error) {
+            console.error('[CanvasRender] Failed to render frame:', error);
+            videoFrame.close();
+        }
+    }
+
+    /**
+     * 渲染 ImageData
+     * @param data - ImageData 对象
+     */
+    public renderImageData(data: ImageData): void {
+        if (!this.canvas || (!this.gl && !this.context2d)) {
+            return;
+        }
+        if (!this.scratchCanvas) {
+            this.scratchCanvas = typeof document !== 'undefined'
+                ? document.createElement('canvas')
+                : new OffscreenCanvas(data.width, data.height);
+        }
+        const scratch = this.scratchCanvas;
+        if (scratch.width !== data.width || scratch.height !== data.height) {
+            scratch.width = data.width;
+            scratch.height = data.height;
+        }
+        (scratch.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null)?.putImageData(data, 0, 0);
+        try {
+            this.syncCanvasSize();
+            this.draw(scratch);
+            this.setLastSource(scratch);
+        } catch (error) {
+            console.error('[CanvasRender] Failed to render ImageData:', error);
+        }
+    }
+
+    /**
+     * 调整视频尺寸：画布按显示尺寸绘制，这里只更新画布未布局时使用的后备尺寸
+     * @param width - 视频宽度
+     * @param height - 视频高度
+     */
+    public resize(width: number, height: number): void {
+        this.options.width = width;
+        this.options.height = height;
+        if (this.syncCanvasSize() && this.lastSource) {
+            this.draw(this.lastSource);
+        }
+    }
+
+    /**
+     * 销毁渲染器，释放资源
+     */
+    public destroy(): void {
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+
+        if (this.lastSource instanceof VideoFrame) {
+            this.lastSource.close();
+        }
+        this.lastSource = null;
+
+        if (this.gl) {
+            this.gl.deleteTexture(this.texture);
+            this.texture = null;
+            this.gl = null;
+        }
+        this.context2d = null;
+        this.scratchCanvas = null;
+
+        if (this.ownsCanvas) {
+            (this.canvas as HTMLCanvasElement | null)?.remove();
+        }
+        if (this.hiddenVideoEl) {
+            this.hiddenVideoEl.style.display = this.hiddenVideoDisplay;
+            this.hiddenVideoEl = null;
+        }
+        this.canvas = null;
+    }
+}
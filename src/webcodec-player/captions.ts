@@ -0,0 +1,612 @@
+/**
+ * 嵌入在 SEI 中的隐藏字幕解码：CEA-608（CC1）和 CEA-708（服务 1），输出当前显示的文字和字幕条目
+ * 只还原文字内容，不处理颜色、字体等样式
+ * @author guo xiao
+ */
+
+import type { CcData, SeiEvent } from './sei';
+
+export type CaptionSource = 'cea608' | 'cea708';
+
+/**
+ * 一条字幕：一段时间内显示的文字
+ */
+export interface CaptionCue {
+    start: number; // 开始显示的 pts（微秒）
+    end: number; // 被替换或清除的 pts（微秒）
+    text: string;
+    source: CaptionSource;
+}
+
+export interface CaptionDecoderOptions {
+    onCue?: (cue: CaptionCue) => void; // 一条字幕结束（被替换或清除）时回调
+}
+
+const CEA608_ROWS = 15;
+const CEA608_COLUMNS = 32;
+
+// 基本字符集中与 ASCII 不同的字符
+const CEA608_BASIC_CHARS: Record<number, string> = {
+    0x27: '’',
+    0x2A: 'á',
+    0x5C: 'é',
+    0x5E: 'í',
+    0x5F: 'ó',
+    0x60: 'ú',
+    0x7B: 'ç',
+    0x7C: '÷',
+    0x7D: 'Ñ',
+    0x7E: 'ñ',
+    0x7F: '█',
+};
+// 特殊字符：0x11 0x30 ~ 0x3F
+const CEA608_SPECIAL_CHARS = ['®', '°', '½', '¿', '™', '¢', '£', '♪', 'à', ' ', 'è', 'â', 'ê', 'î', 'ô', 'û'];
+// 扩展字符：0x12 / 0x13 0x20 ~ 0x3F，替换前一个字符
+const CEA608_EXTENDED_CHARS: Record<number, string[]> = {
+    0x12: ['Á', 'É', 'Ó', 'Ú', 'Ü', 'ü', '‘', '¡', '*', '\'', '—', '©', '℠', '•', '“', '”',
+        'À', 'Â', 'Ç', 'È', 'Ê', 'Ë', 'ë', 'Î', 'Ï', 'ï', 'Ô', 'Ù', 'ù', 'Û', '«', '»'],
+    0x13: ['Ã', 'ã', 'Í', 'Ì', 'ì', 'Ò', 'ò', 'Õ', 'õ', '{', '}', '\\', '^', '_', '|', '~',
+        'Ä', 'ä', 'Ö', 'ö', 'ß', '¥', '¤', '¦', 'Å', 'å', 'Ø', 'ø', '┌', '┐', '└', '┘'],
+};
+// PAC 第一个字节低 3 位对应的行（从 1 开始），第二个字节 0x20 位置位时为下一行（第 11 行除外）
+const CEA608_PAC_ROWS = [11, 1, 3, 12, 14, 5, 7, 9];
+
+type Cea608Mode = 'pop-on' | 'roll-up' | 'paint-on';
+
+function createScreen(): string[][] {
+    return Array.from({ length: CEA608_ROWS }, () => new Array<string>(CEA608_COLUMNS).fill(''));
+}
+
+function screenToText(screen: string[][]): string {
+    return screen
+        .map((row) => row.map((char) => char || ' ').join('').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * CEA-608 第 1 场的一个数据通道（CC1 或 CC2）
+ */
+class Cea608Decoder {
+    private channel: 1 | 2;
+    private displayed: string[][] = createScreen();
+    private nonDisplayed: string[][] = createScreen();
+    private mode: Cea608Mode = 'pop-on';
+    private rollUpRows: number = 2;
+    private row: number = CEA608_ROWS - 1;
+    private column: number = 0;
+    private textMode: boolean = false; // TR/RTD 之后为文本服务，不是字幕
+    private activeChannel: 1 | 2 = 1; // 之后的字符属于最近一个控制码所在的通道
+    private lastControl: number = -1; // 控制码通常连续发送两次，第二次忽略
+
+    constructor(channel: 1 | 2 = 1) {
+        this.channel = channel;
+    }
+
+    /**
+     * 处理一对字节（已去除奇校验位之前的原始数据）
+     */
+    push(data1: number, data2: number) {
+        const byte1 = data1 & 0x7F;
+        const byte2 = data2 & 0x7F;
+        if (!byte1 && !byte2) {
+            return;
+        }
+        if (byte1 >= 0x10 && byte1 <= 0x1F) {
+            const code = (byte1 << 8) | byte2;
+            if (code === this.lastControl) {
+                this.lastControl = -1;
+                return;
+            }
+            this.lastControl = code;
+            this.activeChannel = byte1 & 0x08 ? 2 : 1;
+            if (this.activeChannel === this.channel) {
+                this.handleControl(byte1 & 0xF7, byte2);
+            }
+            return;
+        }
+        this.lastControl = -1;
+        if (this.activeChannel !== this.channel || this.textMode) {
+            return;
+        }
+        this.writeChar(CEA608_BASIC_CHARS[byte1] ?? String.fromCharCode(byte1));
+        if (byte2 >= 0x20) {
+            this.writeChar(CEA608_BASIC_CHARS[byte2] ?? String.fromCharCode(byte2));
+        }
+    }
+
+    /**
+     * 当前显示的文字，每行去除首尾空白
+     */
+    getText(): string {
+        return screenToText(this.displayed);
+    }
+
+    reset() {
+        this.displayed = createScreen();
+        this.nonDisplayed = createScreen();
+        this.mode = 'pop-on';
+        this.row = CEA608_ROWS - 1;
+        this.column = 0;
+        this.textMode = false;
+        this.lastControl = -1;
+    }
+
+    /**
+     * 处理控制码，byte1 已统一为通道 1 的取值
+     */
+    private handleControl(byte1: number, byte2: number) {
+        if ((byte1 === 0x14 || byte1 === 0x15) && byte2 >= 0x20 && byte2 <= 0x2F) {
+            this.handleMiscControl(byte2);
+        } else if (byte1 === 0x17 && byte2 >= 0x21 && byte2 <= 0x23) {
+            // Tab Offset
+            this.column = Math.min(CEA608_COLUMNS - 1, this.column + byte2 - 0x20);
+        } else if (byte1 === 0x11 && byte2 >= 0x20 && byte2 <= 0x2F) {
+            // Mid-row 样式码占一个空格
+            if (!this.textMode) {
+                this.writeChar(' ');
+            }
+        } else if (byte1 === 0x11 && byte2 >= 0x30 && byte2 <= 0x3F) {
+            if (!this.textMode) {
+                this.writeChar(CEA608_SPECIAL_CHARS[byte2 - 0x30]!);
+            }
+        } else if ((byte1 === 0x12 || byte1 === 0x13) && byte2 >= 0x20 && byte2 <= 0x3F) {
+            if (!this.textMode) {
+                this.column = Math.max(0, this.column - 1);
+                this.writeChar(CEA608_EXTENDED_CHARS[byte1]![byte2 - 0x20]!);
+            }
+        } else if (byte1 <= 0x17 && byte2 >= 0x40) {
+            this.handlePreambleAddress(byte1, byte2);
+        }
+    }
+
+    private handleMiscControl(command: number) {
+        switch (command) {
+            case 0x20: // RCL：弹出式
+                this.mode = 'pop-on';
+                this.textMode = false;
+                break;
+            case 0x21: // BS
+                if (this.column > 0) {
+                    this.column--;
+                    this.getMemory()[this.row]![this.column] = '';
+                }
+                break;
+            case 0x24: // DER：删除到行尾
+                this.getMemory()[this.row]!.fill('', this.column);
+                break;
+            case 0x25: // RU2 / RU3 / RU4：滚动式
+            case 0x26:
+            case 0x27:
+                if (this.mode !== 'roll-up') {
+                    this.displayed = createScreen();
+                    this.nonDisplayed = createScreen();
+                    this.row = CEA608_ROWS - 1;
+                }
+                this.mode = 'roll-up';
+                this.rollUpRows = command - 0x23;
+                this.column = 0;
+                this.textMode = false;
+                break;
+            case 0x29: // RDC：绘制式
+                this.mode = 'paint-on';
+                this.textMode = false;
+                break;
+            case 0x2A: // TR / RTD：文本服务
+            case 0x2B:
+                this.textMode = true;
+                break;
+            case 0x2C: // EDM：清除显示
+                this.displayed = createScreen();
+                break;
+            case 0x2D: // CR：滚动式上移一行
+                if (this.mode === 'roll-up') {
+                    const top = Math.max(0, this.row - this.rollUpRows + 1);
+                    for (let row = 0; row < this.row; row++) {
+                        this.displayed[row] = row >= top ? this.displayed[row + 1]! : new Array<string>(CEA608_COLUMNS).fill('');
+                    }
+                    this.displayed[this.row] = new Array<string>(CEA608_COLUMNS).fill('');
+                }
+                this.column = 0;
+                break;
+            case 0x2E: // ENM：清除后台缓冲
+                this.nonDisplayed = createScreen();
+                break;
+            case 0x2F: // EOC：交换前后台，显示弹出式字幕
+                [this.displayed, this.nonDisplayed] = [this.nonDisplayed, this.displayed];
+                this.mode = 'pop-on';
+                break;
+            default:
+                // AOF / AON / FON 不影响文字
+                break;
+        }
+    }
+
+    /**
+     * PAC：设置光标所在的行和缩进
+     */
+    private handlePreambleAddress(byte1: number, byte2: number) {
+        const baseRow = CEA608_PAC_ROWS[byte1 & 0x07]!;
+        const row = baseRow - 1 + ((byte2 & 0x20) && (byte1 & 0x07) ? 1 : 0);
+        if (this.mode === 'roll-up' && row !== this.row) {
+            // 滚动窗口随基准行移动
+            const screen = createScreen();
+            for (let i = 0; i < this.rollUpRows; i++) {
+                const from = this.row - i;
+                const to = row - i;
+                if (from >= 0 && to >= 0) {
+                    screen[to] = this.displayed[from]!;
+                }
+            }
+            this.displayed = screen;
+        }
+        this.row = row;
+        this.column = byte2 & 0x10 ? ((byte2 & 0x0E) >> 1) * 4 : 0;
+    }
+
+    private getMemory(): string[][] {
+        return this.mode === 'pop-on' ? this.nonDisplayed : this.displayed;
+    }
+
+    private writeChar(char: string) {
+        if (this.column >= CEA608_COLUMNS) {
+            return;
+        }
+        this.getMemory()[this.row]![this.column] = char;
+        this.column++;
+    }
+}
+
+const CEA708_WINDOWS = 8;
+const CEA708_SERVICE = 1;
+
+// G2 字符集中常用的字符，其余忽略
+const CEA708_G2_CHARS: Record<number, string> = {
+    0x20: ' ',
+    0x21: ' ',
+    0x25: '…',
+    0x2A: 'Š',
+    0x2C: 'Œ',
+    0x30: '█',
+    0x31: '‘',
+    0x32: '’',
+    0x33: '“',
+    0x34: '”',
+    0x35: '•',
+    0x39: '™',
+    0x3A: 'š',
+    0x3C: 'œ',
+    0x3D: '℠',
+    0x3F: 'Ÿ',
+    0x76: '⅛',
+    0x77: '⅜',
+    0x78: '⅝',
+    0x79: '⅞',
+    0x7A: '│',
+    0x7B: '┐',
+    0x7C: '└',
+    0x7D: '─',
+    0x7E: '┘',
+    0x7F: '┌',
+};
+
+interface Cea708Window {
+    defined: boolean;
+    visible: boolean;
+    rowCount: number;
+    lines: string[];
+    row: number;
+}
+
+function createWindow(): Cea708Window {
+    return { defined: false, visible: false, rowCount: 1, lines: [''], row: 0 };
+}
+
+/**
+ * CEA-708 DTVCC 的一个服务，只处理文字和窗口的定义、显示、隐藏、清除
+ */
+class Cea708Decoder {
+    private service: number;
+    private packet: number[] = [];
+    private packetSize: number = 0;
+    private windows: Cea708Window[] = Array.from({ length: CEA708_WINDOWS }, createWindow);
+    private current: number = 0;
+
+    constructor(service: number = CEA708_SERVICE) {
+        this.service = service;
+    }
+
+    /**
+     * 处理一组 cc_data
+     * @param type 3: DTVCC 包开始，2: 包数据
+     */
+    push(type: number, data1: number, data2: number) {
+        if (type === 3) {
+            if (this.packet.length) {
+                this.processPacket();
+            }
+            // packet_size_code 为 0 时包长 128 字节（含包头）
+            const sizeCode = data1 & 0x3F;
+            this.packetSize = (sizeCode === 0 ? 128 : sizeCode * 2) - 1;
+            this.packet = [data2];
+        } else if (this.packetSize) {
+            this.packet.push(data1, data2);
+        }
+        if (this.packetSize && this.packet.length >= this.packetSize) {
+            this.processPacket();
+        }
+    }
+
+    /**
+     * 当前显示的文字：所有可见窗口的内容
+     */
+    getText(): string {
+        return this.windows
+            .filter((window) => window.defined && window.visible)
+            .flatMap((window) => window.lines.map((line) => line.trim()).filter(Boolean))
+            .join('\n');
+    }
+
+    reset() {
+        this.packet = [];
+        this.packetSize = 0;
+        this.windows = Array.from({ length: CEA708_WINDOWS }, createWindow);
+        this.current = 0;
+    }
+
+    /**
+     * 按服务块拆分 DTVCC 包，只处理指定的服务
+     */
+    private processPacket() {
+        const data = this.packet.slice(0, this.packetSize);
+        this.packet = [];
+        this.packetSize = 0;
+        let offset = 0;
+        while (offset < data.length) {
+            const header = data[offset++]!;
+            let service = header >> 5;
+            const blockSize = header & 0x1F;
+            if (service === 0) {
+                break; // 空服务块，之后为填充
+            }
+            if (service === 7) {
+                service = (data[offset++] ?? 0) & 0x3F; // 扩展服务号
+            }
+            if (service === this.service) {
+                this.processBlock(data.slice(offset, offset + blockSize));
+            }
+            offset += blockSize;
+        }
+    }
+
+    private processBlock(block: number[]) {
+        let i = 0;
+        while (i < block.length) {
+            const code = block[i++]!;
+            if (code < 0x20) {
+                i += this.handleC0(code, block, i);
+            } else if (code < 0x80) {
+                this.writeText(code === 0x7F ? '♪' : String.fromCharCode(code));
+            } else if (code < 0xA0) {
+                i += this.handleC1(code, block, i);
+            } else {
+                this.writeText(String.fromCharCode(code)); // G1：Latin-1
+            }
+        }
+    }
+
+    /**
+     * C0 控制码
+     * @returns 使用的参数字节数
+     */
+    private handleC0(code: number, block: number[], offset: number): number {
+        const window = this.windows[this.current]!;
+        switch (code) {
+            case 0x08: // BS
+                window.lines[window.row] = (window.lines[window.row] ?? '').slice(0, -1);
+                return 0;
+            case 0x0C: // FF：清除当前窗口
+                window.lines = [''];
+                window.row = 0;
+                return 0;
+            case 0x0D: // CR：换行，超过窗口行数时上滚
+                window.row++;
+                window.lines[window.row] = '';
+                if (window.lines.length > window.rowCount) {
+                    window.lines.splice(0, window.lines.length - window.rowCount);
+                    window.row = window.lines.length - 1;
+                }
+                return 0;
+            case 0x0E: // HCR：清除当前行
+                window.lines[window.row] = '';
+                return 0;
+            case 0x10: // EXT1：扩展字符集
+                return 1 + this.handleExtended(block[offset] ?? 0);
+            default:
+                // 0x11 ~ 0x17 带 1 个参数，0x18 ~ 0x1F 带 2 个参数
+                return code >= 0x18 ? 2 : code >= 0x11 ? 1 : 0;
+        }
+    }
+
+    /**
+     * EXT1 之后的 C2/G2/C3/G3
+     * @returns 使用的参数字节数（不含扩展码本身）
+     */
+    private handleExtended(code: number): number {
+        if (code < 0x20) {
+            return code < 0x08 ? 0 : code < 0x10 ? 1 : code < 0x18 ? 2 : 3;
+        }
+        if (code < 0x80) {
+            const char = CEA708_G2_CHARS[code];
+            if (char) {
+                this.writeText(char);
+            }
+            return 0;
+        }
+        if (code < 0xA0) {
+            return code < 0x88 ? 4 : code < 0x90 ? 5 : 0;
+        }
+        if (code === 0xA0) {
+            this.writeText('[CC]');
+        }
+        return 0;
+    }
+
+    /**
+     * C1 窗口和画笔命令
+     * @returns 使用的参数字节数
+     */
+    private handleC1(code: number, block: number[], offset: number): number {
+        if (code <= 0x87) { // CWx：设置当前窗口
+            this.current = code - 0x80;
+            return 0;
+        }
+        if (code >= 0x98) { // DFx：定义窗口并设为当前窗口
+            const index = code - 0x98;
+            const window = this.windows[index]!;
+            if (!window.defined) {
+                window.lines = [''];
+                window.row = 0;
+            }
+            window.defined = true;
+            window.visible = !!((block[offset] ?? 0) & 0x20);
+            window.rowCount = ((block[offset + 3] ?? 0) & 0x0F) + 1;
+            this.current = index;
+            return 6;
+        }
+        const bitmap = block[offset] ?? 0;
+        const forEachWindow = (callback: (window: Cea708Window) => void) => {
+            this.windows.forEach((window, index) => {
+                if (bitmap & (1 << index)) {
+                    callback(window);
+                }
+            });
+        };
+        switch (code) {
+            case 0x88: // CLW
+                forEachWindow((window) => {
+                    window.lines = [''];
+                    window.row = 0;
+                });
+                return 1;
+            case 0x89: // DSW
+                forEachWindow((window) => window.visible = true);
+                return 1;
+            case 0x8A: // HDW
+                forEachWindow((window) => window.visible = false);
+                return 1;
+            case 0x8B: // TGW
+                forEachWindow((window) => window.visible = !window.visible);
+                return 1;
+            case 0x8C: // DLW
+                forEachWindow((window) => Object.assign(window, createWindow()));
+                return 1;
+            case 0x8D: // DLY
+                return 1;
+            case 0x8F: // RST
+                this.windows = Array.from({ length: CEA708_WINDOWS }, createWindow);
+                return 0;
+            case 0x90: // SPA
+                return 2;
+            case 0x91: // SPC
+                return 3;
+            case 0x92: { // SPL：设置画笔所在行
+                const window = this.windows[this.current]!;
+                window.row = Math.min(bitmap & 0x0F, window.rowCount - 1);
+                while (window.lines.length <= window.row) {
+                    window.lines.push('');
+                }
+                return 2;
+            }
+            case 0x97: // SWA
+                return 4;
+            default:
+                // DLC 和保留的命令没有参数
+                return 0;
+        }
+    }
+
+    private writeText(text: string) {
+        const window = this.windows[this.current]!;
+        window.lines[window.row] = (window.lines[window.row] ?? '') + text;
+    }
+}
+
+/**
+ * 字幕解码：按显示顺序送入每帧的 cc_data，CEA-708 有内容时优先显示，否则显示 CEA-608 CC1
+ */
+export class CaptionDecoder {
+    private cea608: Cea608Decoder = new Cea608Decoder(1);
+    private cea708: Cea708Decoder = new Cea708Decoder(CEA708_SERVICE);
+    private onCue?: (cue: CaptionCue) => void;
+    private text: string = '';
+    private textSource: CaptionSource = 'cea608';
+    private textStart: number = 0;
+
+    constructor(options: CaptionDecoderOptions = {}) {
+        this.onCue = options.onCue;
+    }
+
+    /**
+     * 送入一帧的 cc_data
+     * @param ccData 该帧 SEI 中的字幕数据
+     * @param timestamp 该帧的 pts（微秒）
+     * @returns 显示的文字是否变化
+     */
+    push(ccData: CcData[], timestamp: number): boolean {
+        for (const { type, data1, data2 } of ccData) {
+            if (type === 0) {
+                this.cea608.push(data1, data2);
+            } else if (type >= 2) {
+                this.cea708.push(type, data1, data2);
+            }
+            // type 1（第 2 场，CC3/CC4）不处理
+        }
+        const cea708Text = this.cea708.getText();
+        const text = cea708Text || this.cea608.getText();
+        return this.update(text, cea708Text ? 'cea708' : 'cea608', timestamp);
+    }
+
+    /**
+     * 送入一帧的 SEI，取出其中 user_data_registered 携带的 cc_data
+     * @returns 显示的文字是否变化
+     */
+    pushSei(event: SeiEvent): boolean {
+        const ccData = event.messages.flatMap((message) => message.type === 'user_data_registered' ? message.ccData ?? [] : []);
+        return ccData.length > 0 && this.push(ccData, event.timestamp);
+    }
+
+    /**
+     * 当前显示的文字，没有字幕时为空字符串
+     */
+    getText(): string {
+        return this.text;
+    }
+
+    /**
+     * 清空解码状态（seek 后从新位置重新开始），正在显示的字幕在 timestamp 处结束
+     * @param timestamp 结束时间（微秒），不传时不输出正在显示的字幕
+     */
+    reset(timestamp?: number) {
+        this.cea608.reset();
+        this.cea708.reset();
+        if (timestamp !== undefined) {
+            this.update('', this.textSource, timestamp);
+        } else {
+            this.text = '';
+        }
+    }
+
+    private update(text: string, source: CaptionSource, timestamp: number): boolean {
+        if (text === this.text) {
+            return false;
+        }
+        if (this.text && timestamp > this.textStart) {
+            this.onCue?.({ start: this.textStart, end: timestamp, text: this.text, source: this.textSource });
+        }
+        this.text = text;
+        this.textSource = source;
+        this.textStart = timestamp;
+        return true;
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * 片段导出：用 libmedia 的 avformat 封装器把解封装得到的数据包原样重新封装为 MP4 或 TS，不重新编码
+ * @author guo xiao
+ */
+
+import * as mux from '@libmedia/avformat/mux';
+import { createAVOFormatContext, type AVOFormatContext } from '@libmedia/avformat/AVFormatContext';
+import OIsobmffFormat from '@libmedia/avformat/formats/OIsobmffFormat';
+import OMpegtsFormat from '@libmedia/avformat/formats/OMpegtsFormat';
+import IOWriterSync from '@libmedia/common/io/IOWriterSync';
+import type AVStream from '@libmedia/avutil/AVStream';
+import AVCodecParameters from '@libmedia/avutil/struct/avcodecparameters';
+import AVPacket from '@libmedia/avutil/struct/avpacket';
+import type { Rational } from '@libmedia/avutil/struct/rational';
+import { AV_TIME_BASE_Q, NOPTS_VALUE_BIGINT } from '@libmedia/avutil/constant';
+import { avRescaleQ } from '@libmedia/avutil/util/rational';
+import { createAVPacket } from '@libmedia/avutil/util/avpacket';
+import { copyCodecParameters } from '@libmedia/avutil/util/codecparameters';
+import { avMalloc, avFree } from '@libmedia/avutil/util/mem';
+import structAccess from '@libmedia/cheap/std/structAccess';
+import { memcpyFromUint8Array } from '@libmedia/cheap/std/memory';
+import { addressOfCodecParameters } from './struct-address';
+
+// cheap 的指针类型（pointer<T>）是全局声明，这里从 libmedia 函数签名中取出
+type AVPacketPointer = ReturnType<typeof createAVPacket>;
+type DataPointer = Parameters<typeof avFree>[0];
+
+export type ClipFormat = 'mp4' | 'ts';
+
+const CLIP_MIME_TYPES: Record<ClipFormat, string> = {
+    mp4: 'video/mp4',
+    ts: 'video/mp2t',
+};
+
+const INITIAL_BUFFER_SIZE = 4 * 1024 * 1024;
+
+/**
+ * 内存中的输出文件，支持封装器 seek 回去改写已写出的数据（例如 MP4 的 mdat 大小）
+ */
+class MemoryOutput {
+    private buffer: Uint8Array<ArrayBuffer> = new Uint8Array(INITIAL_BUFFER_SIZE);
+    private length: number = 0;
+    private pos: number = 0;
+
+    write(data: Uint8Array) {
+        const end = this.pos + data.length;
+        if (end > this.buffer.length) {
+            let size = this.buffer.length;
+            while (size < end) {
+                size *= 2;
+            }
+            const buffer = new Uint8Array(size);
+            buffer.set(this.buffer.subarray(0, this.length));
+            this.buffer = buffer;
+        }
+        this.buffer.set(data, this.pos);
+        this.pos = end;
+        this.length = Math.max(this.length, end);
+    }
+
+    seek(pos: number) {
+        this.pos = pos;
+    }
+
+    toBlob(type: string): Blob {
+        return new Blob([this.buffer.subarray(0, this.length)], { type });
+    }
+}
+
+export class ClipMuxer {
+    private format: ClipFormat;
+    private context: AVOFormatContext;
+    private output: MemoryOutput = new MemoryOutput();
+    // 输入流 index -> 输出流
+    private streams: Map<number, AVStream> = new Map();
+    private opened: boolean = false;
+
+    constructor(format: ClipFormat) {
+        this.format = format;
+        this.context = createAVOFormatContext();
+        this.context.oformat = format === 'mp4' ? new OIsobmffFormat() : new OMpegtsFormat();
+        const ioWriter = new IOWriterSync();
+        ioWriter.onFlush = (data: Uint8Array, pos?: bigint) => {
+            if (pos !== undefined) {
+                this.output.seek(Number(pos));
+            }
+            this.output.write(data);
+            return 0;
+        };
+        ioWriter.onSeek = (pos: bigint) => {
+            this.output.seek(Number(pos));
+            return 0;
+        };
+        this.context.ioWriter = ioWriter;
+    }
+
+    /**
+     * 添加一路输出流，参数从输入流复制
+     * @param inputIndex 输入流的 index，写入数据包时据此找到输出流
+     * @param codecpar 输入流的参数
+     * @param timeBase 输入流的时间基，写入的数据包时间戳使用同一时间基
+     * @param extradata 输入流参数中没有 extradata 时使用（例如从关键帧中提取的 avcC/hvcC）
+     */
+    addStream(inputIndex: number, codecpar: AVCodecParameters, timeBase: Rational, extradata?: Uint8Array) {
+        const stream = this.context.createStream();
+        const parameters = addressOfCodecParameters(stream.codecpar);
+        copyCodecParameters(parameters, addressOfCodecParameters(codecpar));
+        if (extradata && extradata.length && !(stream.codecpar.extradata && stream.codecpar.extradataSize > 0)) {
+            const target = structAccess(parameters, AVCodecParameters);
+            const data = avMalloc(extradata.length) as DataPointer;
+            memcpyFromUint8Array(data, extradata.length, extradata);
+            target.extradata = data;
+            target.extradataSize = extradata.length;
+        }
+        stream.timeBase.num = timeBase.num;
+        stream.timeBase.den = timeBase.den;
+        this.streams.set(inputIndex, stream);
+    }
+
+    /**
+     * 打开封装器并写入文件头，所有流添加完之后调用
+     */
+    open() {
+        let ret = mux.open(this.context);
+        if (ret < 0) {
+            throw new Error(`无法封装为 ${this.format.toUpperCase()}（编码格式不受支持），错误码: ${ret}`);
+        }
+        ret = mux.writeHeader(this.context);
+        if (ret < 0) {
+            throw new Error(`写入 ${this.format.toUpperCase()} 文件头失败，错误码: ${ret}`);
+        }
+        this.opened = true;
+    }
+
+    /**
+     * 写入一个数据包，时间戳减去偏移后写入，数据包的 streamIndex 会被改为输出流的 index
+     * @param avpacket 解封装得到的数据包
+     * @param offsetUs 时间戳偏移（微秒），所有流减去同一偏移，使片段从 0 开始且音视频保持同步
+     * @returns 没有对应的输出流时返回 false
+     */
+    writePacket(avpacket: AVPacketPointer, offsetUs: number = 0): boolean {
+        const packet = structAccess(avpacket, AVPacket);
+        const stream = this.streams.get(packet.streamIndex);
+        if (!stream || !this.opened) {
+            return false;
+        }
+        const offset = avRescaleQ(BigInt(Math.round(offsetUs)), AV_TIME_BASE_Q, stream.timeBase);
+        packet.streamIndex = stream.index;
+        if (packet.pts !== NOPTS_VALUE_BIGINT) {
+            packet.pts -= offset;
+        }
+        if (packet.dts !== NOPTS_VALUE_BIGINT) {
+            packet.dts -= offset;
+        }
+        const ret = mux.writeAVPacket(this.context, avpacket);
+        if (ret < 0) {
+            console.warn(`[ClipMuxer] Failed to write packet, ret: ${ret}`);
+        }
+        return true;
+    }
+
+    /**
+     * 写入文件尾并输出完整文件
+     */
+    finish(): Blob {
+        if (!this.opened) {
+            throw new Error('封装器尚未打开');
+        }
+        mux.writeTrailer(this.context);
+        mux.flush(this.context);
+        this.opened = false;
+        return this.output.toBlob(CLIP_MIME_TYPES[this.format]);
+    }
+
+    destroy() {
+        this.opened = false;
+        this.streams.clear();
+        this.context.destroy();
+    }
+}
@@ -1,153 +1,427 @@
+import { parseH264Sps, parseHevcSps, parseHevcPps } from './parameter-sets';
+
+// 转换后每个 NAL 单元前的长度字段字节数，与 record 中的 lengthSizeMinusOne = 3 对应
+const NAL_LENGTH_SIZE = 4;
+
+// 这些 profile 的 avcC 末尾还要写入 chroma_format、bit_depth 和 SPS 扩展（ISO/IEC 14496-15 5.3.3.1.2）
+const AVC_HIGH_PROFILES = [100, 110, 122, 144];
+
 /**
- * 从 H.264 关键帧中提取 SPS/PPS 参数集，构建 WebCodecs description
- * @param data 视频帧数据
- * @returns description 数据，如果提取失败返回 undefined
+ * 数据包中 NAL 单元的封装格式：Annex-B 起始码（TS、裸流）或 4 字节长度前缀（MP4/FLV/MKV）
  */
-export function extractH264Description(data: Uint8Array): Uint8Array | undefined {
-  const nalUnits: Uint8Array[] = [];
-  let i = 0;
+export type NalFormat = 'annexb' | 'length-prefixed';
 
-  // 查找所有 NAL 单元
-  while (i < data.length - 4) {
-    let nalStart = -1;
-
-    // 检查 4 字节起始码
-    if (data[i] === 0x00 && data[i + 1] === 0x00 && data[i + 2] === 0x00 && data[i + 3] === 0x01) {
-      nalStart = i + 4;
-    }
-    // 检查 3 字节起始码
-    else if (data[i] === 0x00 && data[i + 1] === 0x00 && data[i + 2] === 0x01) {
-      nalStart = i + 3;
+/**
+ * 去除 NAL 单元中的防竞争字节（0x000003 中的 0x03）
+ * @param data NAL 单元数据
+ */
+export function removeEmulationPrevention(data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(data.length);
+  let length = 0;
+  let zeroCount = 0;
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i]!;
+    if (zeroCount >= 2 && byte === 0x03) {
+      zeroCount = 0;
+      continue;
     }
+    result[length++] = byte;
+    zeroCount = byte === 0x00 ? zeroCount + 1 : 0;
+  }
+  return result.subarray(0, length);
+}
 
-    if (nalStart >= 0) {
-      // 找到下一个起始码
-      let nalEnd = data.length;
-      for (let j = nalStart; j < data.length - 3; j++) {
-        if ((data[j] === 0x00 && data[j + 1] === 0x00 && data[j + 2] === 0x01) ||
-            (data[j] === 0x00 && data[j + 1] === 0x00 && data[j + 2] === 0x00 && data[j + 3] === 0x01)) {
-          nalEnd = j;
-          break;
-        }
-      }
-
-      if (nalStart >= 0 && nalStart < nalEnd && nalStart < data.length) {
-        const nalByte = data[nalStart];
-        if (nalByte !== undefined) {
-          // H.264 NAL 类型在第一个字节的低 5 位
-          const nalType = nalByte & 0x1F;
-          // SPS (7), PPS (8)
-          if (nalType === 7 || nalType === 8) {
-            const nalData = data.subarray(nalStart, nalEnd);
-            nalUnits.push(nalData);
-          }
+/**
+ * 从 Annex-B 码流中按起始码切分出所有 NAL 单元（不含起始码）
+ * @param data Annex-B 数据
+ */
+export function splitAnnexBNalUnits(data: Uint8Array): Uint8Array[] {
+  const nalUnits: Uint8Array[] = [];
+  let nalStart = -1;
+  let i = 0;
+  while (i + 2 < data.length) {
+    if (data[i] === 0x00 && data[i + 1] === 0x00 && data[i + 2] === 0x01) {
+      if (nalStart >= 0) {
+        // 4 字节起始码的前导 0 不属于上一个 NAL
+        let nalEnd = i;
+        while (nalEnd > nalStart && data[nalEnd - 1] === 0x00) {
+          nalEnd--;
         }
+        nalUnits.push(data.subarray(nalStart, nalEnd));
       }
-
-      i = nalStart;
+      i += 3;
+      nalStart = i;
     } else {
       i++;
     }
   }
+  if (nalStart >= 0 && nalStart < data.length) {
+    nalUnits.push(data.subarray(nalStart));
+  }
+  return nalUnits;
+}
+
+/**
+ * 拆分一帧中的 NAL 单元，支持 Annex-B（TS）和 4 字节长度前缀（MP4/FLV）两种格式
+ * @param data 视频数据
+ * @param format 流的 NAL 格式，未知时根据数据判断
+ */
+export function splitNalUnits(data: Uint8Array, format?: NalFormat): Uint8Array[] {
+  if (format ? format === 'annexb' : isAnnexB(data)) {
+    return splitAnnexBNalUnits(data);
+  }
+  const nalUnits: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + NAL_LENGTH_SIZE <= data.length) {
+    const size = readNalLength(data, offset);
+    offset += NAL_LENGTH_SIZE;
+    if (!size || offset + size > data.length) {
+      break;
+    }
+    nalUnits.push(data.subarray(offset, offset + size));
+    offset += size;
+  }
+  return nalUnits;
+}
 
-  if (nalUnits.length === 0) {
+function readNalLength(data: Uint8Array, offset: number): number {
+  return ((data[offset]! << 24) | (data[offset + 1]! << 16) | (data[offset + 2]! << 8) | data[offset + 3]!) >>> 0;
+}
+
+/**
+ * 判断数据是否能按 4 字节长度前缀完整切分：每个长度都不为 0，且最后一个 NAL 单元恰好结束在数据末尾
+ * @param data 视频数据
+ */
+export function isLengthPrefixed(data: Uint8Array): boolean {
+  let offset = 0;
+  while (offset + NAL_LENGTH_SIZE <= data.length) {
+    const size = readNalLength(data, offset);
+    offset += NAL_LENGTH_SIZE + size;
+    if (!size || offset > data.length) {
+      return false;
+    }
+  }
+  return offset > 0 && offset === data.length;
+}
+
+/**
+ * 判断数据是否为 Annex-B 格式（以 3 字节或 4 字节起始码开头）
+ * 00 00 01 xx 同时也是合法的长度前缀（长度 256~511），能按长度前缀完整切分的数据不视为 Annex-B
+ * 仅在流的 NAL 格式未知时使用，已知格式时应使用 getNalFormat 的结果
+ * @param data 视频数据
+ */
+export function isAnnexB(data: Uint8Array): boolean {
+  if (data.length < 4 || data[0] !== 0x00 || data[1] !== 0x00) {
+    return false;
+  }
+  if (data[2] !== 0x01 && !(data[2] === 0x00 && data[3] === 0x01)) {
+    return false;
+  }
+  return !isLengthPrefixed(data);
+}
+
+/**
+ * 根据流的 extradata 确定数据包的 NAL 格式：avcC/hvcC 对应长度前缀，Annex-B 参数集对应 Annex-B
+ * @param extradata 解封装得到的 extradata
+ * @returns NAL 格式，无法确定时返回 undefined
+ */
+export function getNalFormat(extradata: Uint8Array | undefined): NalFormat | undefined {
+  if (!extradata?.length) {
     return undefined;
   }
+  // configurationVersion 固定为 1
+  if (extradata[0] === 0x01) {
+    return 'length-prefixed';
+  }
+  return isAnnexB(extradata) ? 'annexb' : undefined;
+}
 
-  // 构建 description：每个 NAL 单元前加上长度（2 字节，big-endian）
+/**
+ * 将 Annex-B 数据的起始码替换为 4 字节 big-endian 长度前缀（avcC/hvcC 格式）
+ * @param data Annex-B 数据
+ */
+export function annexBToLengthPrefixed(data: Uint8Array): Uint8Array {
+  const nalUnits = splitAnnexBNalUnits(data).filter((nal) => nal.length > 0);
   let totalLength = 0;
   for (const nal of nalUnits) {
-    totalLength += 2 + nal.length;
+    totalLength += NAL_LENGTH_SIZE + nal.length;
   }
 
-  const description = new Uint8Array(totalLength);
+  const result = new Uint8Array(totalLength);
+  const view = new DataView(result.buffer);
   let offset = 0;
   for (const nal of nalUnits) {
-    // 写入长度（2 字节，big-endian）
-    description[offset] = (nal.length >> 8) & 0xFF;
-    description[offset + 1] = nal.length & 0xFF;
-    offset += 2;
-    // 写入 NAL 单元数据
-    description.set(nal, offset);
+    view.setUint32(offset, nal.length);
+    offset += NAL_LENGTH_SIZE;
+    result.set(nal, offset);
     offset += nal.length;
   }
+  return result;
+}
 
-  return description;
+/**
+ * 写入 NAL 列表：每个 NAL 单元前加 2 字节 big-endian 长度
+ */
+function writeNalUnits(target: Uint8Array, offset: number, nalUnits: Uint8Array[]): number {
+  for (const nal of nalUnits) {
+    target[offset++] = (nal.length >> 8) & 0xFF;
+    target[offset++] = nal.length & 0xFF;
+    target.set(nal, offset);
+    offset += nal.length;
+  }
+  return offset;
 }
 
 /**
- * 从 H.265 关键帧中提取 VPS/SPS/PPS 参数集，构建 WebCodecs description
- * @param data 视频帧数据
- * @returns description 数据，如果提取失败返回 undefined
+ * 构建 AVCDecoderConfigurationRecord（ISO/IEC 14496-15 5.3.3.1）
+ * @param spsList SPS NAL 单元（不含起始码）
+ * @param ppsList PPS NAL 单元（不含起始码）
  */
-export function extractH265Description(data: Uint8Array): Uint8Array | undefined {
-  const nalUnits: Uint8Array[] = [];
-  let i = 0;
+export function buildAvcDecoderConfigurationRecord(spsList: Uint8Array[], ppsList: Uint8Array[]): Uint8Array {
+  const sps = spsList[0];
+  if (!sps || sps.length < 4) {
+    throw new Error('AVCDecoderConfigurationRecord requires at least one SPS');
+  }
 
-  // 查找所有 NAL 单元
-  while (i < data.length - 4) {
-    let nalStart = -1;
+  const profileIdc = sps[1]!;
+  const hasHighProfileFields = AVC_HIGH_PROFILES.includes(profileIdc);
+  let size = hasHighProfileFields ? 11 : 7;
+  spsList.forEach((nal) => size += 2 + nal.length);
+  ppsList.forEach((nal) => size += 2 + nal.length);
 
-    // 检查 4 字节起始码
-    if (data[i] === 0x00 && data[i + 1] === 0x00 && data[i + 2] === 0x00 && data[i + 3] === 0x01) {
-      nalStart = i + 4;
+  const record = new Uint8Array(size);
+  record[0] = 0x01; // configurationVersion
+  record[1] = profileIdc; // AVCProfileIndication
+  record[2] = sps[2]!; // profile_compatibility
+  record[3] = sps[3]!; // AVCLevelIndication
+  record[4] = 0xFC | (NAL_LENGTH_SIZE - 1); // reserved(6) + lengthSizeMinusOne(2)
+  record[5] = 0xE0 | (spsList.length & 0x1F); // reserved(3) + numOfSequenceParameterSets(5)
+  let offset = writeNalUnits(record, 6, spsList);
+  record[offset++] = ppsList.length & 0xFF; // numOfPictureParameterSets
+  offset = writeNalUnits(record, offset, ppsList);
+
+  if (hasHighProfileFields) {
+    // SPS 解析失败时按 8bit 4:2:0 写入
+    let chromaFormatIdc = 1;
+    let bitDepthLuma = 8;
+    let bitDepthChroma = 8;
+    try {
+      ({ chromaFormatIdc, bitDepthLuma, bitDepthChroma } = parseH264Sps(sps));
+    } catch (error) {
+      console.warn('[codec-description] Failed to parse SPS for avcC:', error);
     }
-    // 检查 3 字节起始码
-    else if (data[i] === 0x00 && data[i + 1] === 0x00 && data[i + 2] === 0x01) {
-      nalStart = i + 3;
+    record[offset++] = 0xFC | (chromaFormatIdc & 0x03); // reserved(6) + chroma_format(2)
+    record[offset++] = 0xF8 | ((bitDepthLuma - 8) & 0x07); // reserved(5) + bit_depth_luma_minus8(3)
+    record[offset++] = 0xF8 | ((bitDepthChroma - 8) & 0x07); // reserved(5) + bit_depth_chroma_minus8(3)
+    record[offset++] = 0x00; // numOfSequenceParameterSetExt
+  }
+  return record;
+}
+
+/**
+ * 构建 HEVCDecoderConfigurationRecord（ISO/IEC 14496-15 8.3.3.1）
+ * @param vpsList VPS NAL 单元（不含起始码）
+ * @param spsList SPS NAL 单元（不含起始码）
+ * @param ppsList PPS NAL 单元（不含起始码）
+ */
+export function buildHevcDecoderConfigurationRecord(vpsList: Uint8Array[], spsList: Uint8Array[], ppsList: Uint8Array[]): Uint8Array {
+  const sps = spsList[0] && removeEmulationPrevention(spsList[0]);
+  if (!sps || sps.length < 15) {
+    throw new Error('HEVCDecoderConfigurationRecord requires at least one SPS');
+  }
+
+  // SPS: NAL 头(2) + sps_video_parameter_set_id(4) / sps_max_sub_layers_minus1(3) / sps_temporal_id_nesting_flag(1)
+  const numTemporalLayers = ((sps[2]! >> 1) & 0x07) + 1;
+  const temporalIdNested = sps[2]! & 0x01;
+  // 紧接着是 profile_tier_level 的 12 字节 general 字段
+  const profileTierLevel = sps.subarray(3, 15);
+
+  // chroma_format_idc、bit_depth、min_spatial_segmentation_idc 来自 SPS，parallelismType 来自 PPS，解析失败时按 8bit 4:2:0 写入
+  let chromaFormatIdc = 1;
+  let bitDepthLuma = 8;
+  let bitDepthChroma = 8;
+  let minSpatialSegmentationIdc = 0;
+  let parallelismType = 0;
+  try {
+    const parsedSps = parseHevcSps(spsList[0]!);
+    chromaFormatIdc = parsedSps.chromaFormatIdc;
+    bitDepthLuma = parsedSps.bitDepthLuma;
+    bitDepthChroma = parsedSps.bitDepthChroma;
+    minSpatialSegmentationIdc = Math.min(parsedSps.vui?.minSpatialSegmentationIdc ?? 0, 0xFFF);
+  } catch (error) {
+    console.warn('[codec-description] Failed to parse SPS for hvcC:', error);
+  }
+  // 没有给出 min_spatial_segmentation_idc 时 parallelismType 只能为 0（未知）
+  if (minSpatialSegmentationIdc && ppsList[0]) {
+    try {
+      const { tilesEnabled, entropyCodingSyncEnabled } = parseHevcPps(ppsList[0]);
+      // 1: slice，2: tile，3: wavefront，两者同时开启为 0（混合）
+      parallelismType = tilesEnabled && entropyCodingSyncEnabled ? 0 : entropyCodingSyncEnabled ? 3 : tilesEnabled ? 2 : 1;
+    } catch (error) {
+      console.warn('[codec-description] Failed to parse PPS for hvcC:', error);
     }
+  }
 
-    if (nalStart >= 0) {
-      // 找到下一个起始码
-      let nalEnd = data.length;
-      for (let j = nalStart; j < data.length - 3; j++) {
-        if ((data[j] === 0x00 && data[j + 1] === 0x00 && data[j + 2] === 0x01) ||
-            (data[j] === 0x00 && data[j + 1] === 0x00 && data[j + 2] === 0x00 && data[j + 3] === 0x01)) {
-          nalEnd = j;
-          break;
-        }
-      }
+  const arrays: [number, Uint8Array[]][] = [[32, vpsList], [33, spsList], [34, ppsList]];
+  const nonEmptyArrays = arrays.filter(([, nalUnits]) => nalUnits.length > 0);
 
-      if (nalStart >= 0 && nalStart < nalEnd && nalStart < data.length) {
-        const nalByte = data[nalStart];
-        if (nalByte !== undefined) {
-          const nalType = (nalByte >> 1) & 0x3F;
-          // VPS (32), SPS (33), PPS (34)
-          if (nalType >= 32 && nalType <= 34) {
-            const nalData = data.subarray(nalStart, nalEnd);
-            nalUnits.push(nalData);
-          }
-        }
-      }
+  let size = 23;
+  nonEmptyArrays.forEach(([, nalUnits]) => {
+    size += 3;
+    nalUnits.forEach((nal) => size += 2 + nal.length);
+  });
 
-      i = nalStart;
-    } else {
-      i++;
+  const record = new Uint8Array(size);
+  record[0] = 0x01; // configurationVersion
+  record.set(profileTierLevel, 1); // general_profile_space/tier/profile_idc、compatibility_flags、constraint_indicator_flags、level_idc
+  record[13] = 0xF0 | (minSpatialSegmentationIdc >> 8); // reserved(4) + min_spatial_segmentation_idc(12)
+  record[14] = minSpatialSegmentationIdc & 0xFF;
+  record[15] = 0xFC | parallelismType; // reserved(6) + parallelismType(2)
+  record[16] = 0xFC | (chromaFormatIdc & 0x03); // reserved(6) + chromaFormat(2)
+  record[17] = 0xF8 | ((bitDepthLuma - 8) & 0x07); // reserved(5) + bitDepthLumaMinus8(3)
+  record[18] = 0xF8 | ((bitDepthChroma - 8) & 0x07); // reserved(5) + bitDepthChromaMinus8(3)
+  record[19] = 0x00; // avgFrameRate = 0（未指定）
+  record[20] = 0x00;
+  // constantFrameRate(2) + numTemporalLayers(3) + temporalIdNested(1) + lengthSizeMinusOne(2)
+  record[21] = (numTemporalLayers << 3) | (temporalIdNested << 2) | (NAL_LENGTH_SIZE - 1);
+  record[22] = nonEmptyArrays.length; // numOfArrays
+
+  let offset = 23;
+  for (const [nalType, nalUnits] of nonEmptyArrays) {
+    // array_completeness = 0：码流中可能还带有参数集（hev1）
+    record[offset++] = nalType & 0x3F;
+    record[offset++] = (nalUnits.length >> 8) & 0xFF;
+    record[offset++] = nalUnits.length & 0xFF;
+    offset = writeNalUnits(record, offset, nalUnits);
+  }
+  return record;
+}
+
+/**
+ * 从 H.264 关键帧中提取 SPS/PPS 参数集，构建 WebCodecs description（avcC）
+ * @param data 视频帧数据（Annex-B 或长度前缀格式）
+ * @param format 流的 NAL 格式，未知时根据数据判断
+ * @returns description 数据，如果提取失败返回 undefined
+ */
+export function extractH264Description(data: Uint8Array, format?: NalFormat): Uint8Array | undefined {
+  const spsList: Uint8Array[] = [];
+  const ppsList: Uint8Array[] = [];
+
+  for (const nal of splitNalUnits(data, format)) {
+    if (!nal.length) {
+      continue;
+    }
+    // H.264 NAL 类型在第一个字节的低 5 位：SPS (7), PPS (8)
+    const nalType = nal[0]! & 0x1F;
+    if (nalType === 7) {
+      spsList.push(nal);
+    } else if (nalType === 8) {
+      ppsList.push(nal);
     }
   }
 
-  if (nalUnits.length === 0) {
+  if (!spsList.length || !ppsList.length) {
     return undefined;
   }
+  return buildAvcDecoderConfigurationRecord(spsList, ppsList);
+}
 
-  // 构建 description：每个 NAL 单元前加上长度（2 字节，big-endian）
-  let totalLength = 0;
-  for (const nal of nalUnits) {
-    totalLength += 2 + nal.length;
+/**
+ * 从 H.265 关键帧中提取 VPS/SPS/PPS 参数集，构建 WebCodecs description（hvcC）
+ * @param data 视频帧数据（Annex-B 或长度前缀格式）
+ * @param format 流的 NAL 格式，未知时根据数据判断
+ * @returns description 数据，如果提取失败返回 undefined
+ */
+export function extractH265Description(data: Uint8Array, format?: NalFormat): Uint8Array | undefined {
+  const vpsList: Uint8Array[] = [];
+  const spsList: Uint8Array[] = [];
+  const ppsList: Uint8Array[] = [];
+
+  for (const nal of splitNalUnits(data, format)) {
+    if (nal.length < 2) {
+      continue;
+    }
+    // H.265 NAL 类型在第一个字节的第 1~6 位：VPS (32), SPS (33), PPS (34)
+    const nalType = (nal[0]! >> 1) & 0x3F;
+    if (nalType === 32) {
+      vpsList.push(nal);
+    } else if (nalType === 33) {
+      spsList.push(nal);
+    } else if (nalType === 34) {
+      ppsList.push(nal);
+    }
   }
 
-  const description = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const nal of nalUnits) {
-    // 写入长度（2 字节，big-endian）
-    description[offset] = (nal.length >> 8) & 0xFF;
-    description[offset + 1] = nal.length & 0xFF;
-    offset += 2;
-    // 写入 NAL 单元数据
-    description.set(nal, offset);
-    offset += nal.length;
+  if (!spsList.length || !ppsList.length) {
+    return undefined;
   }
+  return buildHevcDecoderConfigurationRecord(vpsList, spsList, ppsList);
+}
 
-  return description;
+/**
+ * 将解封装得到的 extradata 统一为 avcC/hvcC：已经是 record 的原样返回，Annex-B 格式的重新构建
+ * @param codec 编码类型
+ * @param extradata extradata 数据
+ * @returns description 数据，无法转换时返回 undefined
+ */
+export function toDecoderConfigurationRecord(codec: 'h264' | 'h265', extradata: Uint8Array): Uint8Array | undefined {
+  const format = getNalFormat(extradata);
+  if (format === 'length-prefixed') {
+    return extradata;
+  }
+  if (format !== 'annexb') {
+    return undefined;
+  }
+  return codec === 'h264' ? extractH264Description(extradata, format) : extractH265Description(extradata, format);
 }
 
+/**
+ * 取出 avcC/hvcC 中的所有参数集 NAL 单元（SPS/PPS，HEVC 还有 VPS），Annex-B 格式的按起始码切分
+ * @param codec 编码类型
+ * @param data avcC/hvcC，或 Annex-B 数据
+ */
+export function getParameterSetNalUnits(codec: 'h264' | 'h265', data: Uint8Array): Uint8Array[] {
+  const format = getNalFormat(data);
+  if (format === 'annexb') {
+    return splitAnnexBNalUnits(data);
+  }
+  if (format !== 'length-prefixed') {
+    return [];
+  }
+  const nalUnits: Uint8Array[] = [];
+  const readNalUnit = (offset: number): number => {
+    const size = ((data[offset] ?? 0) << 8) | (data[offset + 1] ?? 0);
+    offset += 2;
+    if (offset + size <= data.length) {
+      nalUnits.push(data.subarray(offset, offset + size));
+    }
+    return offset + size;
+  };
+
+  if (codec === 'h264') {
+    // AVCDecoderConfigurationRecord: 5 字节头部，numOfSequenceParameterSets 的低 5 位为 SPS 个数，之后是 PPS 个数
+    let offset = 5;
+    const spsCount = (data[offset++] ?? 0) & 0x1F;
+    for (let i = 0; i < spsCount && offset < data.length; i++) {
+      offset = readNalUnit(offset);
+    }
+    const ppsCount = data[offset++] ?? 0;
+    for (let i = 0; i < ppsCount && offset < data.length; i++) {
+      offset = readNalUnit(offset);
+    }
+    return nalUnits;
+  }
+
+  // HEVCDecoderConfigurationRecord: 22 字节头部，之后是 numOfArrays 个 NAL 数组
+  let offset = 22;
+  const arrayCount = data[offset++] ?? 0;
+  for (let i = 0; i < arrayCount && offset + 3 <= data.length; i++) {
+    offset++; // array_completeness + NAL_unit_type
+    const count = (data[offset]! << 8) | data[offset + 1]!;
+    offset += 2;
+    for (let j = 0; j < count && offset < data.length; j++) {
+      offset = readNalUnit(offset);
+    }
+  }
+  return nalUnits;
+}
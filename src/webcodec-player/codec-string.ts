@@ -0,0 +1,176 @@
+/**
+ * 根据 SPS 或 avcC/hvcC 构建 WebCodecs 编码字符串，并解析 profile / level 信息
+ * @author guo xiao
+ */
+
+import { removeEmulationPrevention, splitAnnexBNalUnits } from './codec-description';
+
+export interface VideoCodecInfo {
+    codecString: string; // WebCodecs 编码字符串，如 avc1.640028、hev1.2.4.L153.B0
+    profile: string; // profile 名称，如 High、Main 10
+    level: string; // level，如 4.0、5.1
+    tier?: 'Main' | 'High'; // 仅 HEVC
+}
+
+const H264ProfileName: Record<number, string> = {
+    66: 'Baseline',
+    77: 'Main',
+    88: 'Extended',
+    100: 'High',
+    110: 'High 10',
+    122: 'High 4:2:2',
+    244: 'High 4:4:4 Predictive',
+    44: 'CAVLC 4:4:4 Intra',
+    118: 'Multiview High',
+    128: 'Stereo High',
+};
+
+const HevcProfileName: Record<number, string> = {
+    1: 'Main',
+    2: 'Main 10',
+    3: 'Main Still Picture',
+    4: 'Range Extensions',
+    5: 'High Throughput',
+    9: 'Screen Content Coding',
+};
+
+function toHex(value: number): string {
+    return value.toString(16).padStart(2, '0');
+}
+
+/**
+ * 从 Annex-B 数据中找到 SPS NAL 单元
+ * @param codec 编码类型
+ * @param data description 或关键帧数据
+ */
+function findSps(codec: 'h264' | 'h265', data: Uint8Array): Uint8Array | undefined {
+    const isSps = (nal: Uint8Array) => codec === 'h264'
+        ? (nal[0]! & 0x1F) === 7
+        : ((nal[0]! >> 1) & 0x3F) === 33;
+
+    return splitAnnexBNalUnits(data).find((nal) => nal.length > 0 && isSps(nal));
+}
+
+/**
+ * 构建 H.264 编码信息
+ * @param profileIdc profile_idc
+ * @param constraintFlags constraint_set0~5 标志及保留位所在的字节
+ * @param levelIdc level_idc
+ */
+function buildH264CodecInfo(profileIdc: number, constraintFlags: number, levelIdc: number): VideoCodecInfo {
+    let profile = H264ProfileName[profileIdc] ?? `Profile ${profileIdc}`;
+    // constraint_set1_flag 置位的 Baseline 为 Constrained Baseline
+    if (profileIdc === 66 && (constraintFlags & 0x40)) {
+        profile = 'Constrained Baseline';
+    }
+    // Baseline/Main/Extended 下 level_idc 11 且 constraint_set3_flag 置位表示 level 1b
+    const isLevel1b = levelIdc === 11 && (constraintFlags & 0x10) && [66, 77, 88].includes(profileIdc);
+    return {
+        codecString: `avc1.${toHex(profileIdc)}${toHex(constraintFlags)}${toHex(levelIdc)}`,
+        profile,
+        level: isLevel1b ? '1b' : (levelIdc / 10).toFixed(1),
+    };
+}
+
+/**
+ * 解析 H.264 编码信息
+ * @param data avcC 记录，或包含 SPS 的 Annex-B 数据
+ */
+export function parseH264CodecInfo(data: Uint8Array): VideoCodecInfo | undefined {
+    // AVCDecoderConfigurationRecord: configurationVersion = 1, AVCProfileIndication, profile_compatibility, AVCLevelIndication
+    if (data.length >= 7 && data[0] === 0x01) {
+        return buildH264CodecInfo(data[1]!, data[2]!, data[3]!);
+    }
+
+    const sps = findSps('h264', data);
+    if (!sps || sps.length < 4) {
+        return undefined;
+    }
+    // SPS: NAL 头(1) + profile_idc(1) + constraint flags(1) + level_idc(1)
+    return buildH264CodecInfo(sps[1]!, sps[2]!, sps[3]!);
+}
+
+/**
+ * 构建 HEVC 编码信息
+ * @param ptl profile_tier_level 的前 12 字节（general_* 字段）
+ */
+function buildHevcCodecInfo(ptl: Uint8Array): VideoCodecInfo {
+    const profileSpace = ptl[0]! >> 6;
+    const tierFlag = (ptl[0]! >> 5) & 0x01;
+    const profileIdc = ptl[0]! & 0x1F;
+    const compatibilityFlags = ((ptl[1]! << 24) | (ptl[2]! << 16) | (ptl[3]! << 8) | ptl[4]!) >>> 0;
+    const constraintBytes = Array.from(ptl.subarray(5, 11));
+    const levelIdc = ptl[11]!;
+
+    // general_profile_compatibility_flags 按位逆序后以十六进制表示
+    let reversed = 0;
+    for (let i = 0; i < 32; i++) {
+        if (compatibilityFlags & (1 << i)) {
+            reversed |= 1 << (31 - i);
+        }
+    }
+
+    // 末尾为 0 的约束字节省略
+    while (constraintBytes.length && constraintBytes[constraintBytes.length - 1] === 0) {
+        constraintBytes.pop();
+    }
+
+    const profileSpacePrefix = ['', 'A', 'B', 'C'][profileSpace];
+    let codecString = `hev1.${profileSpacePrefix}${profileIdc}.${(reversed >>> 0).toString(16).toUpperCase()}.${tierFlag ? 'H' : 'L'}${levelIdc}`;
+    if (constraintBytes.length) {
+        codecString += '.' + constraintBytes.map((byte) => byte.toString(16).toUpperCase()).join('.');
+    }
+
+    // level_idc = 30 * level
+    const level = levelIdc / 30;
+    return {
+        codecString,
+        profile: HevcProfileName[profileIdc] ?? `Profile ${profileIdc}`,
+        level: Number.isInteger(level) ? level.toFixed(1) : level.toFixed(1).replace(/0$/, ''),
+        tier: tierFlag ? 'High' : 'Main',
+    };
+}
+
+/**
+ * 解析 HEVC 编码信息
+ * @param data hvcC 记录，或包含 SPS 的 Annex-B 数据
+ */
+export function parseHevcCodecInfo(data: Uint8Array): VideoCodecInfo | undefined {
+    // HEVCDecoderConfigurationRecord: configurationVersion = 1，紧接着就是 12 字节的 general profile/tier/level
+    if (data.length >= 23 && data[0] === 0x01) {
+        return buildHevcCodecInfo(data.subarray(1, 13));
+    }
+
+    const sps = findSps('h265', data);
+    if (!sps) {
+        return undefined;
+    }
+    const rbsp = removeEmulationPrevention(sps);
+    // SPS: NAL 头(2) + sps_video_parameter_set_id/max_sub_layers/temporal_id_nesting(1) + profile_tier_level
+    if (rbsp.length < 15) {
+        return undefined;
+    }
+    return buildHevcCodecInfo(rbsp.subarray(3, 15));
+}
+
+/**
+ * 根据编码类型解析编码信息
+ * @param codec 编码类型
+ * @param data description（avcC/hvcC）或包含参数集的数据
+ */
+export function parseVideoCodecInfo(codec: string, data: Uint8Array | undefined): VideoCodecInfo | undefined {
+    if (!data || !data.length) {
+        return undefined;
+    }
+    try {
+        if (codec === 'h264') {
+            return parseH264CodecInfo(data);
+        }
+        if (codec === 'h265') {
+            return parseHevcCodecInfo(data);
+        }
+    } catch (error) {
+        console.warn('[codec-string] Failed to parse codec info:', error);
+    }
+    return undefined;
+}
@@ -0,0 +1,97 @@
+/**
+ * 连续读取覆盖的数值区间（时间戳或字节位置）：顺序读取时不断延长当前区间，读取位置跳变后开始新的区间
+ * @author guo xiao
+ */
+
+export interface CoveredRange {
+    start: number;
+    end: number; // 包含
+}
+
+export class CoveredRanges {
+    private ranges: CoveredRange[] = []; // 按 start 升序，互不重叠
+    private current: CoveredRange | null = null; // 当前正在延长的区间
+
+    /**
+     * 记录顺序读取到的值，延长当前区间，与已有区间重叠时合并
+     * @param value 读取到的值
+     */
+    extend(value: number) {
+        let current = this.current;
+        if (!current) {
+            current = { start: value, end: value };
+            this.ranges.splice(this.upperBound(value), 0, current);
+        } else if (value > current.end) {
+            current.end = value;
+        } else if (value < current.start) {
+            current.start = value;
+        } else {
+            return;
+        }
+
+        let index = this.ranges.indexOf(current);
+        // 向后合并被当前区间追上的区间
+        let next = this.ranges[index + 1];
+        while (next && next.start <= current.end) {
+            current.end = Math.max(current.end, next.end);
+            this.ranges.splice(index + 1, 1);
+            next = this.ranges[index + 1];
+        }
+        // 向前合并与当前区间重叠的区间
+        let prev = this.ranges[index - 1];
+        while (prev && prev.end >= current.start) {
+            prev.start = Math.min(prev.start, current.start);
+            prev.end = Math.max(prev.end, current.end);
+            this.ranges.splice(index, 1);
+            current = prev;
+            index--;
+            prev = this.ranges[index - 1];
+        }
+        this.current = current;
+    }
+
+    /**
+     * 读取位置发生跳变（如 seek），之后读取到的值开始新的区间
+     */
+    break() {
+        this.current = null;
+    }
+
+    /**
+     * 判断值是否落在某个已覆盖的区间内
+     * @param value 要判断的值
+     */
+    contains(value: number): boolean {
+        const range = this.ranges[this.upperBound(value) - 1];
+        return !!range && value <= range.end;
+    }
+
+    /**
+     * 获取所有已覆盖的区间（只读）
+     */
+    getRanges(): readonly CoveredRange[] {
+        return this.ranges;
+    }
+
+    clear() {
+        this.ranges = [];
+        this.current = null;
+    }
+
+    /**
+     * 第一个 start 大于 value 的区间下标
+     */
+    private upperBound(value: number): number {
+        let low = 0;
+        let high = this.ranges.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.ranges[mid]!.start <= value) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+}
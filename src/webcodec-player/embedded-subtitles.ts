@@ -0,0 +1,95 @@
+/**
+ * 容器中的文字字幕流：读到的字幕包解析为字幕条目，图形字幕跳过
+ * @author guo xiao
+ */
+
+import type AVStream from '@libmedia/avutil/AVStream';
+import type AVPacket from '@libmedia/avutil/struct/avpacket';
+import type { Rational } from '@libmedia/avutil/struct/rational';
+import { mapUint8Array } from '@libmedia/cheap/std/memory';
+import { dumpCodecName } from '@libmedia/avformat/dump';
+import { SubtitlePacketDecoder, toSubtitleFormat, type SubtitleCue, type SubtitleTrackInfo } from './subtitles';
+import { toMicroseconds, type StreamTimeline } from './timeline';
+
+interface SubtitleStream {
+    info: SubtitleTrackInfo;
+    decoder: SubtitlePacketDecoder;
+    timeBase: Rational;
+}
+
+export class EmbeddedSubtitles {
+    private streams: Map<number, SubtitleStream> = new Map();
+    private timeline: StreamTimeline;
+    private onCues: (track: SubtitleTrackInfo, cues: SubtitleCue[]) => void;
+
+    /**
+     * @param timeline 播放时间线，字幕时间与 currentTime 一样相对于视频开头
+     * @param onCues 发现字幕流时以空数组调用一次，之后每解析出一条字幕调用一次
+     */
+    constructor(timeline: StreamTimeline, onCues: (track: SubtitleTrackInfo, cues: SubtitleCue[]) => void) {
+        this.timeline = timeline;
+        this.onCues = onCues;
+    }
+
+    /**
+     * 添加容器中的流，不是字幕流（AVMEDIA_TYPE_SUBTITLE = 3）或格式不支持时忽略
+     * @param index 流索引
+     * @param stream 流信息
+     */
+    addStream(index: number, stream: AVStream) {
+        if (stream.codecpar.codecType !== 3) {
+            return;
+        }
+        const codecName = dumpCodecName(stream.codecpar.codecType, stream.codecpar.codecId);
+        const format = toSubtitleFormat(codecName);
+        if (!format) {
+            console.warn(`字幕流 ${index} 编码格式 ${codecName} 暂不支持，跳过`);
+            return;
+        }
+        const extradata = stream.codecpar.extradata && stream.codecpar.extradataSize > 0
+            ? new Uint8Array(mapUint8Array(stream.codecpar.extradata, stream.codecpar.extradataSize))
+            : undefined;
+        const language: string | undefined = stream.metadata.language || undefined;
+        const title: string | undefined = stream.metadata.title || undefined;
+        const info: SubtitleTrackInfo = {
+            id: `embedded-${index}`,
+            label: title ?? language ?? `字幕 ${this.streams.size + 1}`,
+            language,
+            format,
+            source: 'embedded',
+        };
+        this.streams.set(index, {
+            info,
+            decoder: new SubtitlePacketDecoder(format, extradata),
+            timeBase: { num: stream.timeBase.num, den: stream.timeBase.den } as Rational,
+        });
+        this.onCues(info, []);
+        console.log(`找到字幕流索引: ${index}, 编码格式: ${codecName}`);
+    }
+
+    /**
+     * 是否为已添加的字幕流
+     */
+    has(streamIndex: number): boolean {
+        return this.streams.has(streamIndex);
+    }
+
+    /**
+     * 解析字幕包；字幕包很少，解析后直接提交
+     */
+    decode(pkt: AVPacket) {
+        const stream = this.streams.get(pkt.streamIndex);
+        if (!stream || !pkt.data || pkt.size <= 0) {
+            return;
+        }
+        const timestamp = this.timeline.toTimestamp(pkt.pts, stream.timeBase) ?? this.timeline.toTimestamp(pkt.dts, stream.timeBase);
+        if (timestamp === undefined) {
+            return;
+        }
+        const durationUs = pkt.duration > BigInt(0) ? toMicroseconds(pkt.duration, stream.timeBase) : undefined;
+        const cue = stream.decoder.decode(mapUint8Array(pkt.data, pkt.size), this.timeline.toSeconds(timestamp), durationUs !== undefined ? durationUs / 1_000_000 : undefined);
+        if (cue) {
+            this.onCues(stream.info, [cue]);
+        }
+    }
+}
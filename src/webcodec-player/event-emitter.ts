@@ -0,0 +1,84 @@
+/**
+ * 类型化的事件分发：事件名和回调参数由事件表约束
+ * @author guo xiao
+ */
+
+/**
+ * 事件表：事件名 → 回调参数列表
+ */
+export type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+export type EventListener<Args extends unknown[]> = (...args: Args) => void;
+
+export class EventEmitter<Events extends EventMap<Events>> {
+    private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+    /**
+     * 订阅事件
+     * @returns 取消订阅的函数
+     */
+    on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+        let listeners = this.listeners[event];
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners[event] = listeners;
+        }
+        listeners.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * 订阅事件，触发一次后自动取消
+     * @returns 取消订阅的函数
+     */
+    once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+        const off = this.on(event, (...args) => {
+            off();
+            listener(...args);
+        });
+        return off;
+    }
+
+    /**
+     * 取消订阅
+     */
+    off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>) {
+        this.listeners[event]?.delete(listener);
+    }
+
+    /**
+     * 取消某个事件的全部订阅，不传事件名时取消所有事件
+     */
+    removeAllListeners(event?: keyof Events) {
+        if (event === undefined) {
+            this.listeners = {};
+        } else {
+            delete this.listeners[event];
+        }
+    }
+
+    /**
+     * 是否有订阅，没有订阅时触发方可以跳过准备事件数据的开销
+     */
+    hasListeners(event: keyof Events): boolean {
+        return !!this.listeners[event]?.size;
+    }
+
+    /**
+     * 触发事件。回调抛出的异常只打印，不影响其他回调和触发方
+     */
+    protected emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+        const listeners = this.listeners[event];
+        if (!listeners) {
+            return;
+        }
+        // 复制一份，回调中增删订阅不影响本次分发
+        [...listeners].forEach((listener) => {
+            try {
+                listener(...args);
+            } catch (error) {
+                console.error(`[EventEmitter] Listener for "${String(event)}" threw:`, error);
+            }
+        });
+    }
+}
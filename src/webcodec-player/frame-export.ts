@@ -0,0 +1,241 @@
+/**
+ * 视频帧导出：编码为 PNG/JPEG 图片，或导出 I420/NV12 原始平面数据
+ * @author guo xiao
+ */
+
+export type ImageFrameFormat = 'png' | 'jpeg';
+export type RawFrameFormat = 'I420' | 'NV12';
+export type FrameExportFormat = ImageFrameFormat | RawFrameFormat;
+
+export interface RawFramePlane {
+    offset: number; // 平面在 data 中的起始位置（字节）
+    stride: number; // 每行字节数
+    width: number; // 每行的采样数（NV12 的 UV 平面为 UV 对的个数）
+    height: number; // 行数
+}
+
+/**
+ * 原始帧数据的格式描述，平面按 Y、U、V（NV12 为 Y、UV）的顺序紧密排列
+ */
+export interface RawFrameDescriptor {
+    format: RawFrameFormat;
+    width: number;
+    height: number;
+    timestamp: number; // pts（微秒）
+    colorSpace: VideoColorSpaceInit;
+    planes: RawFramePlane[];
+}
+
+export interface RawFrameData {
+    descriptor: RawFrameDescriptor;
+    data: Uint8Array;
+}
+
+/**
+ * 判断导出格式是否为原始平面数据
+ */
+export function isRawFrameFormat(format: FrameExportFormat): format is RawFrameFormat {
+    return format === 'I420' || format === 'NV12';
+}
+
+/**
+ * 按原始分辨率把视频帧编码为图片
+ * @param frame 视频帧，调用方负责 close
+ * @param format 图片格式，默认 png
+ * @param quality JPEG 质量 0 ~ 1
+ */
+export async function encodeFrameImage(frame: VideoFrame, format: ImageFrameFormat = 'png', quality?: number): Promise<Blob> {
+    const canvas = drawFrame(frame);
+    return canvas.convertToBlob({ type: `image/${format}`, quality });
+}
+
+/**
+ * 导出视频帧的原始平面数据（VideoFrame.copyTo），需要时在 I420 和 NV12 之间转换
+ * 其他像素格式（RGB、4:2:2、4:4:4、高位深等）先绘制为 RGBA，再按 BT.601 转换
+ * @param frame 视频帧，调用方负责 close
+ * @param format 导出格式，默认 I420
+ */
+export async function copyFramePlanes(frame: VideoFrame, format: RawFrameFormat = 'I420'): Promise<RawFrameData> {
+    const sourceFormat = frame.format;
+    if (sourceFormat === 'I420' || sourceFormat === 'I420A' || sourceFormat === 'NV12') {
+        const { width, height } = frame.visibleRect ?? { width: frame.codedWidth, height: frame.codedHeight };
+        const source = new Uint8Array(frame.allocationSize());
+        const layout = await frame.copyTo(source);
+        const planes = createPlanes(format, width, height);
+        const data = new Uint8Array(getPlanesSize(planes));
+        copyPlane(source, layout[0]!, data, planes[0]!, width);
+
+        if (sourceFormat === 'NV12') {
+            if (format === 'NV12') {
+                copyPlane(source, layout[1]!, data, planes[1]!, planes[1]!.width * 2);
+            } else {
+                deinterleaveChroma(source, layout[1]!, data, planes[1]!, planes[2]!);
+            }
+        } else if (format === 'NV12') {
+            interleaveChroma(source, layout[1]!, layout[2]!, data, planes[1]!);
+        } else {
+            // I420A 丢弃 alpha 平面
+            copyPlane(source, layout[1]!, data, planes[1]!, planes[1]!.width);
+            copyPlane(source, layout[2]!, data, planes[2]!, planes[2]!.width);
+        }
+        return {
+            descriptor: createDescriptor(frame, format, width, height, planes),
+            data,
+        };
+    }
+
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+    const context = drawFrame(frame).getContext('2d')!;
+    const { data: rgba } = context.getImageData(0, 0, width, height);
+    const planes = createPlanes(format, width, height);
+    const data = new Uint8Array(getPlanesSize(planes));
+    rgbaToYuv(rgba, width, height, data, planes);
+    // 转换结果为 BT.601 有限范围
+    return {
+        descriptor: createDescriptor(frame, format, width, height, planes, {
+            primaries: 'smpte170m',
+            transfer: 'smpte170m',
+            matrix: 'smpte170m',
+            fullRange: false,
+        }),
+        data,
+    };
+}
+
+/**
+ * 按显示尺寸把视频帧绘制到画布上
+ */
+function drawFrame(frame: VideoFrame): OffscreenCanvas {
+    const canvas = new OffscreenCanvas(frame.displayWidth, frame.displayHeight);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Failed to get 2D context for frame export');
+    }
+    context.drawImage(frame, 0, 0, frame.displayWidth, frame.displayHeight);
+    return canvas;
+}
+
+/**
+ * 计算紧密排列的平面布局，色度平面按 4:2:0 采样（奇数尺寸向上取整）
+ */
+function createPlanes(format: RawFrameFormat, width: number, height: number): RawFramePlane[] {
+    const chromaWidth = Math.ceil(width / 2);
+    const chromaHeight = Math.ceil(height / 2);
+    const lumaSize = width * height;
+    if (format === 'NV12') {
+        return [
+            { offset: 0, stride: width, width, height },
+            { offset: lumaSize, stride: chromaWidth * 2, width: chromaWidth, height: chromaHeight },
+        ];
+    }
+    return [
+        { offset: 0, stride: width, width, height },
+        { offset: lumaSize, stride: chromaWidth, width: chromaWidth, height: chromaHeight },
+        { offset: lumaSize + chromaWidth * chromaHeight, stride: chromaWidth, width: chromaWidth, height: chromaHeight },
+    ];
+}
+
+function getPlanesSize(planes: RawFramePlane[]): number {
+    const last = planes[planes.length - 1]!;
+    return last.offset + last.stride * last.height;
+}
+
+function createDescriptor(
+    frame: VideoFrame,
+    format: RawFrameFormat,
+    width: number,
+    height: number,
+    planes: RawFramePlane[],
+    colorSpace: VideoColorSpaceInit = frame.colorSpace.toJSON(),
+): RawFrameDescriptor {
+    return { format, width, height, timestamp: frame.timestamp, colorSpace, planes };
+}
+
+/**
+ * 逐行复制一个平面
+ * @param rowBytes 每行需要复制的字节数
+ */
+function copyPlane(source: Uint8Array, layout: PlaneLayout, target: Uint8Array, plane: RawFramePlane, rowBytes: number) {
+    for (let y = 0; y < plane.height; y++) {
+        const start = layout.offset + y * layout.stride;
+        target.set(source.subarray(start, start + rowBytes), plane.offset + y * plane.stride);
+    }
+}
+
+/**
+ * I420 的 U、V 平面交织为 NV12 的 UV 平面
+ */
+function interleaveChroma(source: Uint8Array, uLayout: PlaneLayout, vLayout: PlaneLayout, target: Uint8Array, uvPlane: RawFramePlane) {
+    for (let y = 0; y < uvPlane.height; y++) {
+        const uRow = uLayout.offset + y * uLayout.stride;
+        const vRow = vLayout.offset + y * vLayout.stride;
+        const targetRow = uvPlane.offset + y * uvPlane.stride;
+        for (let x = 0; x < uvPlane.width; x++) {
+            target[targetRow + x * 2] = source[uRow + x]!;
+            target[targetRow + x * 2 + 1] = source[vRow + x]!;
+        }
+    }
+}
+
+/**
+ * NV12 的 UV 平面拆分为 I420 的 U、V 平面
+ */
+function deinterleaveChroma(source: Uint8Array, uvLayout: PlaneLayout, target: Uint8Array, uPlane: RawFramePlane, vPlane: RawFramePlane) {
+    for (let y = 0; y < uPlane.height; y++) {
+        const sourceRow = uvLayout.offset + y * uvLayout.stride;
+        const uRow = uPlane.offset + y * uPlane.stride;
+        const vRow = vPlane.offset + y * vPlane.stride;
+        for (let x = 0; x < uPlane.width; x++) {
+            target[uRow + x] = source[sourceRow + x * 2]!;
+            target[vRow + x] = source[sourceRow + x * 2 + 1]!;
+        }
+    }
+}
+
+/**
+ * RGBA 转换为 BT.601 有限范围的 YUV 4:2:0，色度取 2x2 块内的平均值
+ */
+function rgbaToYuv(rgba: Uint8ClampedArray, width: number, height: number, target: Uint8Array, planes: RawFramePlane[]) {
+    const [yPlane, uPlane, vPlane] = planes as [RawFramePlane, RawFramePlane, RawFramePlane | undefined];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const r = rgba[i]!;
+            const g = rgba[i + 1]!;
+            const b = rgba[i + 2]!;
+            target[yPlane.offset + y * yPlane.stride + x] = ((66 * r + 129 * g + 25 * b + 128) >> 8) + 16;
+        }
+    }
+
+    for (let cy = 0; cy < uPlane.height; cy++) {
+        for (let cx = 0; cx < uPlane.width; cx++) {
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let count = 0;
+            for (let y = cy * 2; y < Math.min(cy * 2 + 2, height); y++) {
+                for (let x = cx * 2; x < Math.min(cx * 2 + 2, width); x++) {
+                    const i = (y * width + x) * 4;
+                    r += rgba[i]!;
+                    g += rgba[i + 1]!;
+                    b += rgba[i + 2]!;
+                    count++;
+                }
+            }
+            r /= count;
+            g /= count;
+            b /= count;
+            const u = Math.round((-38 * r - 74 * g + 112 * b) / 256) + 128;
+            const v = Math.round((112 * r - 94 * g - 18 * b) / 256) + 128;
+            if (vPlane) {
+                target[uPlane.offset + cy * uPlane.stride + cx] = u;
+                target[vPlane.offset + cy * vPlane.stride + cx] = v;
+            } else {
+                // NV12
+                target[uPlane.offset + cy * uPlane.stride + cx * 2] = u;
+                target[uPlane.offset + cy * uPlane.stride + cx * 2 + 1] = v;
+            }
+        }
+    }
+}
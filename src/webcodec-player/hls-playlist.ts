@@ -0,0 +1,205 @@
+/**
+ * HLS 播放列表（m3u8）解析：master playlist 的码率档位和 media playlist 的分片列表
+ * 只支持 MPEG-TS 分片，不支持加密和 fMP4（EXT-X-MAP）
+ * @author guo xiao
+ */
+
+export interface HlsVariant {
+    url: string; // 已解析为绝对地址
+    bandwidth: number; // 峰值码率（bps）
+    averageBandwidth?: number; // 平均码率（bps）
+    width?: number;
+    height?: number;
+    codecs?: string;
+    frameRate?: number;
+}
+
+export interface HlsSegment {
+    url: string; // 已解析为绝对地址
+    sequence: number; // 媒体序号（EXT-X-MEDIA-SEQUENCE 起算）
+    duration: number; // 时长（秒）
+    discontinuity: number; // 不连续序号（EXT-X-DISCONTINUITY-SEQUENCE 起算，每遇到一个 EXT-X-DISCONTINUITY 加一）
+    byteRange?: { offset: number; length: number };
+}
+
+export interface HlsMediaPlaylist {
+    targetDuration: number; // 秒
+    mediaSequence: number;
+    discontinuitySequence: number;
+    endList: boolean; // 出现 EXT-X-ENDLIST：点播，或直播已结束
+    segments: HlsSegment[];
+}
+
+export type HlsPlaylist =
+    | { type: 'master'; variants: HlsVariant[] }
+    | { type: 'media'; playlist: HlsMediaPlaylist };
+
+/**
+ * 判断 URL 是否指向 m3u8 播放列表（忽略查询参数和 hash）
+ * @param source URL 或本地文件
+ */
+export function isHlsUrl(source: string | Blob): source is string {
+    if (typeof source !== 'string') {
+        return false;
+    }
+    const path = source.split(/[?#]/)[0] ?? '';
+    return /\.m3u8?$/i.test(path);
+}
+
+/**
+ * 解析属性列表：BANDWIDTH=1280000,RESOLUTION=1280x720,CODECS="avc1.64001f,mp4a.40.2"
+ */
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+        const value = match[2] ?? '';
+        attributes[match[1]!] = value.startsWith('"') ? value.slice(1, -1) : value;
+    }
+    return attributes;
+}
+
+function resolveUrl(uri: string, baseUrl: string): string {
+    return new URL(uri, baseUrl).href;
+}
+
+/**
+ * 解析 m3u8 文本
+ * @param text 播放列表内容
+ * @param baseUrl 播放列表自身的地址，用于解析相对路径
+ */
+export function parseHlsPlaylist(text: string, baseUrl: string): HlsPlaylist {
+    const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+    if (lines[0] !== '#EXTM3U') {
+        throw new Error('不是有效的 m3u8 播放列表：缺少 #EXTM3U');
+    }
+
+    if (lines.some((line) => line.startsWith('#EXT-X-STREAM-INF:'))) {
+        return { type: 'master', variants: parseMasterPlaylist(lines, baseUrl) };
+    }
+    return { type: 'media', playlist: parseMediaPlaylist(lines, baseUrl) };
+}
+
+function parseMasterPlaylist(lines: string[], baseUrl: string): HlsVariant[] {
+    const variants: HlsVariant[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]!;
+        if (!line.startsWith('#EXT-X-STREAM-INF:')) {
+            continue;
+        }
+        // 属性行的下一个非注释行是档位的 URI
+        let uri: string | undefined;
+        while (++i < lines.length) {
+            if (!lines[i]!.startsWith('#')) {
+                uri = lines[i];
+                break;
+            }
+        }
+        if (!uri) {
+            break;
+        }
+
+        const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+        const variant: HlsVariant = {
+            url: resolveUrl(uri, baseUrl),
+            bandwidth: Number(attributes['BANDWIDTH']) || 0,
+        };
+        if (attributes['AVERAGE-BANDWIDTH']) {
+            variant.averageBandwidth = Number(attributes['AVERAGE-BANDWIDTH']);
+        }
+        const resolution = attributes['RESOLUTION']?.split('x');
+        if (resolution && resolution.length === 2) {
+            variant.width = Number(resolution[0]);
+            variant.height = Number(resolution[1]);
+        }
+        if (attributes['CODECS']) {
+            variant.codecs = attributes['CODECS'];
+        }
+        if (attributes['FRAME-RATE']) {
+            variant.frameRate = Number(attributes['FRAME-RATE']);
+        }
+        variants.push(variant);
+    }
+
+    // 只有音频的档位（CODECS 中没有视频编码）无法播放视频，有视频档位时去掉
+    const hasVideo = (variant: HlsVariant) => !variant.codecs || /avc1|avc3|hvc1|hev1|vp09|vp8/.test(variant.codecs);
+    const videoVariants = variants.filter(hasVideo);
+    return (videoVariants.length ? videoVariants : variants).sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+function parseMediaPlaylist(lines: string[], baseUrl: string): HlsMediaPlaylist {
+    const playlist: HlsMediaPlaylist = {
+        targetDuration: 0,
+        mediaSequence: 0,
+        discontinuitySequence: 0,
+        endList: false,
+        segments: [],
+    };
+
+    let duration = 0;
+    let discontinuity = 0;
+    let byteRange: HlsSegment['byteRange'];
+    // EXT-X-BYTERANGE 省略 offset 时紧接上一个分片的结尾
+    let nextByteRangeOffset = 0;
+
+    for (const line of lines) {
+        if (!line.startsWith('#')) {
+            playlist.segments.push({
+                url: resolveUrl(line, baseUrl),
+                sequence: playlist.mediaSequence + playlist.segments.length,
+                duration,
+                discontinuity: playlist.discontinuitySequence + discontinuity,
+                byteRange,
+            });
+            duration = 0;
+            byteRange = undefined;
+            continue;
+        }
+
+        const colon = line.indexOf(':');
+        const tag = colon > 0 ? line.slice(0, colon) : line;
+        const value = colon > 0 ? line.slice(colon + 1) : '';
+        switch (tag) {
+            case '#EXT-X-TARGETDURATION':
+                playlist.targetDuration = Number(value) || 0;
+                break;
+            case '#EXT-X-MEDIA-SEQUENCE':
+                playlist.mediaSequence = Number(value) || 0;
+                break;
+            case '#EXT-X-DISCONTINUITY-SEQUENCE':
+                playlist.discontinuitySequence = Number(value) || 0;
+                break;
+            case '#EXT-X-DISCONTINUITY':
+                discontinuity++;
+                break;
+            case '#EXTINF':
+                duration = parseFloat(value) || 0;
+                break;
+            case '#EXT-X-BYTERANGE': {
+                const [length, offset] = value.split('@');
+                const range = {
+                    offset: offset !== undefined ? Number(offset) : nextByteRangeOffset,
+                    length: Number(length),
+                };
+                nextByteRangeOffset = range.offset + range.length;
+                byteRange = range;
+                break;
+            }
+            case '#EXT-X-ENDLIST':
+                playlist.endList = true;
+                break;
+            case '#EXT-X-KEY': {
+                const method = parseAttributes(value)['METHOD'];
+                if (method && method !== 'NONE') {
+                    throw new Error(`不支持加密的 HLS 分片（METHOD=${method}）`);
+                }
+                break;
+            }
+            case '#EXT-X-MAP':
+                throw new Error('不支持 fMP4 分片的 HLS（EXT-X-MAP），目前只支持 MPEG-TS 分片');
+        }
+    }
+
+    return playlist;
+}
@@ -0,0 +1,644 @@
+/**
+ * HLS 数据源：按顺序下载 TS 分片并拼接成连续的字节流交给 IOReader，由 IMpegtsFormat 解封装
+ * 根据测得的下载带宽和缓冲长度在分片边界切换码率档位，支持点播和直播滑动窗口
+ * @author guo xiao
+ */
+
+import type { IOSource } from './io-source';
+import { isRetryableStatus, isAbortError, delay } from './io-source';
+import { parseHlsPlaylist, type HlsVariant, type HlsSegment, type HlsMediaPlaylist } from './hls-playlist';
+
+export interface HlsSourceOptions {
+    initialBandwidth?: number; // 还没有测量数据时假定的带宽（bps），默认 2Mbps
+    maxBufferLength?: number; // 最多预先下载多少秒，默认 30
+    minBufferForUpSwitch?: number; // 缓冲低于该值（秒）时不升档，默认 10
+    bandwidthSafetyFactor?: number; // 选择档位时只使用估计带宽的这个比例，默认 0.8
+    maxRetries?: number; // 可恢复错误的最大重试次数，默认 3
+    retryDelay?: number; // 首次重试延迟（毫秒），之后指数退避，默认 500
+    getPlaybackTime?: () => number; // 当前播放位置（秒，相对于第一个播放的分片），用于计算缓冲长度
+    onSegmentLoaded?: () => void; // 每下载完一个分片回调，用于刷新统计信息
+}
+
+/**
+ * 字节流中某个位置所属的分片
+ */
+export interface HlsSegmentInfo {
+    sequence: number;
+    start: number; // 分片的起始时间（秒，相对于第一个播放的分片，与 seekToTime 一致）
+    duration: number;
+    discontinuity: number; // 不连续序号，变化时时间戳和编码参数都可能变化
+    variant: number; // 档位序号（按码率从低到高）
+    firstDelivery: boolean; // 是否第一次交给解封装器（seek 回退后重复读取时为 false）
+}
+
+export interface HlsStats {
+    variant: number; // 当前档位序号
+    variantCount: number;
+    bandwidth: number; // 当前档位声明的码率（bps）
+    width?: number;
+    height?: number;
+    bandwidthEstimate: number; // 估计的下载带宽（bps）
+    bufferLength: number; // 已下载、尚未播放的时长（秒）
+    live: boolean;
+}
+
+type TimedSegment = HlsSegment & { start: number };
+
+interface VariantState {
+    variant: HlsVariant;
+    playlist: HlsMediaPlaylist | null;
+    segments: TimedSegment[];
+    loadedAt: number; // 最近一次加载播放列表的时间（performance.now）
+    unchanged: boolean; // 最近一次刷新没有出现新分片
+}
+
+interface LoadedSegment {
+    segment: TimedSegment;
+    variant: number;
+    data: Uint8Array;
+}
+
+interface DeliveredSegment {
+    info: HlsSegmentInfo;
+    pos: number; // 在字节流中的起始位置
+    end: number;
+    data: Uint8Array | null; // 只保留最近几个分片的数据
+}
+
+// 直播从距离末尾第几个分片开始播放（RFC 8216 建议不少于 3 个目标时长）
+const LIVE_START_SEGMENTS = 3;
+// 保留数据的已交付分片数，用于 IOReader 在缓冲区内小范围回退
+const DELIVERED_DATA_COUNT = 2;
+// 保留位置信息的已交付分片数，解封装器读取的数据包可能落后于 IOReader 的读取位置
+const DELIVERED_INFO_COUNT = 64;
+
+/**
+ * 按分片时长加权的指数滑动平均，半衰期以秒计
+ */
+class EwmaEstimator {
+    private alpha: number;
+    private estimate: number = 0;
+    private totalWeight: number = 0;
+
+    constructor(halfLife: number) {
+        this.alpha = Math.exp(Math.log(0.5) / halfLife);
+    }
+
+    sample(weight: number, value: number) {
+        const adjustedAlpha = Math.pow(this.alpha, weight);
+        this.estimate = value * (1 - adjustedAlpha) + adjustedAlpha * this.estimate;
+        this.totalWeight += weight;
+    }
+
+    getEstimate(): number {
+        // 修正初始值为 0 带来的偏差
+        const zeroFactor = 1 - Math.pow(this.alpha, this.totalWeight);
+        return zeroFactor ? this.estimate / zeroFactor : 0;
+    }
+
+    hasSamples(): boolean {
+        return this.totalWeight > 0;
+    }
+}
+
+export class HlsSource implements IOSource {
+    private url: string;
+    private options: Required<Omit<HlsSourceOptions, 'getPlaybackTime' | 'onSegmentLoaded'>> & Pick<HlsSourceOptions, 'getPlaybackTime' | 'onSegmentLoaded'>;
+    private variants: VariantState[] = [];
+    private currentVariant: number = 0;
+    private live: boolean = false;
+    private timelineStart: number = 0; // 第一个播放的分片的起始时间（秒）
+    // 已知分片序号的起始时间，用于直播刷新和切换档位后对齐时间线
+    private segmentStarts: Map<number, number> = new Map();
+    // 下一个要下载的分片
+    private nextSequence: number = 0;
+    private nextTime: number = 0;
+    private ended: boolean = false;
+    private skippedDiscontinuities: number = 0; // 直播落后于滑动窗口被迫跳过分片的次数
+    private fetched: LoadedSegment[] = [];
+    private loading: Promise<void> | null = null;
+    private loadController: AbortController = new AbortController();
+    private fatalError: Error | null = null;
+    private waiters: (() => void)[] = [];
+    private delivered: DeliveredSegment[] = [];
+    private deliveredSequences: Set<number> = new Set();
+    private writeEnd: number = 0; // 字节流中已交付数据的结尾位置
+    private pendingSeek: boolean = false;
+    private fastEstimator = new EwmaEstimator(3);
+    private slowEstimator = new EwmaEstimator(9);
+    private destroyController: AbortController = new AbortController();
+
+    constructor(url: string, options: HlsSourceOptions = {}) {
+        this.url = url;
+        this.options = {
+            initialBandwidth: options.initialBandwidth ?? 2_000_000,
+            maxBufferLength: options.maxBufferLength ?? 30,
+            minBufferForUpSwitch: options.minBufferForUpSwitch ?? 10,
+            bandwidthSafetyFactor: options.bandwidthSafetyFactor ?? 0.8,
+            maxRetries: options.maxRetries ?? 3,
+            retryDelay: options.retryDelay ?? 500,
+            getPlaybackTime: options.getPlaybackTime,
+            onSegmentLoaded: options.onSegmentLoaded,
+        };
+    }
+
+    /**
+     * 加载播放列表并下载第一个分片
+     */
+    async open() {
+        const signal = this.destroyController.signal;
+        const playlist = parseHlsPlaylist(await this.fetchText(this.url, signal), this.url);
+
+        if (playlist.type === 'master') {
+            if (!playlist.variants.length) {
+                throw new Error('HLS master playlist 中没有可用的档位');
+            }
+            this.variants = playlist.variants.map((variant) => ({ variant, playlist: null, segments: [], loadedAt: 0, unchanged: false }));
+            this.currentVariant = this.selectVariant();
+            await this.loadPlaylist(this.currentVariant, signal);
+        } else {
+            this.variants = [{ variant: { url: this.url, bandwidth: 0 }, playlist: null, segments: [], loadedAt: 0, unchanged: false }];
+            this.updatePlaylist(this.variants[0]!, playlist.playlist);
+        }
+
+        const state = this.variants[this.currentVariant]!;
+        this.live = !state.playlist!.endList;
+        const startIndex = this.live ? Math.max(0, state.segments.length - LIVE_START_SEGMENTS) : 0;
+        const first = state.segments[startIndex];
+        if (!first) {
+            throw new Error('HLS 播放列表中没有分片');
+        }
+        this.nextSequence = first.sequence;
+        this.nextTime = first.start;
+        this.timelineStart = first.start;
+        console.log(`[HlsSource] Opened ${this.url}: ${this.variants.length} variant(s), ${this.live ? 'live' : 'vod'}, starting at sequence ${first.sequence}`);
+
+        // 等待第一个分片下载完成，错误在打开阶段就抛出
+        while (!this.fetched.length) {
+            if (this.fatalError) {
+                throw this.fatalError;
+            }
+            if (this.ended && !this.loading) {
+                throw new Error('HLS 播放列表中没有可下载的分片');
+            }
+            this.ensureLoading();
+            await this.waitForChange();
+        }
+    }
+
+    /**
+     * 分片拼接后的总大小未知
+     */
+    getSize(): number {
+        return 0;
+    }
+
+    async read(pos: number, buffer: Uint8Array): Promise<number> {
+        let entry = this.findDelivered(pos);
+        // 空分片追加后位置不变，继续取下一个
+        while (!entry?.data || pos >= entry.end) {
+            if (this.destroyController.signal.aborted) {
+                return 0;
+            }
+            if (pos !== this.writeEnd) {
+                throw new Error(`HLS 字节流位置 ${pos} 已不在缓存中`);
+            }
+            const next = await this.nextLoaded();
+            if (!next) {
+                return 0;
+            }
+            entry = this.deliver(next);
+        }
+
+        const offset = pos - entry.pos;
+        const len = Math.min(buffer.length, entry.end - pos);
+        buffer.set(entry.data.subarray(offset, offset + len), 0);
+        this.ensureLoading();
+        return len;
+    }
+
+    /**
+     * IOReader 的 seek。seekToTime 之后的第一次 seek 确定新分片在字节流中的起始位置，
+     * 其余的 seek 只能落在已缓存的数据内
+     * @param pos 新的读取位置
+     */
+    seek(pos: number) {
+        if (!this.pendingSeek) {
+            return;
+        }
+        this.pendingSeek = false;
+        this.delivered = [];
+        this.writeEnd = pos;
+        this.ensureLoading();
+    }
+
+    /**
+     * 跳转到指定时间所在的分片（只支持点播），之后需要调用 seek 确定字节流位置
+     * @param seconds 目标时间（秒，相对于第一个分片）
+     * @returns 是否可以跳转
+     */
+    seekToTime(seconds: number): boolean {
+        if (this.live) {
+            return false;
+        }
+        const segments = this.variants[this.currentVariant]!.segments;
+        const time = this.timelineStart + seconds;
+        let target = segments[0];
+        for (const segment of segments) {
+            if (segment.start > time) {
+                break;
+            }
+            target = segment;
+        }
+        if (!target) {
+            return false;
+        }
+
+        // 取消正在进行的下载，丢弃旧位置预先下载的分片
+        this.loadController.abort();
+        this.loadController = new AbortController();
+        this.fetched = [];
+        this.fatalError = null;
+        this.ended = false;
+        this.nextSequence = target.sequence;
+        this.nextTime = target.start;
+        this.pendingSeek = true;
+        console.log(`[HlsSource] Seek to ${seconds.toFixed(3)}s, sequence ${target.sequence}`);
+        this.notify();
+        return true;
+    }
+
+    /**
+     * 查询字节流中某个位置所属的分片
+     * @param pos 数据包在字节流中的位置
+     */
+    getSegmentAt(pos: number): HlsSegmentInfo | undefined {
+        return this.findDelivered(pos)?.info;
+    }
+
+    getVariant(index: number): HlsVariant | undefined {
+        return this.variants[index]?.variant;
+    }
+
+    /**
+     * 点播的总时长（秒），直播为 0
+     */
+    getDuration(): number {
+        if (this.live) {
+            return 0;
+        }
+        return this.variants[this.currentVariant]!.segments.reduce((sum, segment) => sum + segment.duration, 0);
+    }
+
+    isLive(): boolean {
+        return this.live;
+    }
+
+    getStats(): HlsStats {
+        const variant = this.variants[this.currentVariant]?.variant;
+        return {
+            variant: this.currentVariant,
+            variantCount: this.variants.length,
+            bandwidth: variant?.bandwidth ?? 0,
+            width: variant?.width,
+            height: variant?.height,
+            bandwidthEstimate: this.getBandwidthEstimate(),
+            bufferLength: this.getBufferLength(),
+            live: this.live,
+        };
+    }
+
+    private findDelivered(pos: number): DeliveredSegment | undefined {
+        for (let i = this.delivered.length - 1; i >= 0; i--) {
+            const entry = this.delivered[i]!;
+            if (pos >= entry.pos && pos < entry.end) {
+                return entry;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 把下载好的分片追加到字节流末尾
+     */
+    private deliver(loaded: LoadedSegment): DeliveredSegment {
+        const { segment } = loaded;
+        const entry: DeliveredSegment = {
+            info: {
+                sequence: segment.sequence,
+                start: segment.start - this.timelineStart,
+                duration: segment.duration,
+                discontinuity: segment.discontinuity + this.skippedDiscontinuities,
+                variant: loaded.variant,
+                firstDelivery: !this.deliveredSequences.has(segment.sequence),
+            },
+            pos: this.writeEnd,
+            end: this.writeEnd + loaded.data.length,
+            data: loaded.data,
+        };
+        this.deliveredSequences.add(segment.sequence);
+        this.writeEnd = entry.end;
+        this.delivered.push(entry);
+        if (this.delivered.length > DELIVERED_DATA_COUNT) {
+            this.delivered[this.delivered.length - DELIVERED_DATA_COUNT - 1]!.data = null;
+        }
+        if (this.delivered.length > DELIVERED_INFO_COUNT) {
+            this.delivered.shift();
+        }
+        return entry;
+    }
+
+    /**
+     * 取出下一个下载好的分片，没有更多分片时返回 null
+     */
+    private async nextLoaded(): Promise<LoadedSegment | null> {
+        while (1) {
+            const loaded = this.fetched.shift();
+            if (loaded) {
+                return loaded;
+            }
+            if (this.fatalError) {
+                const error = this.fatalError;
+                this.fatalError = null;
+                throw error;
+            }
+            if (this.destroyController.signal.aborted || (this.ended && !this.loading)) {
+                return null;
+            }
+            this.ensureLoading();
+            await this.waitForChange();
+        }
+        return null;
+    }
+
+    private waitForChange(): Promise<void> {
+        return new Promise((resolve) => this.waiters.push(resolve));
+    }
+
+    private notify() {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach((resolve) => resolve());
+    }
+
+    /**
+     * 缓冲未满时在后台下载下一个分片
+     */
+    private ensureLoading() {
+        if (this.loading || this.ended || this.fatalError || this.destroyController.signal.aborted) {
+            return;
+        }
+        if (this.fetched.length && this.getBufferLength() >= this.options.maxBufferLength) {
+            return;
+        }
+
+        const loading = this.loadNext(this.loadController.signal)
+            .catch((error) => {
+                if (!isAbortError(error)) {
+                    console.error('[HlsSource] Failed to load segment:', error);
+                    this.fatalError = error as Error;
+                }
+            })
+            .finally(() => {
+                if (this.loading === loading) {
+                    this.loading = null;
+                }
+                this.notify();
+                this.ensureLoading();
+            });
+        this.loading = loading;
+    }
+
+    /**
+     * 选择档位并下载下一个分片；直播时等待播放列表更新
+     */
+    private async loadNext(signal: AbortSignal) {
+        const variantIndex = this.selectVariant();
+        if (variantIndex !== this.currentVariant) {
+            const from = this.variants[this.currentVariant]!.variant;
+            const to = this.variants[variantIndex]!.variant;
+            console.log(`[HlsSource] Switching variant ${this.currentVariant} -> ${variantIndex} (${from.bandwidth} -> ${to.bandwidth} bps, estimate ${Math.round(this.getBandwidthEstimate())} bps, buffer ${this.getBufferLength().toFixed(1)}s)`);
+        }
+        const state = this.variants[variantIndex]!;
+        if (!state.playlist) {
+            await this.loadPlaylist(variantIndex, signal);
+        }
+
+        let segment = this.findNextSegment(state);
+        while (!segment) {
+            const playlist = state.playlist!;
+            if (playlist.endList) {
+                this.ended = true;
+                return;
+            }
+            // 直播：等待播放列表更新出下一个分片，上次刷新没有变化时按半个目标时长重试（RFC 8216 6.3.4）
+            const interval = (state.unchanged ? playlist.targetDuration / 2 : playlist.targetDuration) * 1000;
+            const wait = state.loadedAt + interval - performance.now();
+            if (wait > 0) {
+                await delay(wait, AbortSignal.any([signal, this.destroyController.signal]));
+            }
+            await this.loadPlaylist(variantIndex, signal);
+            segment = this.findNextSegment(state);
+        }
+
+        const requestSignal = AbortSignal.any([signal, this.destroyController.signal]);
+        const headers: Record<string, string> = {};
+        if (segment.byteRange) {
+            headers['Range'] = `bytes=${segment.byteRange.offset}-${segment.byteRange.offset + segment.byteRange.length - 1}`;
+        }
+        const startTime = performance.now();
+        const response = await this.fetchWithRetry(segment.url, { headers }, requestSignal);
+        const data = new Uint8Array(await response.arrayBuffer());
+        const elapsed = Math.max(1, performance.now() - startTime);
+        if (signal.aborted) {
+            return;
+        }
+
+        // 按分片时长加权，过小的分片测量误差大，权重也小
+        const bandwidth = data.length * 8 / (elapsed / 1000);
+        const weight = Math.max(segment.duration, 0.5);
+        this.fastEstimator.sample(weight, bandwidth);
+        this.slowEstimator.sample(weight, bandwidth);
+
+        this.currentVariant = variantIndex;
+        this.fetched.push({ segment, variant: variantIndex, data });
+        this.nextSequence = segment.sequence + 1;
+        this.nextTime = segment.start + segment.duration;
+        this.options.onSegmentLoaded?.();
+    }
+
+    /**
+     * 在档位的播放列表中查找下一个要下载的分片
+     * @returns 还没有出现在播放列表中时返回 undefined（直播需要刷新，点播表示结束）
+     */
+    private findNextSegment(state: VariantState): TimedSegment | undefined {
+        const segments = state.segments;
+        const first = segments[0];
+        if (!first) {
+            return undefined;
+        }
+
+        // 切换档位时优先按序号对齐，序号不对齐时按时间查找
+        const segment = segments.find((segment) => segment.sequence === this.nextSequence)
+            ?? (this.live ? undefined : segments.find((segment) => segment.start + segment.duration > this.nextTime + 0.001));
+        if (segment) {
+            return segment;
+        }
+
+        if (this.live && this.nextSequence < first.sequence) {
+            // 下载跟不上直播的滑动窗口，跳到窗口中最早的分片，时间戳不再连续
+            console.warn(`[HlsSource] Fell behind the live window (sequence ${this.nextSequence} < ${first.sequence}), skipping ahead`);
+            this.skippedDiscontinuities++;
+            return first;
+        }
+        return undefined;
+    }
+
+    /**
+     * 根据带宽估计和缓冲长度选择档位
+     */
+    private selectVariant(): number {
+        if (this.variants.length <= 1) {
+            return 0;
+        }
+
+        const budget = this.getBandwidthEstimate() * this.options.bandwidthSafetyFactor;
+        let candidate = 0;
+        this.variants.forEach((state, index) => {
+            if (state.variant.bandwidth <= budget) {
+                candidate = index;
+            }
+        });
+
+        // 没有测量数据时直接使用候选档位
+        if (!this.fastEstimator.hasSamples()) {
+            return candidate;
+        }
+        const bufferLength = this.getBufferLength();
+        // 缓冲不足时升档容易卡顿，缓冲充足时可以承受短暂的带宽下降
+        if (candidate > this.currentVariant && bufferLength < this.options.minBufferForUpSwitch) {
+            return this.currentVariant;
+        }
+        if (candidate < this.currentVariant && bufferLength > this.options.maxBufferLength / 2) {
+            return this.currentVariant;
+        }
+        return candidate;
+    }
+
+    private getBandwidthEstimate(): number {
+        if (!this.fastEstimator.hasSamples()) {
+            return this.options.initialBandwidth;
+        }
+        // 取快慢两个平均中较小的一个：带宽下降时反应快，上升时反应慢
+        return Math.min(this.fastEstimator.getEstimate(), this.slowEstimator.getEstimate());
+    }
+
+    /**
+     * 已下载、尚未播放的时长（秒）
+     */
+    private getBufferLength(): number {
+        const playbackTime = this.options.getPlaybackTime?.();
+        const playhead = playbackTime !== undefined
+            ? this.timelineStart + playbackTime
+            : this.timelineStart + (this.delivered[this.delivered.length - 1]?.info.start ?? 0);
+        return Math.max(0, this.nextTime - playhead);
+    }
+
+    /**
+     * 加载（或刷新）档位的 media playlist
+     */
+    private async loadPlaylist(index: number, signal: AbortSignal) {
+        const state = this.variants[index]!;
+        const requestSignal = AbortSignal.any([signal, this.destroyController.signal]);
+        const playlist = parseHlsPlaylist(await this.fetchText(state.variant.url, requestSignal), state.variant.url);
+        if (playlist.type !== 'media') {
+            throw new Error(`HLS 档位 ${state.variant.url} 不是 media playlist`);
+        }
+        this.updatePlaylist(state, playlist.playlist);
+    }
+
+    /**
+     * 更新播放列表，并用已知分片的起始时间把新分片放到同一条时间线上
+     */
+    private updatePlaylist(state: VariantState, playlist: HlsMediaPlaylist) {
+        const segments = playlist.segments;
+        let anchorIndex = segments.findIndex((segment) => this.segmentStarts.has(segment.sequence));
+        let anchorStart = 0;
+        if (anchorIndex >= 0) {
+            anchorStart = this.segmentStarts.get(segments[anchorIndex]!.sequence)!;
+        } else if (this.segmentStarts.size && segments.length) {
+            // 与已知分片没有重叠：按目标时长从最后一个已知分片推算
+            let lastSequence = -Infinity;
+            this.segmentStarts.forEach((_start, sequence) => {
+                lastSequence = Math.max(lastSequence, sequence);
+            });
+            anchorIndex = 0;
+            anchorStart = this.segmentStarts.get(lastSequence)! + (segments[0]!.sequence - lastSequence) * playlist.targetDuration;
+        } else {
+            anchorIndex = 0;
+        }
+
+        const timed: TimedSegment[] = segments.map((segment) => ({ ...segment, start: 0 }));
+        for (let i = anchorIndex, start = anchorStart; i < timed.length; i++) {
+            timed[i]!.start = start;
+            start += timed[i]!.duration;
+        }
+        for (let i = anchorIndex - 1, start = anchorStart; i >= 0; i--) {
+            start -= timed[i]!.duration;
+            timed[i]!.start = start;
+        }
+        timed.forEach((segment) => this.segmentStarts.set(segment.sequence, segment.start));
+        // 直播只保留滑动窗口附近的序号
+        const first = timed[0];
+        if (first) {
+            this.segmentStarts.forEach((_start, sequence) => {
+                if (sequence < first.sequence - DELIVERED_INFO_COUNT) {
+                    this.segmentStarts.delete(sequence);
+                }
+            });
+        }
+
+        state.unchanged = !!state.playlist && timed[timed.length - 1]?.sequence === state.segments[state.segments.length - 1]?.sequence;
+        state.playlist = playlist;
+        state.segments = timed;
+        state.loadedAt = performance.now();
+    }
+
+    private async fetchText(url: string, signal: AbortSignal): Promise<string> {
+        const response = await this.fetchWithRetry(url, {}, signal);
+        return response.text();
+    }
+
+    /**
+     * 发起请求，可恢复的错误按指数退避重试
+     */
+    private async fetchWithRetry(url: string, init: RequestInit, signal: AbortSignal): Promise<Response> {
+        const { maxRetries, retryDelay } = this.options;
+        for (let attempt = 0; ; attempt++) {
+            let retryable = true;
+            try {
+                const response = await fetch(url, { ...init, signal });
+                if (response.ok) {
+                    return response;
+                }
+                retryable = isRetryableStatus(response.status);
+                throw new Error(`HTTP ${response.status} ${response.statusText} (${url})`);
+            } catch (error) {
+                if (isAbortError(error) || !retryable || attempt >= maxRetries) {
+                    throw error;
+                }
+                const wait = retryDelay * 2 ** attempt;
+                console.warn(`[HlsSource] Request failed, retrying in ${wait}ms (${attempt + 1}/${maxRetries}):`, error);
+                await delay(wait, signal);
+            }
+        }
+    }
+
+    destroy() {
+        this.destroyController.abort();
+        this.loadController.abort();
+        this.fetched = [];
+        this.delivered = [];
+        this.notify();
+    }
+}
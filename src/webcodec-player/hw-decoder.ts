@@ -1,28 +1,173 @@
-import { VideoRender } from "./video-render";
+import { createRenderer, type Renderer, type RendererType } from "./renderer";
+import { parseVideoCodecInfo, type VideoCodecInfo } from "./codec-string";
+import { parseBitstreamInfo, toVideoColorSpace, getDisplayAspect, type VideoBitstreamInfo } from "./parameter-sets";
+import { createSeiContext, extractSeiMessages, type SeiContext, type SeiEvent, type SeiMessage } from "./sei";
+import { SoftwareDecoder } from "./sw-decoder";
+import { EventEmitter } from "./event-emitter";
+import { encodeFrameImage, copyFramePlanes, type ImageFrameFormat, type RawFrameFormat, type RawFrameData } from "./frame-export";
+import type AVCodecParameters from "@libmedia/avutil/struct/avcodecparameters";
+
+export type VideoCodec = 'h264' | 'h265' | 'vp9' | 'vp8';
+
+/**
+ * auto: 优先硬件（WebCodecs），不支持时回退到软件解码；hardware / software: 强制使用其中一种
+ */
+export type DecodeMode = 'auto' | 'hardware' | 'software';
+
+/**
+ * 实际使用的解码路径
+ */
+export type DecodePath = 'hardware' | 'software';
+
+/**
+ * 播放器状态
+ * - idle: 已销毁（销毁时不再触发事件）
+ * - loading: 正在检查/加载解码器，构造后即处于该状态
+ * - ready: 解码器已配置，尚未渲染出第一帧
+ * - playing / paused: 已渲染出画面，由 play() / pause() 切换；ready 状态下暂停同样进入 paused
+ * - ended: endOfStream() 后剩余帧全部输出，reset()（seek）后回到 playing / paused
+ * - error: 没有可用的解码器，或解码器出错
+ */
+export type PlayerState = 'idle' | 'loading' | 'ready' | 'playing' | 'paused' | 'ended' | 'error';
+
+/**
+ * 解码器重建的原因
+ * - parameter-change: 码流中的 SPS/PPS/VPS 变化，按新的 description 重新配置
+ * - decoder-error: 解码器出错（如损坏的 NAL），重建后从下一个关键帧继续
+ */
+export type RecoveryCause = 'parameter-change' | 'decoder-error';
+
+export interface RecoveryInfo {
+    cause: RecoveryCause;
+    error?: Error; // decoder-error 时的错误
+    attempt?: number; // decoder-error 时为连续恢复的第几次
+}
+
+export interface DecoderConfiguredInfo {
+    codecString: string; // 实际使用的 WebCodecs 编码字符串
+    decodePath: DecodePath;
+    width: number;
+    height: number;
+}
+
+/**
+ * WebcodecPlayer 的事件及回调参数
+ */
+export interface WebcodecPlayerEvents {
+    configured: [info: DecoderConfiguredInfo]; // 解码器配置完成
+    firstframe: [timestamp: number]; // 渲染出第一帧（微秒）
+    frame: [timestamp: number]; // 每渲染一帧（微秒）
+    decoded: [timestamp: number]; // 解码器每输出一帧，包括 seek 后不显示的帧，用于判断解码进度
+    waiting: []; // 播放中数据不足，由调用方通过 notifyWaiting() 通知
+    ended: []; // endOfStream() 后剩余帧全部输出
+    error: [error: Error]; // 无法恢复的错误，之后进入 error 状态
+    recovery: [info: RecoveryInfo]; // 解码器被重建，之后从下一个关键帧继续解码
+    resize: [width: number, height: number]; // 解码输出的画面尺寸与之前不同，渲染器已随之调整
+    statechange: [state: PlayerState, previous: PlayerState];
+    sei: [event: SeiEvent]; // 解码器输出的帧带有 SEI（仅 H.264/H.265），按显示顺序触发，包括 seek 后不显示的帧
+}
 
 interface WebcodecPlayerOptions {
-    codec: 'h264' | 'h265' | 'vp9' | 'vp8';
+    codec: VideoCodec;
     width: number;
     height: number;
-    videoEl: HTMLVideoElement;
+    videoEl?: HTMLVideoElement; // Worker 中没有 DOM，使用 canvasEl（OffscreenCanvas）或 onVideoFrame
+    canvasEl?: HTMLCanvasElement | OffscreenCanvas; // canvas 渲染使用的画布，不传时自动创建
+    renderer?: RendererType; // 渲染器类型，默认根据浏览器能力自动选择
+    onVideoFrame?: (videoFrame: VideoFrame) => void; // 不在本线程渲染，把解码出的帧交给回调，接收方负责 close
     description?: Uint8Array; // H.264 和 H.265 需要的 extradata/description
+    decodeMode?: DecodeMode; // 默认 auto
+    codecpar?: AVCodecParameters; // 解封装得到的视频流参数，软件解码需要
+    wasmBaseUrl?: string; // 软件解码器 wasm 所在目录
+}
+
+interface PendingChunk {
+    data: Uint8Array;
+    isKeyframe: boolean;
+    timestamp: number;
+    duration?: number;
 }
 
+// 暂存 SEI 的帧数上限，超过时丢弃最早的（没有输出的帧，如 seek 前送入的数据）
+const MAX_PENDING_SEI = 256;
+// 解码器出错后连续自动恢复的次数上限，超过后进入 error 状态
+const MAX_RECOVERY_ATTEMPTS = 3;
+// 恢复后连续正常输出该帧数，恢复次数重新计算
+const RECOVERY_RESET_FRAMES = 100;
+
 const CodecRecord: Record<string, string> = {
     'h264': 'avc1.42001e',
     'h265': 'hev1.1.6.L120.B0',
+    'vp8': 'vp8',
+    'vp9': 'vp09.00.10.08',
 } as const;
 
-export class WebcodecPlayer {
+/**
+ * 获取 WebCodecs 编码字符串：优先根据码流参数构建，无法解析时使用默认值
+ * @param codec 编码类型
+ * @param description avcC/hvcC
+ */
+export function getVideoCodecString(codec: VideoCodec, description?: Uint8Array): string {
+    return parseVideoCodecInfo(codec, description)?.codecString ?? CodecRecord[codec]!;
+}
+
+/**
+ * 将解封装得到的编码名称（dumpCodecName）转换为播放器支持的编码类型
+ * @param codecName 编码名称，如 h264、hevc、vp9
+ * @returns 不支持时返回 undefined
+ */
+export function toVideoCodec(codecName: string): VideoCodec | undefined {
+    switch (codecName.toLowerCase()) {
+        case 'h264':
+        case 'avc':
+            return 'h264';
+        case 'hevc':
+        case 'h265':
+            return 'h265';
+        case 'vp8':
+            return 'vp8';
+        case 'vp9':
+            return 'vp9';
+        default:
+            return undefined;
+    }
+}
+
+export class WebcodecPlayer extends EventEmitter<WebcodecPlayerEvents> {
     private options: WebcodecPlayerOptions;
-    private videoRender: VideoRender | null;
+    private videoRender: Renderer | null;
     private decoderProfile: VideoDecoderConfig | null;
     private decoder: VideoDecoder | null;
     private frameCount: number = 0;
     private hasReceivedKeyframe: boolean = false; // 跟踪是否已收到第一个关键帧
+    private currentTimestamp: number = -1; // 最近一次渲染帧的 timestamp（微秒）
+    private dropBeforeTimestamp: number = -Infinity; // seek 后丢弃 timestamp 早于该值的帧（微秒）
+    private codecInfo: VideoCodecInfo | null = null; // 从 SPS 或 avcC/hvcC 解析出的编码信息
+    private bitstreamInfo: VideoBitstreamInfo | null = null; // 从参数集解析出的码流参数
+    private seiContext: SeiContext | null = null; // 解析 pic_timing 需要的 SPS 字段
+    private pendingSei: Map<number, SeiMessage[]> = new Map(); // 按 pts 暂存已送入解码器的帧中的 SEI
+    private softwareDecoder: SoftwareDecoder | null = null;
+    private decodePath: DecodePath | null = null;
+    private initializing: boolean = true; // 解码器检查/加载期间到达的数据先缓存
+    private softwareResetting: boolean = false; // 软件解码器 reset 期间到达的数据先缓存
+    private pendingChunks: PendingChunk[] = [];
+    private destroyed: boolean = false;
+    private state: PlayerState = 'loading';
+    private paused: boolean = false;
+    private firstFrameRendered: boolean = false;
+    private resetCount: number = 0; // 用于判断 flush 期间是否发生了 reset
+    private decoderGeneration: number = 0; // 每次创建解码器加一，用于丢弃过期的异步创建结果
+    private recoveryAttempts: number = 0;
+    private framesSinceRecovery: number = 0;
+    private frameWidth: number; // 最近渲染帧的显示尺寸
+    private frameHeight: number;
+    private displayedFrame: VideoFrame | null = null; // 最近渲染帧的副本，用于截图
 
     constructor(options: WebcodecPlayerOptions) {
+        super();
         this.options = options;
+        this.frameWidth = options.width;
+        this.frameHeight = options.height;
         
         console.log('[WebcodecPlayer] Initializing with options:', {
             codec: options.codec,
@@ -31,90 +176,391 @@ export class WebcodecPlayer {
             hasVideoEl: !!options.videoEl
         });
         
-        this.videoRender = new VideoRender({
+        this.videoRender = createRenderer({
             width: options.width,
             height: options.height,
             videoEl: options.videoEl,
+            canvasEl: options.canvasEl,
+            type: options.renderer,
+            onFrame: options.onVideoFrame,
         });
         this.decoderProfile = null;
         this.decoder = null;
+        this.codecInfo = parseVideoCodecInfo(options.codec, options.description) ?? null;
+        this.bitstreamInfo = parseBitstreamInfo(options.codec, options.description) ?? null;
+        this.updateSeiContext();
 
         this.createDecoder();
     }
 
     private async createDecoder() {
+        const mode = this.options.decodeMode ?? 'auto';
+        const generation = ++this.decoderGeneration;
+        let path: DecodePath | null = null;
+
+        if (mode !== 'software' && await this.createHardwareDecoder(generation)) {
+            path = 'hardware';
+        } else if (mode !== 'hardware' && await this.createSoftwareDecoder(generation)) {
+            path = 'software';
+        }
+
+        if (this.isStale(generation)) {
+            return;
+        }
+        this.decodePath = path;
+        this.initializing = false;
+        if (!path) {
+            this.pendingChunks = [];
+            this.fail(new Error(`没有可用的 ${this.options.codec} 解码器（解码方式: ${mode}）`));
+            return;
+        }
+
+        console.log(`[WebcodecPlayer] Using ${path} decoder`);
+        // 重新配置时保持当前的播放状态
+        if (this.state === 'loading') {
+            this.setState(this.paused ? 'paused' : 'ready');
+        }
+        this.emit('configured', {
+            codecString: this.getCodecString() ?? '',
+            decodePath: path,
+            width: this.options.width,
+            height: this.options.height,
+        });
+        this.decodePendingChunks();
+    }
+
+    /**
+     * 解码等待期间缓存的数据
+     */
+    private decodePendingChunks() {
+        const pendingChunks = this.pendingChunks;
+        this.pendingChunks = [];
+        pendingChunks.forEach((chunk) => this.decode(chunk.data, chunk.isKeyframe, chunk.timestamp, chunk.duration));
+    }
+
+    /**
+     * 异步创建解码器期间播放器已销毁，或者已经开始了新一次创建
+     */
+    private isStale(generation: number): boolean {
+        return this.destroyed || generation !== this.decoderGeneration;
+    }
+
+    /**
+     * 关闭当前的解码器（硬件和软件）
+     */
+    private closeDecoder() {
+        if (this.decoder && this.decoder.state !== 'closed') {
+            this.decoder.close();
+        }
+        this.decoder = null;
+        this.decoderProfile = null;
+        this.softwareDecoder?.close();
+        this.softwareDecoder = null;
+        this.softwareResetting = false;
+    }
+
+    /**
+     * 关闭并重新创建解码器，期间到达的数据先缓存，之后从关键帧开始解码
+     */
+    private restartDecoder() {
+        this.closeDecoder();
+        this.decodePath = null;
+        this.initializing = true;
+        this.hasReceivedKeyframe = false;
+        this.createDecoder();
+    }
+
+    /**
+     * 解码器出错：在恢复次数上限内重建解码器，从下一个关键帧继续；超过上限进入 error 状态
+     * @param error 解码器报告的错误
+     */
+    private handleDecoderError(error: Error) {
+        if (this.destroyed) {
+            return;
+        }
+        if (this.recoveryAttempts >= MAX_RECOVERY_ATTEMPTS) {
+            this.closeDecoder();
+            this.decodePath = null;
+            this.fail(new Error(`解码器连续出错 ${this.recoveryAttempts + 1} 次，停止恢复: ${error.message}`));
+            return;
+        }
+        this.recoveryAttempts++;
+        this.framesSinceRecovery = 0;
+        console.warn(`[WebcodecPlayer] Decoder error, recovering (${this.recoveryAttempts}/${MAX_RECOVERY_ATTEMPTS}):`, error);
+        this.emit('recovery', { cause: 'decoder-error', error, attempt: this.recoveryAttempts });
+        this.restartDecoder();
+    }
+
+    /**
+     * 码流的编码参数（SPS/PPS/VPS）变化：按新的 description 重新配置解码器，从这一帧（关键帧）开始解码
+     * @param description 新的 avcC/hvcC
+     * @param width 新的分辨率，未知时沿用之前的值，实际尺寸以解码输出为准
+     * @param height 新的分辨率
+     */
+    reconfigure(description: Uint8Array | undefined, width?: number, height?: number) {
+        if (this.destroyed) {
+            return;
+        }
+        this.options = {
+            ...this.options,
+            description,
+            width: width || this.options.width,
+            height: height || this.options.height,
+        };
+        this.codecInfo = parseVideoCodecInfo(this.options.codec, description) ?? null;
+        this.bitstreamInfo = parseBitstreamInfo(this.options.codec, description) ?? null;
+        this.updateSeiContext();
+        console.log(`[WebcodecPlayer] Reconfiguring decoder: ${this.getCodecString()}, ${this.options.width}x${this.options.height}`);
+        this.emit('recovery', { cause: 'parameter-change' });
+        this.restartDecoder();
+    }
+
+    private setState(state: PlayerState) {
+        if (this.destroyed || state === this.state) {
+            return;
+        }
+        const previous = this.state;
+        this.state = state;
+        this.emit('statechange', state, previous);
+    }
+
+    /**
+     * 进入 error 状态并触发 error 事件
+     */
+    private fail(error: Error) {
+        console.error('[WebcodecPlayer]', error);
+        this.setState('error');
+        this.emit('error', error);
+    }
+
+    /**
+     * 创建 WebCodecs 硬件解码器
+     * @returns 是否成功
+     */
+    private async createHardwareDecoder(generation: number): Promise<boolean> {
+        if (!(globalThis as any)['VideoDecoder']) {
+            console.warn('[WebcodecPlayer] This browser does not support VideoDecoder');
+            return false;
+        }
+
         const codecString = this.getCodecString();
         
         if (!codecString) {
             console.error(`[WebcodecPlayer] Unsupported codec: ${this.options.codec}`);
-            return;
+            return false;
         }
 
-        this.decoderProfile = {
+        const config = {
             codedWidth: this.options.width,
             codedHeight: this.options.height,
             codec: codecString,
         } as VideoDecoderConfig;
 
+        // 能解析参数集时使用码流中的编码尺寸、显示宽高比（非方形像素）和色彩空间
+        if (this.bitstreamInfo) {
+            config.codedWidth = this.bitstreamInfo.codedWidth;
+            config.codedHeight = this.bitstreamInfo.codedHeight;
+            const displayAspect = getDisplayAspect(this.bitstreamInfo);
+            if (displayAspect) {
+                config.displayAspectWidth = displayAspect.width;
+                config.displayAspectHeight = displayAspect.height;
+            }
+            const colorSpace = toVideoColorSpace(this.bitstreamInfo);
+            if (colorSpace) {
+                config.colorSpace = colorSpace;
+            }
+        }
+
         // H.264 和 H.265 需要 description 字段
         if ((this.options.codec === 'h264' || this.options.codec === 'h265') && this.options.description) {
-            this.decoderProfile.description = this.options.description;
+            config.description = this.options.description;
             console.log(`[WebcodecPlayer] Added description for ${this.options.codec.toUpperCase()}, size: ${this.options.description.length} bytes`);
         }
         
         // 检查浏览器是否支持该编解码器
         try {
-            const support = await VideoDecoder.isConfigSupported(this.decoderProfile);
+            const support = await VideoDecoder.isConfigSupported(config);
             if (!support.supported) {
                 console.error(`[WebcodecPlayer] Codec not supported by browser: ${codecString}`);
                 console.error('Support info:', support);
-                return;
+                return false;
             }
             console.log(`[WebcodecPlayer] Codec supported: ${codecString}`);
         } catch (error) {
             console.warn('[WebcodecPlayer] Could not check codec support:', error);
         }
+
+        if (this.isStale(generation)) {
+            return false;
+        }
         
         // 创建解码器
-        this.decoder = new VideoDecoder({
+        const decoder = new VideoDecoder({
            output: (videoFrame: VideoFrame) => {
-                // 渲染视频帧
-                if (this.videoRender) {
-                    this.videoRender.render(videoFrame);
-                } else {
-                    videoFrame.close();
-                }
+                this.handleFrame(videoFrame);
            },
            error: (error) => {
-                console.error('[WebcodecPlayer] Decoder error:', error);
+                // 已被替换的解码器关闭时的错误忽略
+                if (decoder === this.decoder) {
+                    this.handleDecoderError(error);
+                }
            },
         });
         
         try {
             // 配置解码器
-            this.decoder.configure(this.decoderProfile);
+            decoder.configure(config);
+            this.decoder = decoder;
+            this.decoderProfile = config;
             console.log(`[WebcodecPlayer] Decoder configured successfully: ${this.options.codec}, ${codecString}`);
+            return true;
         } catch (error) {
             console.error(`[WebcodecPlayer] Failed to configure decoder:`, error);
+            decoder.close();
+            return false;
+        }
+    }
+
+    /**
+     * 创建基于 WASM 的软件解码器
+     * @returns 是否成功
+     */
+    private async createSoftwareDecoder(generation: number): Promise<boolean> {
+        if (!this.options.codecpar || !SoftwareDecoder.isSupported(this.options.codec)) {
+            console.warn(`[WebcodecPlayer] Software decoding is not available for ${this.options.codec}`);
+            return false;
+        }
+
+        console.log('[WebcodecPlayer] Falling back to software decoder');
+        const softwareDecoder = new SoftwareDecoder({
+            codec: this.options.codec,
+            codecpar: this.options.codecpar,
+            description: this.options.description,
+            wasmBaseUrl: this.options.wasmBaseUrl,
+            onFrame: (videoFrame) => this.handleFrame(videoFrame),
+        });
+        this.softwareDecoder = softwareDecoder;
+
+        if (!await softwareDecoder.open() || this.isStale(generation)) {
+            softwareDecoder.close();
+            if (this.softwareDecoder === softwareDecoder) {
+                this.softwareDecoder = null;
+            }
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * 处理解码输出的视频帧（硬件和软件解码共用）
+     * @param videoFrame 视频帧
+     */
+    private handleFrame(videoFrame: VideoFrame) {
+        this.emit('decoded', videoFrame.timestamp);
+        const seiMessages = this.pendingSei.get(videoFrame.timestamp);
+        if (seiMessages) {
+            this.pendingSei.delete(videoFrame.timestamp);
+            this.emit('sei', { timestamp: videoFrame.timestamp, messages: seiMessages });
+        }
+        // seek 后从关键帧解码到目标位置之前的帧只用于参考，不显示
+        if (videoFrame.timestamp < this.dropBeforeTimestamp) {
+            videoFrame.close();
+            return;
+        }
+        this.dropBeforeTimestamp = -Infinity;
+        this.currentTimestamp = videoFrame.timestamp;
+        if (this.recoveryAttempts && ++this.framesSinceRecovery >= RECOVERY_RESET_FRAMES) {
+            this.recoveryAttempts = 0;
+        }
+        // 分辨率变化（新的 SPS 生效）时调整渲染尺寸
+        const { displayWidth, displayHeight } = videoFrame;
+        if (displayWidth && displayHeight && (displayWidth !== this.frameWidth || displayHeight !== this.frameHeight)) {
+            console.log(`[WebcodecPlayer] Frame size changed: ${this.frameWidth}x${this.frameHeight} -> ${displayWidth}x${displayHeight}`);
+            this.frameWidth = displayWidth;
+            this.frameHeight = displayHeight;
+            this.videoRender?.resize(displayWidth, displayHeight);
+            this.emit('resize', displayWidth, displayHeight);
+        }
+        if (!this.firstFrameRendered) {
+            this.firstFrameRendered = true;
+            this.emit('firstframe', videoFrame.timestamp);
+        }
+        if (this.state === 'ready') {
+            this.setState('playing');
+        }
+        this.emit('frame', videoFrame.timestamp);
+        // 渲染器会关闭传入的帧，保留一份副本（共享同一块帧数据）
+        this.displayedFrame?.close();
+        this.displayedFrame = videoFrame.clone();
+        // 渲染视频帧
+        if (this.videoRender) {
+            this.videoRender.render(videoFrame);
+        } else {
+            videoFrame.close();
         }
     }
 
     private getCodecString() {
+        // 优先使用根据实际码流参数构建的编码字符串，解析失败时回退到默认值
+        if (this.codecInfo) {
+            return this.codecInfo.codecString;
+        }
+        if (this.options.codec === 'h264' || this.options.codec === 'h265') {
+            console.warn(`[WebcodecPlayer] Could not derive codec string from stream, falling back to ${CodecRecord[this.options.codec]}`);
+        }
         return CodecRecord[this.options.codec];
     }
 
+    /**
+     * 获取从码流参数中解析出的编码信息（编码字符串、profile、level），无法解析时返回 null
+     */
+    getCodecInfo(): VideoCodecInfo | null {
+        return this.codecInfo;
+    }
+
+    /**
+     * 获取从 SPS/PPS/VPS 中解析出的码流参数，没有参数集或解析失败时返回 null
+     */
+    getBitstreamInfo(): VideoBitstreamInfo | null {
+        return this.bitstreamInfo;
+    }
+
     /**
      * 解码视频数据（通过速度控制器）
      * @param encodeVideoBuffer 编码后的视频数据
      * @param isKeyframe 是否是关键帧
+     * @param timestamp 显示时间戳 pts（微秒）
+     * @param duration 帧时长（微秒），未知时不传
      */
-    decode(encodeVideoBuffer: Uint8Array, isKeyframe: boolean) {
+    decode(encodeVideoBuffer: Uint8Array, isKeyframe: boolean, timestamp: number = 0, duration?: number) {
+        // 解码器仍在检查/加载或重置中，先缓存
+        if (this.initializing || this.softwareResetting) {
+            this.pendingChunks.push({ data: encodeVideoBuffer, isKeyframe, timestamp, duration });
+            return;
+        }
+        // 没有可用的解码器
+        if (!this.decodePath) {
+            return;
+        }
+        this.collectSei(encodeVideoBuffer, timestamp);
+
+        if (this.softwareDecoder) {
+            if (this.acceptChunk(isKeyframe)) {
+                this.softwareDecoder.decode(encodeVideoBuffer, isKeyframe, timestamp, duration);
+            }
+            return;
+        }
+
         // 创建 EncodedVideoChunk 并添加到速度控制队列
-        const encodedVideoChunk = new EncodedVideoChunk({
+        const init: EncodedVideoChunkInit = {
             data: encodeVideoBuffer,
             type: isKeyframe ? 'key' : 'delta',
-            timestamp: 0
-        });
+            timestamp,
+        };
+        if (duration !== undefined && duration > 0) {
+            init.duration = duration;
+        }
+        const encodedVideoChunk = new EncodedVideoChunk(init);
         this.decodeChunk(encodedVideoChunk);
         this.frameCount++;
         // 每100帧输出一次调试信息
@@ -123,26 +569,65 @@ export class WebcodecPlayer {
         }
     }
 
+    private updateSeiContext() {
+        const { codec, description } = this.options;
+        this.seiContext = codec === 'h264' || codec === 'h265' ? createSeiContext(codec, description) : null;
+    }
+
     /**
-     * 实际解码视频帧（由速度控制器调用）
-     * @param encodedVideoChunk 编码后的视频数据块
+     * 解析送入解码器的帧中的 SEI，暂存到该帧输出时再触发 sei 事件（解码顺序与显示顺序可能不同）
+     * 没有订阅时跳过解析
+     * @param data 视频数据
+     * @param timestamp 显示时间戳 pts（微秒）
      */
-    private decodeChunk(encodedVideoChunk: EncodedVideoChunk) {
-        if (!this.decoder) {
-            console.warn('[WebcodecPlayer] Decoder not initialized');
+    private collectSei(data: Uint8Array, timestamp: number) {
+        if (!this.seiContext || !this.hasListeners('sei')) {
             return;
         }
+        const messages = extractSeiMessages(this.seiContext, data);
+        if (!messages.length) {
+            return;
+        }
+        this.pendingSei.set(timestamp, messages);
+        if (this.pendingSei.size > MAX_PENDING_SEI) {
+            this.pendingSei.delete(this.pendingSei.keys().next().value!);
+        }
+    }
 
-        // 如果还没有收到第一个关键帧，跳过所有非关键帧
-        // WebCodecs 要求 configure() 后第一个解码的帧必须是关键帧
+    /**
+     * 如果还没有收到第一个关键帧，跳过所有非关键帧
+     * WebCodecs 要求 configure() 后第一个解码的帧必须是关键帧，软件解码从非关键帧开始也只会输出花屏
+     * @param isKeyframe 是否是关键帧
+     */
+    private acceptChunk(isKeyframe: boolean): boolean {
         if (!this.hasReceivedKeyframe) {
-            if (encodedVideoChunk.type !== 'key') {
+            if (!isKeyframe) {
                 console.log('[WebcodecPlayer] Skipping non-keyframe before first keyframe');
-                return;
+                return false;
             }
             this.hasReceivedKeyframe = true;
             console.log('[WebcodecPlayer] Received first keyframe, starting decoding');
         }
+        return true;
+    }
+
+    /**
+     * 实际解码视频帧（由速度控制器调用）
+     * @param encodedVideoChunk 编码后的视频数据块
+     */
+    private decodeChunk(encodedVideoChunk: EncodedVideoChunk) {
+        if (!this.decoder) {
+            console.warn('[WebcodecPlayer] Decoder not initialized');
+            return;
+        }
+        // 出错的解码器已被关闭，错误回调触发恢复之前到达的数据直接丢弃
+        if (this.decoder.state === 'closed') {
+            return;
+        }
+
+        if (!this.acceptChunk(encodedVideoChunk.type === 'key')) {
+            return;
+        }
 
         try {
             // console.log('[WebcodecPlayer] Decoding chunk:', encodedVideoChunk);
@@ -152,12 +637,180 @@ export class WebcodecPlayer {
         }
     }
 
+    /**
+     * 重置解码器（用于 seek）：丢弃所有待解码/待输出的帧并重新配置，
+     * 之后必须从关键帧开始解码
+     * @param dropBeforeTimestamp 丢弃 timestamp 早于该值的输出帧（微秒），实现精确到帧的 seek
+     */
+    reset(dropBeforeTimestamp: number = -Infinity) {
+        this.resetCount++;
+        if (this.state === 'ended') {
+            this.setState(this.paused ? 'paused' : 'playing');
+        }
+        this.dropBeforeTimestamp = dropBeforeTimestamp;
+        this.hasReceivedKeyframe = false;
+        this.pendingChunks = [];
+        this.pendingSei.clear();
+
+        if (this.softwareDecoder) {
+            // reset 期间输出的帧都会被丢弃，新位置的数据等 reset 完成后再送入
+            const softwareDecoder = this.softwareDecoder;
+            const resetCount = this.resetCount;
+            this.softwareResetting = true;
+            softwareDecoder.reset()
+                .catch((error) => {
+                    console.error('[WebcodecPlayer] Failed to reset software decoder:', error);
+                })
+                .finally(() => {
+                    // 期间又 reset 过或解码器已更换，由最后一次处理
+                    if (resetCount !== this.resetCount || this.softwareDecoder !== softwareDecoder) {
+                        return;
+                    }
+                    this.softwareResetting = false;
+                    this.decodePendingChunks();
+                });
+            return;
+        }
+
+        if (!this.decoder || !this.decoderProfile || this.decoder.state === 'closed') {
+            return;
+        }
+        try {
+            // reset 会丢弃解码器内部的所有帧，flush 则会把旧位置的帧输出出来，因此这里用 reset
+            this.decoder.reset();
+            this.decoder.configure(this.decoderProfile);
+        } catch (error) {
+            console.error('[WebcodecPlayer] Failed to reset decoder:', error);
+        }
+    }
+
+    /**
+     * 输入结束：输出解码器中缓存的剩余帧，然后进入 ended 状态
+     * 之后继续解码必须从关键帧开始
+     */
+    async endOfStream() {
+        const resetCount = this.resetCount;
+        try {
+            if (this.softwareDecoder) {
+                await this.softwareDecoder.flush();
+            } else if (this.decoder && this.decoder.state === 'configured') {
+                await this.decoder.flush();
+            }
+        } catch (error) {
+            console.warn('[WebcodecPlayer] Failed to flush decoder:', error);
+        }
+        this.hasReceivedKeyframe = false;
+        // flush 期间 seek 过，不再是结尾
+        if (this.destroyed || this.state === 'error' || resetCount !== this.resetCount) {
+            return;
+        }
+        this.setState('ended');
+        this.emit('ended');
+    }
+
+    /**
+     * 继续播放（只切换状态，播放节奏由调用方控制）
+     */
+    play() {
+        this.paused = false;
+        if (this.state === 'paused') {
+            this.setState(this.firstFrameRendered ? 'playing' : 'ready');
+        }
+    }
+
+    /**
+     * 暂停（只切换状态，播放节奏由调用方控制）
+     */
+    pause() {
+        this.paused = true;
+        if (this.state === 'ready' || this.state === 'playing') {
+            this.setState('paused');
+        }
+    }
+
+    /**
+     * 通知播放器数据不足（调用方的待解码队列在播放中耗尽），播放中时触发 waiting 事件
+     */
+    notifyWaiting() {
+        if (this.state === 'playing') {
+            this.emit('waiting');
+        }
+    }
+
+    /**
+     * 获取当前状态
+     */
+    getState(): PlayerState {
+        return this.state;
+    }
+
+    /**
+     * 获取最近一次渲染帧的 timestamp（微秒），尚未渲染时返回 -1
+     */
+    getCurrentTimestamp(): number {
+        return this.currentTimestamp;
+    }
+
+    /**
+     * 获取当前显示的帧（副本），尚未渲染时返回 null
+     * @returns 调用方负责 close
+     */
+    getDisplayedFrame(): VideoFrame | null {
+        return this.displayedFrame?.clone() ?? null;
+    }
+
+    /**
+     * 按原始分辨率把当前显示的帧编码为图片，尚未渲染时返回 null
+     * @param format 图片格式，默认 png
+     * @param quality JPEG 质量 0 ~ 1
+     */
+    async captureFrame(format: ImageFrameFormat = 'png', quality?: number): Promise<Blob | null> {
+        const frame = this.getDisplayedFrame();
+        if (!frame) {
+            return null;
+        }
+        try {
+            return await encodeFrameImage(frame, format, quality);
+        } finally {
+            frame.close();
+        }
+    }
+
+    /**
+     * 导出当前显示帧的原始平面数据，尚未渲染时返回 null
+     * @param format I420 或 NV12，默认 I420
+     */
+    async captureFrameData(format: RawFrameFormat = 'I420'): Promise<RawFrameData | null> {
+        const frame = this.getDisplayedFrame();
+        if (!frame) {
+            return null;
+        }
+        try {
+            return await copyFramePlanes(frame, format);
+        } finally {
+            frame.close();
+        }
+    }
+
+    /**
+     * 获取实际使用的解码路径，解码器尚未就绪或不可用时返回 null
+     */
+    getDecodePath(): DecodePath | null {
+        return this.decodePath;
+    }
+
     destroy() {
-        this.decoder?.close();
-        this.decoder = null;
-        this.decoderProfile = null;
+        // 销毁后不再触发事件
+        this.removeAllListeners();
+        this.state = 'idle';
+        this.destroyed = true;
+        this.pendingChunks = [];
+        this.pendingSei.clear();
+        this.closeDecoder();
         this.videoRender?.destroy();
         this.videoRender = null;
+        this.displayedFrame?.close();
+        this.displayedFrame = null;
     }
     
 }
\ No newline at end of file
@@ -1,4 +1,31 @@
 export * from './hw-decoder';   
 export * from './video-render';
 export * from './utils';
-export * from './speed-control';
\ No newline at end of file
+export * from './speed-control';
+export * from './audio-player';
+export * from './keyframe-index';
+export * from './covered-ranges';
+export * from './thumbnail-generator';
+export * from './frame-export';
+export * from './clip-muxer';
+export * from './packet-inspector';
+export * from './probe';
+export * from './codec-string';
+export * from './bitstream';
+export * from './parameter-sets';
+export * from './sei';
+export * from './captions';
+export * from './subtitles';
+export * from './renderer';
+export * from './canvas-render';
+export * from './callback-render';
+export * from './sw-decoder';
+export * from './io-source';
+export * from './hls-playlist';
+export * from './hls-source';
+export * from './live-source';
+export * from './event-emitter';
+export * from './timeline';
+export * from './playback-control';
+export * from './packet-recorder';
+export * from './embedded-subtitles';
@@ -0,0 +1,339 @@
+/**
+ * IOReader 的数据源：本地 File 通过 Blob.slice 按需读取，URL 按块发起 Range 请求，
+ * 带 LRU 块缓存、后台预读和失败重试
+ * @author guo xiao
+ */
+
+export interface IOSource {
+    /**
+     * 打开数据源，确定文件大小
+     */
+    open(): Promise<void>;
+    /**
+     * 文件大小（字节），未知时为 0
+     */
+    getSize(): number;
+    /**
+     * 从指定位置读取数据到 buffer
+     * @param pos 读取位置（字节）
+     * @param buffer 目标缓冲区
+     * @returns 实际读取的字节数，到达文件末尾时为 0；无法恢复的错误会抛出
+     */
+    read(pos: number, buffer: Uint8Array): Promise<number>;
+    /**
+     * 读取位置跳转（seek）
+     * @param pos 新的读取位置（字节）
+     */
+    seek(pos: number): void;
+    destroy(): void;
+}
+
+/**
+ * 本地文件：按需读取，不把整个文件加载到内存
+ */
+export class FileSource implements IOSource {
+    private file: Blob | null;
+
+    constructor(file: Blob) {
+        this.file = file;
+    }
+
+    async open() {}
+
+    getSize(): number {
+        return this.file?.size ?? 0;
+    }
+
+    async read(pos: number, buffer: Uint8Array): Promise<number> {
+        if (!this.file || pos >= this.file.size) {
+            return 0;
+        }
+        const end = Math.min(this.file.size, pos + buffer.length);
+        const data = new Uint8Array(await this.file.slice(pos, end).arrayBuffer());
+        buffer.set(data, 0);
+        return data.length;
+    }
+
+    seek(_pos: number) {}
+
+    destroy() {
+        this.file = null;
+    }
+}
+
+export interface HttpRangeSourceOptions {
+    chunkSize?: number; // 每个块的大小（字节），默认 1MB
+    cacheSize?: number; // LRU 缓存的块数，默认 32
+    readAhead?: number; // 后台预读的块数，默认 2
+    maxRetries?: number; // 可恢复错误的最大重试次数，默认 3
+    retryDelay?: number; // 首次重试延迟（毫秒），之后指数退避，默认 500
+}
+
+interface PendingBlock {
+    promise: Promise<Uint8Array>;
+    controller: AbortController;
+    readAhead: boolean; // 仅由预读发起，seek 离开后可以取消
+}
+
+/**
+ * 不可重试的错误（4xx 等），直接抛出
+ */
+export function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+export function isAbortError(error: unknown): boolean {
+    return (error as Error)?.name === 'AbortError';
+}
+
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        // 正常到时后移除监听，长期存在的 signal 上不会因为反复重试累积监听器
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * HTTP 文件：按固定大小分块发起 Range 请求
+ */
+export class HttpRangeSource implements IOSource {
+    private url: string;
+    private options: Required<HttpRangeSourceOptions>;
+    private size: number = 0;
+    private cache: Map<number, Uint8Array> = new Map();
+    private pending: Map<number, PendingBlock> = new Map();
+    // 服务器忽略 Range（返回 200）时，整个文件作为一个整体保存
+    private fullData: Uint8Array | null = null;
+    private destroyController: AbortController = new AbortController();
+
+    constructor(url: string, options: HttpRangeSourceOptions = {}) {
+        this.url = url;
+        this.options = {
+            chunkSize: options.chunkSize ?? 1024 * 1024,
+            cacheSize: options.cacheSize ?? 32,
+            readAhead: options.readAhead ?? 2,
+            maxRetries: options.maxRetries ?? 3,
+            retryDelay: options.retryDelay ?? 500,
+        };
+    }
+
+    /**
+     * 请求第一个块：从 Content-Range 得到文件大小，同时确认服务器是否支持 Range
+     */
+    async open() {
+        const firstBlock = await this.getBlock(0, false);
+        if (!this.size) {
+            try {
+                const response = await fetch(this.url, { method: 'HEAD', signal: this.destroyController.signal });
+                const contentLength = response.headers.get('content-length');
+                this.size = contentLength ? Number(contentLength) : 0;
+            } catch (error) {
+                console.warn('[HttpRangeSource] HEAD request failed:', error);
+            }
+        }
+        // 第一个块就不满，说明整个文件只有这么大
+        if (!this.size && firstBlock.length < this.options.chunkSize) {
+            this.size = firstBlock.length;
+        }
+        console.log(`[HttpRangeSource] Opened ${this.url}, size: ${this.size || 'unknown'} bytes, range: ${this.fullData ? 'unsupported' : 'supported'}`);
+    }
+
+    getSize(): number {
+        return this.size;
+    }
+
+    async read(pos: number, buffer: Uint8Array): Promise<number> {
+        if (this.size && pos >= this.size) {
+            return 0;
+        }
+
+        if (this.fullData) {
+            const len = Math.min(buffer.length, this.fullData.length - pos);
+            if (len <= 0) {
+                return 0;
+            }
+            buffer.set(this.fullData.subarray(pos, pos + len), 0);
+            return len;
+        }
+
+        const { chunkSize } = this.options;
+        const index = Math.floor(pos / chunkSize);
+        const block = await this.getBlock(index, false);
+        // 请求期间发现服务器不支持 Range
+        if (this.fullData) {
+            return this.read(pos, buffer);
+        }
+
+        const offset = pos - index * chunkSize;
+        const len = Math.min(buffer.length, block.length - offset);
+        if (len <= 0) {
+            return 0;
+        }
+        buffer.set(block.subarray(offset, offset + len), 0);
+        this.readAhead(index);
+        return len;
+    }
+
+    /**
+     * seek 后取消不再需要的预读请求，已缓存的块保留
+     */
+    seek(pos: number) {
+        const index = Math.floor(pos / this.options.chunkSize);
+        this.pending.forEach((pending, blockIndex) => {
+            if (pending.readAhead && (blockIndex < index || blockIndex > index + this.options.readAhead)) {
+                pending.controller.abort();
+            }
+        });
+    }
+
+    /**
+     * 在后台预读后续的块
+     * @param index 当前块序号
+     */
+    private readAhead(index: number) {
+        for (let i = 1; i <= this.options.readAhead; i++) {
+            const blockIndex = index + i;
+            if (this.size && blockIndex * this.options.chunkSize >= this.size) {
+                break;
+            }
+            if (!this.cache.has(blockIndex) && !this.pending.has(blockIndex)) {
+                // 预读失败不影响播放，真正读到时会重新请求
+                this.getBlock(blockIndex, true).catch(() => {});
+            }
+        }
+    }
+
+    /**
+     * 获取块数据：优先从缓存读取，其次复用正在进行的请求
+     * @param index 块序号
+     * @param readAhead 是否由预读发起
+     */
+    private getBlock(index: number, readAhead: boolean): Promise<Uint8Array> {
+        if (this.fullData) {
+            const start = index * this.options.chunkSize;
+            return Promise.resolve(this.fullData.subarray(start, start + this.options.chunkSize));
+        }
+
+        const cached = this.cache.get(index);
+        if (cached) {
+            // 重新插入，保持 Map 的顺序即 LRU 顺序
+            this.cache.delete(index);
+            this.cache.set(index, cached);
+            return Promise.resolve(cached);
+        }
+
+        const pending = this.pending.get(index);
+        if (pending) {
+            // 正在被真正读取的块，seek 时不能取消
+            if (!readAhead) {
+                pending.readAhead = false;
+            }
+            return pending.promise;
+        }
+
+        const controller = new AbortController();
+        const promise = this.requestBlock(index, controller.signal)
+            .then((data) => {
+                if (!this.fullData) {
+                    this.cache.set(index, data);
+                    this.evict();
+                }
+                return data;
+            })
+            .finally(() => {
+                this.pending.delete(index);
+            });
+        this.pending.set(index, { promise, controller, readAhead });
+        return promise;
+    }
+
+    private evict() {
+        while (this.cache.size > this.options.cacheSize) {
+            const oldest = this.cache.keys().next().value;
+            if (oldest === undefined) {
+                break;
+            }
+            this.cache.delete(oldest);
+        }
+    }
+
+    /**
+     * 发起 Range 请求，可恢复的错误按指数退避重试
+     * @param index 块序号
+     * @param signal 取消信号
+     */
+    private async requestBlock(index: number, signal: AbortSignal): Promise<Uint8Array> {
+        const { chunkSize, maxRetries, retryDelay } = this.options;
+        const start = index * chunkSize;
+        const end = (this.size ? Math.min(this.size, start + chunkSize) : start + chunkSize) - 1;
+        const requestSignal = AbortSignal.any([signal, this.destroyController.signal]);
+
+        for (let attempt = 0; ; attempt++) {
+            let retryable = true;
+            try {
+                const response = await fetch(this.url, {
+                    headers: { 'Range': `bytes=${start}-${end}` },
+                    signal: requestSignal,
+                });
+
+                if (response.status === 206) {
+                    // Content-Range: bytes start-end/total
+                    const total = response.headers.get('content-range')?.split('/')[1];
+                    if (!this.size && total && total !== '*') {
+                        this.size = Number(total);
+                    }
+                    return new Uint8Array(await response.arrayBuffer());
+                }
+
+                if (response.status === 200) {
+                    // 服务器忽略了 Range，响应体是整个文件，之后所有读取都从这份数据中取
+                    console.warn('[HttpRangeSource] Server ignored Range header (200 instead of 206), falling back to full download');
+                    const data = new Uint8Array(await response.arrayBuffer());
+                    this.fullData = data;
+                    this.size = data.length;
+                    this.cache.clear();
+                    return data.subarray(start, start + chunkSize);
+                }
+
+                // 请求范围超出文件末尾
+                if (response.status === 416) {
+                    return new Uint8Array(0);
+                }
+
+                retryable = isRetryableStatus(response.status);
+                throw new Error(`HTTP ${response.status} ${response.statusText} (bytes=${start}-${end})`);
+            } catch (error) {
+                if (isAbortError(error) || !retryable || attempt >= maxRetries) {
+                    throw error;
+                }
+                const wait = retryDelay * 2 ** attempt;
+                console.warn(`[HttpRangeSource] Request for block ${index} failed, retrying in ${wait}ms (${attempt + 1}/${maxRetries}):`, error);
+                await delay(wait, requestSignal);
+            }
+        }
+    }
+
+    destroy() {
+        this.destroyController.abort();
+        this.pending.clear();
+        this.cache.clear();
+        this.fullData = null;
+    }
+}
+
+/**
+ * 根据输入创建数据源
+ * @param source File/Blob 或 URL
+ * @param options URL 数据源的配置
+ */
+export function createIOSource(source: string | Blob, options?: HttpRangeSourceOptions): IOSource {
+    return typeof source === 'string' ? new HttpRangeSource(source, options) : new FileSource(source);
+}
@@ -0,0 +1,123 @@
+/**
+ * 解封装过程中建立的关键帧索引，用于 seek 时定位最近的前一个关键帧
+ * @author guo xiao
+ */
+
+import { CoveredRanges } from './covered-ranges';
+
+export interface KeyframeIndexEntry {
+    pts: number; // 显示时间戳（微秒）
+    dts: number; // 解码时间戳（微秒）
+    pos: number; // 在文件中的字节位置，未知时为 -1
+}
+
+export class KeyframeIndex {
+    private entries: KeyframeIndexEntry[] = []; // 按 pts 升序
+    private covered = new CoveredRanges(); // 已连续读取过的 pts 区间，区间内的关键帧都已建立索引
+
+    /**
+     * 按 pts 有序插入关键帧，并延长当前连续读取的覆盖区间（seek 回退后重复读取时自动去重）
+     * @param entry 关键帧信息
+     * @returns 是否添加成功，pts 已存在时返回 false
+     */
+    add(entry: KeyframeIndexEntry): boolean {
+        this.covered.extend(entry.pts);
+        const index = this.lowerBound(entry.pts);
+        if (this.entries[index]?.pts === entry.pts) {
+            return false;
+        }
+        this.entries.splice(index, 0, entry);
+        return true;
+    }
+
+    /**
+     * 读取位置发生跳变（seek），之后添加的关键帧与之前的不再连续
+     */
+    markDiscontinuity() {
+        this.covered.break();
+    }
+
+    /**
+     * 已读取到文件末尾，最后一个关键帧之后的范围也已完整覆盖
+     */
+    markEnd() {
+        this.covered.extend(Infinity);
+    }
+
+    /**
+     * 判断时间戳是否落在已连续建立索引的范围内，范围内 findNearest 的结果可信
+     * @param pts 目标时间戳（微秒）
+     */
+    covers(pts: number): boolean {
+        return this.covered.contains(pts);
+    }
+
+    /**
+     * 目标落在已覆盖范围内时查找最近的前一个关键帧，否则返回 undefined
+     * @param pts 目标时间戳（微秒）
+     */
+    findCovered(pts: number): KeyframeIndexEntry | undefined {
+        return this.covers(pts) ? this.findNearest(pts) : undefined;
+    }
+
+    /**
+     * 查找 pts 小于等于指定时间戳的最近关键帧（不检查覆盖范围，中间可能有未读取到的关键帧）
+     * @param pts 目标时间戳（微秒）
+     */
+    findNearest(pts: number): KeyframeIndexEntry | undefined {
+        let low = 0;
+        let high = this.entries.length - 1;
+        let found: KeyframeIndexEntry | undefined = undefined;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            const entry = this.entries[mid]!;
+            if (entry.pts <= pts) {
+                found = entry;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return found;
+    }
+
+    /**
+     * 获取最后一个关键帧
+     */
+    last(): KeyframeIndexEntry | undefined {
+        return this.entries[this.entries.length - 1];
+    }
+
+    /**
+     * 获取所有关键帧（只读）
+     */
+    getEntries(): readonly KeyframeIndexEntry[] {
+        return this.entries;
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    clear() {
+        this.entries = [];
+        this.covered.clear();
+    }
+
+    /**
+     * 第一个 pts 大于等于指定时间戳的关键帧下标
+     */
+    private lowerBound(pts: number): number {
+        let low = 0;
+        let high = this.entries.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.entries[mid]!.pts < pts) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * 直播数据源：WebSocket 或流式 fetch（HTTP-FLV / HTTP-TS）按到达顺序增量交给 IOReader
+ * 总大小未知，不支持 seek
+ * @author guo xiao
+ */
+
+import type { IOSource } from './io-source';
+
+/**
+ * 判断 URL 是否是直播地址（WebSocket）
+ * HTTP 的直播流无法从地址区分，需要调用方显式指定
+ * @param source URL 或本地文件
+ */
+export function isLiveUrl(source: string | Blob): source is string {
+    return typeof source === 'string' && /^wss?:\/\//i.test(source);
+}
+
+export class LiveSource implements IOSource {
+    private url: string;
+    private chunks: Uint8Array[] = [];
+    private chunkOffset: number = 0; // 第一个块中已读取的字节数
+    private bufferedBytes: number = 0;
+    private receivedBytes: number = 0;
+    private readPos: number = 0;
+    private ended: boolean = false;
+    private error: Error | null = null;
+    private waiter: (() => void) | null = null;
+    private socket: WebSocket | null = null;
+    private controller: AbortController = new AbortController();
+
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    /**
+     * 建立连接，连接成功（WebSocket 打开 / HTTP 响应头到达）后返回
+     */
+    async open() {
+        if (isLiveUrl(this.url)) {
+            await this.openWebSocket();
+        } else {
+            await this.openFetch();
+        }
+        console.log(`[LiveSource] Connected to ${this.url}`);
+    }
+
+    private openWebSocket(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(this.url);
+            socket.binaryType = 'arraybuffer';
+            this.socket = socket;
+
+            let opened = false;
+            socket.onopen = () => {
+                opened = true;
+                resolve();
+            };
+            socket.onmessage = (event) => {
+                // 文本消息（如服务端的控制信息）忽略
+                if (event.data instanceof ArrayBuffer) {
+                    this.push(new Uint8Array(event.data));
+                }
+            };
+            socket.onerror = () => {
+                if (!opened) {
+                    reject(new Error(`WebSocket 连接失败: ${this.url}`));
+                }
+            };
+            socket.onclose = (event) => {
+                if (!opened) {
+                    reject(new Error(`WebSocket 连接失败: ${this.url}（code ${event.code}）`));
+                    return;
+                }
+                // 正常关闭视为直播结束，异常关闭作为错误交给读取方
+                if (event.code !== 1000 && event.code !== 1005 && !this.controller.signal.aborted) {
+                    this.fail(new Error(`WebSocket 连接断开（code ${event.code}${event.reason ? `, ${event.reason}` : ''}）`));
+                } else {
+                    this.finish();
+                }
+            };
+        });
+    }
+
+    private async openFetch() {
+        const response = await fetch(this.url, { signal: this.controller.signal });
+        if (!response.ok || !response.body) {
+            throw new Error(`HTTP ${response.status} ${response.statusText} (${this.url})`);
+        }
+        const reader = response.body.getReader();
+        // 在后台持续读取响应体
+        (async () => {
+            try {
+                while (1) {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        break;
+                    }
+                    if (value && value.length) {
+                        this.push(value);
+                    }
+                }
+                this.finish();
+            } catch (error) {
+                if (!this.controller.signal.aborted) {
+                    this.fail(error as Error);
+                }
+            }
+        })();
+    }
+
+    private push(data: Uint8Array) {
+        this.chunks.push(data);
+        this.bufferedBytes += data.length;
+        this.receivedBytes += data.length;
+        this.wake();
+    }
+
+    private finish() {
+        this.ended = true;
+        this.wake();
+    }
+
+    private fail(error: Error) {
+        console.error('[LiveSource] Connection error:', error);
+        this.error = error;
+        this.wake();
+    }
+
+    private wake() {
+        const waiter = this.waiter;
+        this.waiter = null;
+        waiter?.();
+    }
+
+    /**
+     * 直播流总大小未知
+     */
+    getSize(): number {
+        return 0;
+    }
+
+    /**
+     * 读取已到达的数据，没有数据时等待；不会等待填满 buffer，避免增加延迟
+     * @param pos 读取位置，只能顺序读取
+     */
+    async read(pos: number, buffer: Uint8Array): Promise<number> {
+        if (pos !== this.readPos) {
+            throw new Error(`直播流不支持随机读取（位置 ${pos}，当前 ${this.readPos}）`);
+        }
+        while (!this.bufferedBytes) {
+            if (this.error) {
+                throw this.error;
+            }
+            if (this.ended || this.controller.signal.aborted) {
+                return 0;
+            }
+            await new Promise<void>((resolve) => {
+                this.waiter = resolve;
+            });
+        }
+
+        let len = 0;
+        while (len < buffer.length && this.chunks.length) {
+            const chunk = this.chunks[0]!;
+            const size = Math.min(buffer.length - len, chunk.length - this.chunkOffset);
+            buffer.set(chunk.subarray(this.chunkOffset, this.chunkOffset + size), len);
+            len += size;
+            this.chunkOffset += size;
+            if (this.chunkOffset >= chunk.length) {
+                this.chunks.shift();
+                this.chunkOffset = 0;
+            }
+        }
+        this.bufferedBytes -= len;
+        this.readPos += len;
+        return len;
+    }
+
+    /**
+     * 直播流不支持 seek
+     */
+    seek(pos: number) {
+        if (pos !== this.readPos) {
+            console.warn(`[LiveSource] Seek is not supported on live streams (requested ${pos}, at ${this.readPos})`);
+        }
+    }
+
+    /**
+     * 已接收的总字节数
+     */
+    getReceivedBytes(): number {
+        return this.receivedBytes;
+    }
+
+    destroy() {
+        this.controller.abort();
+        if (this.socket) {
+            this.socket.onmessage = null;
+            this.socket.onclose = null;
+            this.socket.close();
+            this.socket = null;
+        }
+        this.chunks = [];
+        this.bufferedBytes = 0;
+        this.wake();
+    }
+}
@@ -0,0 +1,200 @@
+/**
+ * 数据包检查：逐包记录时间戳、大小、标志和 NAL 类型，并据此统计 GOP 结构和码率变化
+ * @author guo xiao
+ */
+
+import { BitReader } from './bitstream';
+import { splitNalUnits, removeEmulationPrevention, type NalFormat } from './codec-description';
+import type { VideoCodec } from './hw-decoder';
+
+/**
+ * 帧类型，无法判断时为 '?'
+ */
+export type FrameType = 'I' | 'P' | 'B' | '?';
+
+export interface PacketRecord {
+    index: number; // 读取顺序，从 0 开始
+    stream: 'video' | 'audio' | 'other';
+    streamIndex: number;
+    pts: number | null; // 微秒
+    dts: number | null; // 微秒
+    duration: number | null; // 微秒
+    time: number | null; // 显示时间（秒，相对于流的起始时间），用于跳转
+    size: number; // 字节
+    flags: number; // AVPacket.flags
+    keyframe: boolean;
+    frameType: FrameType; // 仅视频
+    nalTypes: number[]; // 仅 H.264/H.265，按出现顺序
+}
+
+export interface GopInfo {
+    index: number; // 第一个数据包（关键帧）的 index
+    time: number | null; // 关键帧的显示时间（秒）
+    frames: number; // 视频帧数
+    size: number; // 字节
+    pattern: FrameType[]; // 按解码顺序的帧类型
+}
+
+export interface BitratePoint {
+    time: number; // 区间起点（秒）
+    video: number; // bps
+    audio: number; // bps
+}
+
+/**
+ * 获取一帧中所有 NAL 单元的类型
+ * @param codec 编码类型，非 H.264/H.265 返回空数组
+ * @param data 视频数据（Annex-B 或长度前缀格式）
+ * @param format 流的 NAL 格式，未知时根据数据判断
+ */
+export function getNalTypes(codec: VideoCodec, data: Uint8Array, format?: NalFormat): number[] {
+    if (codec !== 'h264' && codec !== 'h265') {
+        return [];
+    }
+    const types: number[] = [];
+    for (const nalUnit of splitNalUnits(data, format)) {
+        const header = nalUnit[0];
+        if (header !== undefined) {
+            types.push(codec === 'h264' ? header & 0x1F : (header >> 1) & 0x3F);
+        }
+    }
+    return types;
+}
+
+/**
+ * 判断帧类型：H.264/H.265 解析第一个 slice header 中的 slice_type，VP8/VP9 只区分关键帧和非关键帧
+ * @param codec 编码类型
+ * @param data 视频数据
+ * @param isKeyframe 是否为关键帧
+ * @param numExtraSliceHeaderBits H.265 PPS 中的 num_extra_slice_header_bits，默认 0
+ * @param format 流的 NAL 格式，未知时根据数据判断
+ */
+export function getFrameType(codec: VideoCodec, data: Uint8Array, isKeyframe: boolean, numExtraSliceHeaderBits: number = 0, format?: NalFormat): FrameType {
+    if (codec !== 'h264' && codec !== 'h265') {
+        return isKeyframe ? 'I' : 'P';
+    }
+    for (const nalUnit of splitNalUnits(data, format)) {
+        const header = nalUnit[0];
+        if (header === undefined) {
+            continue;
+        }
+        try {
+            if (codec === 'h264') {
+                const nalType = header & 0x1F;
+                if (nalType < 1 || nalType > 5) {
+                    continue;
+                }
+                // slice header 很短，只需要去除开头部分的防竞争字节
+                const reader = new BitReader(removeEmulationPrevention(nalUnit.subarray(1, 17)));
+                reader.readUe(); // first_mb_in_slice
+                // slice_type 0/5: P, 1/6: B, 2/7: I, 3/8: SP, 4/9: SI
+                return (['P', 'B', 'I', 'P', 'I'] as const)[reader.readUe() % 5]!;
+            }
+            const nalType = (header >> 1) & 0x3F;
+            if (nalType > 21) {
+                continue;
+            }
+            const reader = new BitReader(removeEmulationPrevention(nalUnit.subarray(2, 18)));
+            const firstSliceInPicture = reader.readBit();
+            if (!firstSliceInPicture) {
+                // 非首个 slice 还需要 SPS 才能跳过 slice_segment_address
+                continue;
+            }
+            // IRAP（16~23）多一个 no_output_of_prior_pics_flag
+            if (nalType >= 16) {
+                reader.readBit();
+            }
+            reader.readUe(); // slice_pic_parameter_set_id
+            reader.skipBits(numExtraSliceHeaderBits); // slice_reserved_flag
+            // slice_type 0: B, 1: P, 2: I
+            return (['B', 'P', 'I'] as const)[reader.readUe()] ?? '?';
+        } catch {
+            return '?';
+        }
+    }
+    return isKeyframe ? 'I' : '?';
+}
+
+/**
+ * 数据包记录，超过上限时丢弃最早的记录
+ */
+export class PacketLog {
+    private records: PacketRecord[] = [];
+    private maxRecords: number;
+
+    /**
+     * @param maxRecords 最多保留的记录数
+     */
+    constructor(maxRecords: number) {
+        this.maxRecords = maxRecords;
+    }
+
+    add(records: PacketRecord[]) {
+        this.records.push(...records);
+        if (this.records.length > this.maxRecords) {
+            // 一次多丢一些，避免每次添加都移动整个数组
+            this.records.splice(0, this.records.length - Math.floor(this.maxRecords * 0.9));
+        }
+    }
+
+    /**
+     * 获取所有记录（只读，添加记录时原地更新）
+     */
+    getRecords(): readonly PacketRecord[] {
+        return this.records;
+    }
+
+    get size(): number {
+        return this.records.length;
+    }
+
+    clear() {
+        this.records = [];
+    }
+}
+
+/**
+ * 按关键帧把视频数据包划分为 GOP，开头缺少关键帧的部分不计入
+ * @param records 数据包记录（按读取顺序）
+ */
+export function getGops(records: readonly PacketRecord[]): GopInfo[] {
+    const gops: GopInfo[] = [];
+    let current: GopInfo | null = null;
+    for (const record of records) {
+        if (record.stream !== 'video') {
+            continue;
+        }
+        if (record.keyframe) {
+            current = { index: record.index, time: record.time, frames: 0, size: 0, pattern: [] };
+            gops.push(current);
+        }
+        if (current) {
+            current.frames++;
+            current.size += record.size;
+            current.pattern.push(record.frameType);
+        }
+    }
+    return gops;
+}
+
+/**
+ * 按固定时长的区间统计码率
+ * @param records 数据包记录
+ * @param interval 区间时长（秒），默认 1
+ */
+export function getBitrateSeries(records: readonly PacketRecord[], interval: number = 1): BitratePoint[] {
+    const buckets = new Map<number, BitratePoint>();
+    for (const record of records) {
+        if (record.time === null || record.stream === 'other') {
+            continue;
+        }
+        const bucket = Math.floor(record.time / interval);
+        let point = buckets.get(bucket);
+        if (!point) {
+            point = { time: bucket * interval, video: 0, audio: 0 };
+            buckets.set(bucket, point);
+        }
+        point[record.stream] += record.size * 8 / interval;
+    }
+    return [...buckets.values()].sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,73 @@
+/**
+ * 数据包记录：把解封装读到的数据包转换为 PacketRecord，攒够一批后一次提交
+ * @author guo xiao
+ */
+
+import type AVPacket from '@libmedia/avutil/struct/avpacket';
+import type { Rational } from '@libmedia/avutil/struct/rational';
+import { mapUint8Array } from '@libmedia/cheap/std/memory';
+import { getFrameType, getNalTypes, type PacketRecord } from './packet-inspector';
+import { toMicroseconds, type StreamTimeline } from './timeline';
+import type { NalFormat } from './codec-description';
+import type { VideoCodec } from './hw-decoder';
+
+export interface PacketRecorderOptions {
+    codec: VideoCodec;
+    nalFormat?: NalFormat; // 视频流的 NAL 格式，未知时逐包判断
+    timeline: StreamTimeline;
+    getNumExtraSliceHeaderBits?: () => number | undefined; // H.265 PPS 中的 num_extra_slice_header_bits
+    onRecords: (records: PacketRecord[]) => void;
+}
+
+export class PacketRecorder {
+    private options: PacketRecorderOptions;
+    private pending: PacketRecord[] = [];
+
+    constructor(options: PacketRecorderOptions) {
+        this.options = options;
+    }
+
+    /**
+     * 记录首次读取到的数据包，视频包额外解析 NAL 类型和帧类型
+     * @param pkt 数据包
+     * @param index 读取顺序
+     * @param stream 数据包所属的流类型
+     * @param timeBase 流的时间基，未知时不记录时间戳
+     * @param isKeyframe 是否为关键帧
+     */
+    record(pkt: AVPacket, index: number, stream: PacketRecord['stream'], timeBase: Rational | undefined, isKeyframe: boolean) {
+        const { codec, nalFormat, timeline } = this.options;
+        const ptsUs = timeBase ? timeline.toTimestamp(pkt.pts, timeBase) ?? null : null;
+        const dtsUs = timeBase ? timeline.toTimestamp(pkt.dts, timeBase) ?? null : null;
+        const displayUs = ptsUs ?? dtsUs;
+        const videoData = stream === 'video' && pkt.data && pkt.size > 0 ? mapUint8Array(pkt.data, pkt.size) : undefined;
+        this.pending.push({
+            index,
+            stream,
+            streamIndex: pkt.streamIndex,
+            pts: ptsUs,
+            dts: dtsUs,
+            duration: timeBase && pkt.duration > BigInt(0) ? toMicroseconds(pkt.duration, timeBase) ?? null : null,
+            time: displayUs !== null ? Math.max(0, (displayUs - (timeline.getStartTime() ?? displayUs)) / 1_000_000) : null,
+            size: pkt.size,
+            flags: pkt.flags,
+            keyframe: isKeyframe,
+            frameType: videoData
+                ? getFrameType(codec, videoData, isKeyframe, this.options.getNumExtraSliceHeaderBits?.(), nalFormat)
+                : stream === 'video' && isKeyframe ? 'I' : '?',
+            nalTypes: videoData ? getNalTypes(codec, videoData, nalFormat) : [],
+        });
+    }
+
+    /**
+     * 提交尚未提交的记录
+     */
+    flush() {
+        if (!this.pending.length) {
+            return;
+        }
+        const records = this.pending;
+        this.pending = [];
+        this.options.onRecords(records);
+    }
+}
@@ -0,0 +1,1020 @@
+/**
+ * H.264 SPS/PPS 和 HEVC VPS/SPS/PPS 解析，得到 profile、level、色度格式、位深、裁剪后的尺寸、SAR、帧率、色彩信息等码流参数
+ * @author guo xiao
+ */
+
+import { BitReader } from './bitstream';
+import { removeEmulationPrevention, getParameterSetNalUnits } from './codec-description';
+
+export type ChromaFormat = 'monochrome' | '4:2:0' | '4:2:2' | '4:4:4';
+
+/**
+ * VUI 中 H.264 和 HEVC 共有的字段，码流中没有给出的为 null
+ */
+export interface VuiParameters {
+    sarWidth: number; // 像素宽高比，未指定时为 1:1
+    sarHeight: number;
+    videoFormat: number | null;
+    fullRange: boolean | null;
+    colourPrimaries: number | null;
+    transferCharacteristics: number | null;
+    matrixCoefficients: number | null;
+    numUnitsInTick: number | null;
+    timeScale: number | null;
+}
+
+/**
+ * H.264 HRD 参数中 SEI pic_timing 需要的字段
+ */
+export interface H264HrdParameters {
+    cpbCount: number;
+    cpbRemovalDelayLength: number;
+    dpbOutputDelayLength: number;
+    timeOffsetLength: number;
+}
+
+export interface H264Vui extends VuiParameters {
+    fixedFrameRate: boolean;
+    nalHrd: H264HrdParameters | null;
+    vclHrd: H264HrdParameters | null;
+    picStructPresent: boolean;
+    maxNumReorderFrames: number | null;
+    maxDecFrameBuffering: number | null;
+}
+
+export interface H264Sps {
+    profileIdc: number;
+    constraintFlags: number;
+    levelIdc: number;
+    spsId: number;
+    chromaFormatIdc: number;
+    separateColourPlane: boolean;
+    bitDepthLuma: number;
+    bitDepthChroma: number;
+    log2MaxFrameNum: number;
+    picOrderCntType: number;
+    maxNumRefFrames: number;
+    frameMbsOnly: boolean;
+    codedWidth: number; // 宏块对齐的尺寸
+    codedHeight: number;
+    width: number; // 裁剪后的尺寸
+    height: number;
+    vui: H264Vui | null;
+}
+
+export interface H264Pps {
+    ppsId: number;
+    spsId: number;
+    entropyCodingMode: 'CAVLC' | 'CABAC';
+    bottomFieldPicOrderInFramePresent: boolean;
+    numSliceGroups: number;
+    numRefIdxL0DefaultActive: number;
+    numRefIdxL1DefaultActive: number;
+    weightedPred: boolean;
+    weightedBipredIdc: number;
+    picInitQp: number;
+    chromaQpIndexOffset: number;
+    deblockingFilterControlPresent: boolean;
+    constrainedIntraPred: boolean;
+    redundantPicCntPresent: boolean;
+    transform8x8Mode: boolean;
+}
+
+/**
+ * HEVC profile_tier_level 中的 general_* 字段
+ */
+export interface HevcProfileTierLevel {
+    profileSpace: number;
+    tier: 'Main' | 'High';
+    profileIdc: number;
+    compatibilityFlags: number;
+    progressiveSource: boolean;
+    interlacedSource: boolean;
+    levelIdc: number;
+}
+
+export interface HevcVps {
+    vpsId: number;
+    maxLayers: number;
+    maxSubLayers: number;
+    temporalIdNesting: boolean;
+    profileTierLevel: HevcProfileTierLevel;
+    numUnitsInTick: number | null;
+    timeScale: number | null;
+}
+
+export interface HevcVui extends VuiParameters {
+    fieldSeq: boolean;
+    frameFieldInfoPresent: boolean;
+    minSpatialSegmentationIdc: number; // bitstream_restriction 中的 min_spatial_segmentation_idc，未给出时为 0
+}
+
+export interface HevcSps {
+    vpsId: number;
+    spsId: number;
+    maxSubLayers: number;
+    profileTierLevel: HevcProfileTierLevel;
+    chromaFormatIdc: number;
+    separateColourPlane: boolean;
+    bitDepthLuma: number;
+    bitDepthChroma: number;
+    log2MaxPicOrderCntLsb: number;
+    maxDecPicBuffering: number; // 最高子层的 sps_max_dec_pic_buffering_minus1 + 1（包括当前帧）
+    maxNumReorderPics: number;
+    log2MinLumaCodingBlockSize: number;
+    log2CtbSize: number;
+    codedWidth: number; // pic_width/height_in_luma_samples
+    codedHeight: number;
+    width: number; // 按 conformance window 裁剪后的尺寸
+    height: number;
+    numShortTermRefPicSets: number;
+    longTermRefPicsPresent: boolean;
+    temporalMvpEnabled: boolean;
+    vui: HevcVui | null;
+}
+
+export interface HevcPps {
+    ppsId: number;
+    spsId: number;
+    dependentSliceSegmentsEnabled: boolean;
+    outputFlagPresent: boolean;
+    numExtraSliceHeaderBits: number;
+    signDataHiding: boolean;
+    cabacInitPresent: boolean;
+    numRefIdxL0DefaultActive: number;
+    numRefIdxL1DefaultActive: number;
+    initQp: number;
+    constrainedIntraPred: boolean;
+    transformSkipEnabled: boolean;
+    cuQpDeltaEnabled: boolean;
+    weightedPred: boolean;
+    weightedBipred: boolean;
+    tilesEnabled: boolean;
+    entropyCodingSyncEnabled: boolean;
+}
+
+/**
+ * 码流参数汇总，来自第一组参数集
+ */
+export interface VideoBitstreamInfo {
+    codec: 'h264' | 'h265';
+    profileIdc: number;
+    levelIdc: number;
+    tier?: 'Main' | 'High'; // 仅 HEVC
+    chromaFormat: ChromaFormat;
+    bitDepthLuma: number;
+    bitDepthChroma: number;
+    codedWidth: number;
+    codedHeight: number;
+    width: number; // 裁剪后的尺寸
+    height: number;
+    sarWidth: number;
+    sarHeight: number;
+    frameRate: number | null; // VUI（HEVC 还有 VPS）中的时间信息，没有时为 null
+    interlaced: boolean;
+    colourPrimaries: number | null;
+    transferCharacteristics: number | null;
+    matrixCoefficients: number | null;
+    fullRange: boolean | null;
+    maxRefFrames: number; // H.264 为 max_num_ref_frames，HEVC 为 DPB 大小减去当前帧
+    entropyCoding?: 'CAVLC' | 'CABAC'; // 仅 H.264，来自 PPS
+    numExtraSliceHeaderBits?: number; // 仅 HEVC，来自 PPS，解析 slice header 需要
+}
+
+const CHROMA_FORMATS: ChromaFormat[] = ['monochrome', '4:2:0', '4:2:2', '4:4:4'];
+
+// aspect_ratio_idc 1 ~ 16 对应的 SAR，255 为 Extended_SAR
+const SAR_TABLE: [number, number][] = [
+    [0, 0], [1, 1], [12, 11], [10, 11], [16, 11], [40, 33], [24, 11], [20, 11],
+    [32, 11], [80, 33], [18, 11], [15, 11], [64, 33], [160, 99], [4, 3], [3, 2], [2, 1],
+];
+const EXTENDED_SAR = 255;
+
+// 带 chroma_format_idc 等字段的 H.264 High 系列 profile
+const H264_HIGH_PROFILES = [100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135];
+
+/**
+ * 去除防竞争字节并跳过 NAL 头
+ * @param nal NAL 单元（含 NAL 头）
+ * @param headerSize NAL 头字节数，H.264 为 1，HEVC 为 2
+ */
+function createRbspReader(nal: Uint8Array, headerSize: number): BitReader {
+    return new BitReader(removeEmulationPrevention(nal.subarray(headerSize)));
+}
+
+function createVui(): VuiParameters {
+    return {
+        sarWidth: 1,
+        sarHeight: 1,
+        videoFormat: null,
+        fullRange: null,
+        colourPrimaries: null,
+        transferCharacteristics: null,
+        matrixCoefficients: null,
+        numUnitsInTick: null,
+        timeScale: null,
+    };
+}
+
+/**
+ * 读取 VUI 开头 H.264 和 HEVC 相同的部分：aspect_ratio_info、overscan_info、video_signal_type、chroma_loc_info
+ */
+function readVuiCommon(reader: BitReader, vui: VuiParameters) {
+    if (reader.readFlag()) { // aspect_ratio_info_present_flag
+        const aspectRatioIdc = reader.readBits(8);
+        if (aspectRatioIdc === EXTENDED_SAR) {
+            vui.sarWidth = reader.readBits(16);
+            vui.sarHeight = reader.readBits(16);
+        } else {
+            const sar = SAR_TABLE[aspectRatioIdc];
+            if (sar && sar[0]) {
+                [vui.sarWidth, vui.sarHeight] = sar;
+            }
+        }
+        if (!vui.sarWidth || !vui.sarHeight) {
+            vui.sarWidth = 1;
+            vui.sarHeight = 1;
+        }
+    }
+    if (reader.readFlag()) { // overscan_info_present_flag
+        reader.readBit(); // overscan_appropriate_flag
+    }
+    if (reader.readFlag()) { // video_signal_type_present_flag
+        vui.videoFormat = reader.readBits(3);
+        vui.fullRange = reader.readFlag();
+        if (reader.readFlag()) { // colour_description_present_flag
+            vui.colourPrimaries = reader.readBits(8);
+            vui.transferCharacteristics = reader.readBits(8);
+            vui.matrixCoefficients = reader.readBits(8);
+        }
+    }
+    if (reader.readFlag()) { // chroma_loc_info_present_flag
+        reader.readUe(); // chroma_sample_loc_type_top_field
+        reader.readUe(); // chroma_sample_loc_type_bottom_field
+    }
+}
+
+/**
+ * 跳过 H.264 的 scaling_list()
+ * @param size 4x4 为 16，8x8 为 64
+ */
+function skipH264ScalingList(reader: BitReader, size: number) {
+    let lastScale = 8;
+    let nextScale = 8;
+    for (let i = 0; i < size; i++) {
+        if (nextScale !== 0) {
+            nextScale = (lastScale + reader.readSe() + 256) % 256;
+        }
+        lastScale = nextScale === 0 ? lastScale : nextScale;
+    }
+}
+
+function readH264Hrd(reader: BitReader): H264HrdParameters {
+    const cpbCount = reader.readUe() + 1;
+    reader.skipBits(8); // bit_rate_scale, cpb_size_scale
+    for (let i = 0; i < cpbCount; i++) {
+        reader.readUe(); // bit_rate_value_minus1
+        reader.readUe(); // cpb_size_value_minus1
+        reader.readBit(); // cbr_flag
+    }
+    reader.skipBits(5); // initial_cpb_removal_delay_length_minus1
+    return {
+        cpbCount,
+        cpbRemovalDelayLength: reader.readBits(5) + 1,
+        dpbOutputDelayLength: reader.readBits(5) + 1,
+        timeOffsetLength: reader.readBits(5),
+    };
+}
+
+/**
+ * 解析 H.264 的 VUI，读到一半数据不足时返回已读取的部分
+ */
+function readH264Vui(reader: BitReader): H264Vui {
+    const vui: H264Vui = {
+        ...createVui(),
+        fixedFrameRate: false,
+        nalHrd: null,
+        vclHrd: null,
+        picStructPresent: false,
+        maxNumReorderFrames: null,
+        maxDecFrameBuffering: null,
+    };
+    try {
+        readVuiCommon(reader, vui);
+        if (reader.readFlag()) { // timing_info_present_flag
+            vui.numUnitsInTick = reader.readBits(32);
+            vui.timeScale = reader.readBits(32);
+            vui.fixedFrameRate = reader.readFlag();
+        }
+        if (reader.readFlag()) {
+            vui.nalHrd = readH264Hrd(reader);
+        }
+        if (reader.readFlag()) {
+            vui.vclHrd = readH264Hrd(reader);
+        }
+        if (vui.nalHrd || vui.vclHrd) {
+            reader.readBit(); // low_delay_hrd_flag
+        }
+        vui.picStructPresent = reader.readFlag();
+        if (reader.readFlag()) { // bitstream_restriction_flag
+            reader.readBit(); // motion_vectors_over_pic_boundaries_flag
+            reader.readUe(); // max_bytes_per_pic_denom
+            reader.readUe(); // max_bits_per_mb_denom
+            reader.readUe(); // log2_max_mv_length_horizontal
+            reader.readUe(); // log2_max_mv_length_vertical
+            vui.maxNumReorderFrames = reader.readUe();
+            vui.maxDecFrameBuffering = reader.readUe();
+        }
+    } catch (error) {
+        console.warn('[parameter-sets] Truncated H.264 VUI:', error);
+    }
+    return vui;
+}
+
+/**
+ * 解析 H.264 SPS（ITU-T H.264 7.3.2.1.1）
+ * @param nal SPS NAL 单元（含 NAL 头，不含起始码）
+ */
+export function parseH264Sps(nal: Uint8Array): H264Sps {
+    const reader = createRbspReader(nal, 1);
+    const profileIdc = reader.readBits(8);
+    const constraintFlags = reader.readBits(8);
+    const levelIdc = reader.readBits(8);
+    const spsId = reader.readUe();
+
+    let chromaFormatIdc = 1;
+    let separateColourPlane = false;
+    let bitDepthLuma = 8;
+    let bitDepthChroma = 8;
+    if (H264_HIGH_PROFILES.includes(profileIdc)) {
+        chromaFormatIdc = reader.readUe();
+        if (chromaFormatIdc === 3) {
+            separateColourPlane = reader.readFlag();
+        }
+        bitDepthLuma = reader.readUe() + 8;
+        bitDepthChroma = reader.readUe() + 8;
+        reader.readBit(); // qpprime_y_zero_transform_bypass_flag
+        if (reader.readFlag()) { // seq_scaling_matrix_present_flag
+            const count = chromaFormatIdc === 3 ? 12 : 8;
+            for (let i = 0; i < count; i++) {
+                if (reader.readFlag()) {
+                    skipH264ScalingList(reader, i < 6 ? 16 : 64);
+                }
+            }
+        }
+    }
+
+    const log2MaxFrameNum = reader.readUe() + 4;
+    const picOrderCntType = reader.readUe();
+    if (picOrderCntType === 0) {
+        reader.readUe(); // log2_max_pic_order_cnt_lsb_minus4
+    } else if (picOrderCntType === 1) {
+        reader.readBit(); // delta_pic_order_always_zero_flag
+        reader.readSe(); // offset_for_non_ref_pic
+        reader.readSe(); // offset_for_top_to_bottom_field
+        const cycleLength = reader.readUe();
+        for (let i = 0; i < cycleLength; i++) {
+            reader.readSe(); // offset_for_ref_frame
+        }
+    }
+
+    const maxNumRefFrames = reader.readUe();
+    reader.readBit(); // gaps_in_frame_num_value_allowed_flag
+    const widthInMbs = reader.readUe() + 1;
+    const heightInMapUnits = reader.readUe() + 1;
+    const frameMbsOnly = reader.readFlag();
+    if (!frameMbsOnly) {
+        reader.readBit(); // mb_adaptive_frame_field_flag
+    }
+    reader.readBit(); // direct_8x8_inference_flag
+
+    const codedWidth = widthInMbs * 16;
+    const codedHeight = (frameMbsOnly ? 1 : 2) * heightInMapUnits * 16;
+    let width = codedWidth;
+    let height = codedHeight;
+    if (reader.readFlag()) { // frame_cropping_flag
+        const left = reader.readUe();
+        const right = reader.readUe();
+        const top = reader.readUe();
+        const bottom = reader.readUe();
+        // 裁剪单位取决于色度采样，ChromaArrayType 为 0 时按亮度采样
+        const chromaArrayType = separateColourPlane ? 0 : chromaFormatIdc;
+        const subWidth = chromaArrayType === 1 || chromaArrayType === 2 ? 2 : 1;
+        const subHeight = chromaArrayType === 1 ? 2 : 1;
+        const cropUnitX = chromaArrayType === 0 ? 1 : subWidth;
+        const cropUnitY = (chromaArrayType === 0 ? 1 : subHeight) * (frameMbsOnly ? 1 : 2);
+        width -= (left + right) * cropUnitX;
+        height -= (top + bottom) * cropUnitY;
+    }
+
+    const vui = reader.readFlag() ? readH264Vui(reader) : null;
+    return {
+        profileIdc,
+        constraintFlags,
+        levelIdc,
+        spsId,
+        chromaFormatIdc,
+        separateColourPlane,
+        bitDepthLuma,
+        bitDepthChroma,
+        log2MaxFrameNum,
+        picOrderCntType,
+        maxNumRefFrames,
+        frameMbsOnly,
+        codedWidth,
+        codedHeight,
+        width,
+        height,
+        vui,
+    };
+}
+
+/**
+ * 解析 H.264 PPS（ITU-T H.264 7.3.2.2）
+ * @param nal PPS NAL 单元（含 NAL 头，不含起始码）
+ */
+export function parseH264Pps(nal: Uint8Array): H264Pps {
+    const reader = createRbspReader(nal, 1);
+    const ppsId = reader.readUe();
+    const spsId = reader.readUe();
+    const entropyCodingMode = reader.readFlag() ? 'CABAC' : 'CAVLC';
+    const bottomFieldPicOrderInFramePresent = reader.readFlag();
+    const numSliceGroups = reader.readUe() + 1;
+    if (numSliceGroups > 1) {
+        const mapType = reader.readUe();
+        if (mapType === 0) {
+            for (let i = 0; i < numSliceGroups; i++) {
+                reader.readUe(); // run_length_minus1
+            }
+        } else if (mapType === 2) {
+            for (let i = 0; i < numSliceGroups - 1; i++) {
+                reader.readUe(); // top_left
+                reader.readUe(); // bottom_right
+            }
+        } else if (mapType >= 3 && mapType <= 5) {
+            reader.readBit(); // slice_group_change_direction_flag
+            reader.readUe(); // slice_group_change_rate_minus1
+        } else if (mapType === 6) {
+            const picSizeInMapUnits = reader.readUe() + 1;
+            const idBits = Math.ceil(Math.log2(numSliceGroups));
+            reader.skipBits(picSizeInMapUnits * idBits); // slice_group_id
+        }
+    }
+    const numRefIdxL0DefaultActive = reader.readUe() + 1;
+    const numRefIdxL1DefaultActive = reader.readUe() + 1;
+    const weightedPred = reader.readFlag();
+    const weightedBipredIdc = reader.readBits(2);
+    const picInitQp = reader.readSe() + 26;
+    reader.readSe(); // pic_init_qs_minus26
+    const chromaQpIndexOffset = reader.readSe();
+    const deblockingFilterControlPresent = reader.readFlag();
+    const constrainedIntraPred = reader.readFlag();
+    const redundantPicCntPresent = reader.readFlag();
+    // High profile 扩展字段，之后的 scaling matrix 不需要
+    const transform8x8Mode = reader.hasMoreRbspData() ? reader.readFlag() : false;
+    return {
+        ppsId,
+        spsId,
+        entropyCodingMode,
+        bottomFieldPicOrderInFramePresent,
+        numSliceGroups,
+        numRefIdxL0DefaultActive,
+        numRefIdxL1DefaultActive,
+        weightedPred,
+        weightedBipredIdc,
+        picInitQp,
+        chromaQpIndexOffset,
+        deblockingFilterControlPresent,
+        constrainedIntraPred,
+        redundantPicCntPresent,
+        transform8x8Mode,
+    };
+}
+
+/**
+ * 读取 HEVC 的 profile_tier_level(1, maxSubLayersMinus1)，只保留 general_* 字段
+ */
+function readHevcProfileTierLevel(reader: BitReader, maxSubLayersMinus1: number): HevcProfileTierLevel {
+    const profileSpace = reader.readBits(2);
+    const tier = reader.readFlag() ? 'High' : 'Main';
+    const profileIdc = reader.readBits(5);
+    const compatibilityFlags = reader.readBits(32);
+    const progressiveSource = reader.readFlag();
+    const interlacedSource = reader.readFlag();
+    reader.skipBits(2 + 43 + 1); // non_packed_constraint、frame_only_constraint 及其余约束标志
+    const levelIdc = reader.readBits(8);
+
+    const subLayerProfilePresent: boolean[] = [];
+    const subLayerLevelPresent: boolean[] = [];
+    for (let i = 0; i < maxSubLayersMinus1; i++) {
+        subLayerProfilePresent.push(reader.readFlag());
+        subLayerLevelPresent.push(reader.readFlag());
+    }
+    if (maxSubLayersMinus1 > 0) {
+        reader.skipBits((8 - maxSubLayersMinus1) * 2); // reserved_zero_2bits
+    }
+    for (let i = 0; i < maxSubLayersMinus1; i++) {
+        if (subLayerProfilePresent[i]) {
+            reader.skipBits(88);
+        }
+        if (subLayerLevelPresent[i]) {
+            reader.skipBits(8);
+        }
+    }
+    return { profileSpace, tier, profileIdc, compatibilityFlags, progressiveSource, interlacedSource, levelIdc };
+}
+
+/**
+ * 解析 HEVC VPS（ITU-T H.265 7.3.2.1），只读到 vps_timing_info
+ * @param nal VPS NAL 单元（含 NAL 头，不含起始码）
+ */
+export function parseHevcVps(nal: Uint8Array): HevcVps {
+    const reader = createRbspReader(nal, 2);
+    const vpsId = reader.readBits(4);
+    reader.skipBits(2); // vps_base_layer_internal_flag, vps_base_layer_available_flag
+    const maxLayers = reader.readBits(6) + 1;
+    const maxSubLayers = reader.readBits(3) + 1;
+    const temporalIdNesting = reader.readFlag();
+    reader.skipBits(16); // vps_reserved_0xffff_16bits
+    const profileTierLevel = readHevcProfileTierLevel(reader, maxSubLayers - 1);
+
+    const vps: HevcVps = {
+        vpsId,
+        maxLayers,
+        maxSubLayers,
+        temporalIdNesting,
+        profileTierLevel,
+        numUnitsInTick: null,
+        timeScale: null,
+    };
+    try {
+        const subLayerOrderingInfoPresent = reader.readFlag();
+        for (let i = subLayerOrderingInfoPresent ? 0 : maxSubLayers - 1; i < maxSubLayers; i++) {
+            reader.readUe(); // vps_max_dec_pic_buffering_minus1
+            reader.readUe(); // vps_max_num_reorder_pics
+            reader.readUe(); // vps_max_latency_increase_plus1
+        }
+        const maxLayerId = reader.readBits(6);
+        const numLayerSets = reader.readUe() + 1;
+        reader.skipBits((numLayerSets - 1) * (maxLayerId + 1)); // layer_id_included_flag
+        if (reader.readFlag()) { // vps_timing_info_present_flag
+            vps.numUnitsInTick = reader.readBits(32);
+            vps.timeScale = reader.readBits(32);
+        }
+    } catch (error) {
+        console.warn('[parameter-sets] Truncated HEVC VPS:', error);
+    }
+    return vps;
+}
+
+/**
+ * 跳过 HEVC 的 scaling_list_data()
+ */
+function skipHevcScalingListData(reader: BitReader) {
+    for (let sizeId = 0; sizeId < 4; sizeId++) {
+        for (let matrixId = 0; matrixId < 6; matrixId += sizeId === 3 ? 3 : 1) {
+            if (!reader.readFlag()) { // scaling_list_pred_mode_flag
+                reader.readUe(); // scaling_list_pred_matrix_id_delta
+                continue;
+            }
+            const coefNum = Math.min(64, 1 << (4 + (sizeId << 1)));
+            if (sizeId > 1) {
+                reader.readSe(); // scaling_list_dc_coef_minus8
+            }
+            for (let i = 0; i < coefNum; i++) {
+                reader.readSe(); // scaling_list_delta_coef
+            }
+        }
+    }
+}
+
+/**
+ * 跳过 SPS 中的 st_ref_pic_set(index)，返回该参考图像集的 NumDeltaPocs
+ * @param numDeltaPocs 之前各参考图像集的 NumDeltaPocs，预测方式的参考图像集依赖它
+ */
+function skipHevcShortTermRefPicSet(reader: BitReader, index: number, numDeltaPocs: number[]): number {
+    if (index !== 0 && reader.readFlag()) { // inter_ref_pic_set_prediction_flag
+        reader.readBit(); // delta_rps_sign
+        reader.readUe(); // abs_delta_rps_minus1
+        // SPS 中 delta_idx_minus1 固定为 0，从前一个参考图像集预测
+        const refCount = numDeltaPocs[index - 1] ?? 0;
+        let count = 0;
+        for (let j = 0; j <= refCount; j++) {
+            const usedByCurrPic = reader.readFlag();
+            const useDelta = usedByCurrPic || reader.readFlag();
+            if (useDelta) {
+                count++;
+            }
+        }
+        return count;
+    }
+    const numNegative = reader.readUe();
+    const numPositive = reader.readUe();
+    for (let i = 0; i < numNegative + numPositive; i++) {
+        reader.readUe(); // delta_poc_s0/s1_minus1
+        reader.readBit(); // used_by_curr_pic_s0/s1_flag
+    }
+    return numNegative + numPositive;
+}
+
+/**
+ * 跳过 HEVC 的 sub_layer_hrd_parameters()
+ */
+function skipHevcSubLayerHrd(reader: BitReader, cpbCount: number, subPicHrdParamsPresent: boolean) {
+    for (let i = 0; i < cpbCount; i++) {
+        reader.readUe(); // bit_rate_value_minus1
+        reader.readUe(); // cpb_size_value_minus1
+        if (subPicHrdParamsPresent) {
+            reader.readUe(); // cpb_size_du_value_minus1
+            reader.readUe(); // bit_rate_du_value_minus1
+        }
+        reader.readBit(); // cbr_flag
+    }
+}
+
+/**
+ * 跳过 VUI 中的 hrd_parameters(1, maxSubLayers - 1)（ITU-T H.265 E.2.2）
+ */
+function skipHevcHrd(reader: BitReader, maxSubLayers: number) {
+    const nalHrdPresent = reader.readFlag();
+    const vclHrdPresent = reader.readFlag();
+    let subPicHrdParamsPresent = false;
+    if (nalHrdPresent || vclHrdPresent) {
+        subPicHrdParamsPresent = reader.readFlag();
+        if (subPicHrdParamsPresent) {
+            // tick_divisor_minus2(8)、du_cpb_removal_delay_increment_length_minus1(5)、
+            // sub_pic_cpb_params_in_pic_timing_sei_flag(1)、dpb_output_delay_du_length_minus1(5)
+            reader.skipBits(19);
+        }
+        reader.skipBits(8); // bit_rate_scale、cpb_size_scale
+        if (subPicHrdParamsPresent) {
+            reader.skipBits(4); // cpb_size_du_scale
+        }
+        // initial_cpb_removal_delay_length_minus1、au_cpb_removal_delay_length_minus1、dpb_output_delay_length_minus1
+        reader.skipBits(15);
+    }
+    for (let i = 0; i < maxSubLayers; i++) {
+        const fixedPicRateGeneral = reader.readFlag();
+        const fixedPicRateWithinCvs = fixedPicRateGeneral || reader.readFlag();
+        let lowDelayHrd = false;
+        if (fixedPicRateWithinCvs) {
+            reader.readUe(); // elemental_duration_in_tc_minus1
+        } else {
+            lowDelayHrd = reader.readFlag();
+        }
+        const cpbCount = lowDelayHrd ? 1 : reader.readUe() + 1;
+        if (nalHrdPresent) {
+            skipHevcSubLayerHrd(reader, cpbCount, subPicHrdParamsPresent);
+        }
+        if (vclHrdPresent) {
+            skipHevcSubLayerHrd(reader, cpbCount, subPicHrdParamsPresent);
+        }
+    }
+}
+
+/**
+ * 解析 HEVC 的 VUI，读到 bitstream_restriction 中的 min_spatial_segmentation_idc，读到一半数据不足时返回已读取的部分
+ * @param maxSubLayers sps_max_sub_layers_minus1 + 1，跳过 HRD 参数时需要
+ */
+function readHevcVui(reader: BitReader, maxSubLayers: number): HevcVui {
+    const vui: HevcVui = {
+        ...createVui(),
+        fieldSeq: false,
+        frameFieldInfoPresent: false,
+        minSpatialSegmentationIdc: 0,
+    };
+    try {
+        readVuiCommon(reader, vui);
+        reader.readBit(); // neutral_chroma_indication_flag
+        vui.fieldSeq = reader.readFlag();
+        vui.frameFieldInfoPresent = reader.readFlag();
+        if (reader.readFlag()) { // default_display_window_flag
+            reader.readUe();
+            reader.readUe();
+            reader.readUe();
+            reader.readUe();
+        }
+        if (reader.readFlag()) { // vui_timing_info_present_flag
+            vui.numUnitsInTick = reader.readBits(32);
+            vui.timeScale = reader.readBits(32);
+            if (reader.readFlag()) { // vui_poc_proportional_to_timing_flag
+                reader.readUe(); // vui_num_ticks_poc_diff_one_minus1
+            }
+            if (reader.readFlag()) { // vui_hrd_parameters_present_flag
+                skipHevcHrd(reader, maxSubLayers);
+            }
+        }
+        if (reader.readFlag()) { // bitstream_restriction_flag
+            reader.readBit(); // tiles_fixed_structure_flag
+            reader.readBit(); // motion_vectors_over_pic_boundaries_flag
+            reader.readBit(); // restricted_ref_pic_lists_flag
+            vui.minSpatialSegmentationIdc = reader.readUe();
+        }
+    } catch (error) {
+        console.warn('[parameter-sets] Truncated HEVC VUI:', error);
+    }
+    return vui;
+}
+
+/**
+ * 解析 HEVC SPS（ITU-T H.265 7.3.2.2）
+ * @param nal SPS NAL 单元（含 NAL 头，不含起始码）
+ */
+export function parseHevcSps(nal: Uint8Array): HevcSps {
+    const reader = createRbspReader(nal, 2);
+    const vpsId = reader.readBits(4);
+    const maxSubLayers = reader.readBits(3) + 1;
+    reader.readBit(); // sps_temporal_id_nesting_flag
+    const profileTierLevel = readHevcProfileTierLevel(reader, maxSubLayers - 1);
+    const spsId = reader.readUe();
+    const chromaFormatIdc = reader.readUe();
+    const separateColourPlane = chromaFormatIdc === 3 ? reader.readFlag() : false;
+    const codedWidth = reader.readUe();
+    const codedHeight = reader.readUe();
+    let width = codedWidth;
+    let height = codedHeight;
+    if (reader.readFlag()) { // conformance_window_flag
+        const left = reader.readUe();
+        const right = reader.readUe();
+        const top = reader.readUe();
+        const bottom = reader.readUe();
+        const chromaArrayType = separateColourPlane ? 0 : chromaFormatIdc;
+        const subWidth = chromaArrayType === 1 || chromaArrayType === 2 ? 2 : 1;
+        const subHeight = chromaArrayType === 1 ? 2 : 1;
+        width -= (left + right) * subWidth;
+        height -= (top + bottom) * subHeight;
+    }
+    const bitDepthLuma = reader.readUe() + 8;
+    const bitDepthChroma = reader.readUe() + 8;
+    const log2MaxPicOrderCntLsb = reader.readUe() + 4;
+
+    let maxDecPicBuffering = 1;
+    let maxNumReorderPics = 0;
+    const subLayerOrderingInfoPresent = reader.readFlag();
+    for (let i = subLayerOrderingInfoPresent ? 0 : maxSubLayers - 1; i < maxSubLayers; i++) {
+        // 保留最高子层的值
+        maxDecPicBuffering = reader.readUe() + 1;
+        maxNumReorderPics = reader.readUe();
+        reader.readUe(); // sps_max_latency_increase_plus1
+    }
+
+    const log2MinLumaCodingBlockSize = reader.readUe() + 3;
+    const log2CtbSize = log2MinLumaCodingBlockSize + reader.readUe();
+    reader.readUe(); // log2_min_luma_transform_block_size_minus2
+    reader.readUe(); // log2_diff_max_min_luma_transform_block_size
+    reader.readUe(); // max_transform_hierarchy_depth_inter
+    reader.readUe(); // max_transform_hierarchy_depth_intra
+    if (reader.readFlag() && reader.readFlag()) { // scaling_list_enabled_flag, sps_scaling_list_data_present_flag
+        skipHevcScalingListData(reader);
+    }
+    reader.readBit(); // amp_enabled_flag
+    reader.readBit(); // sample_adaptive_offset_enabled_flag
+    if (reader.readFlag()) { // pcm_enabled_flag
+        reader.skipBits(8); // pcm_sample_bit_depth_luma/chroma_minus1
+        reader.readUe(); // log2_min_pcm_luma_coding_block_size_minus3
+        reader.readUe(); // log2_diff_max_min_pcm_luma_coding_block_size
+        reader.readBit(); // pcm_loop_filter_disabled_flag
+    }
+
+    const numShortTermRefPicSets = reader.readUe();
+    const numDeltaPocs: number[] = [];
+    for (let i = 0; i < numShortTermRefPicSets; i++) {
+        numDeltaPocs.push(skipHevcShortTermRefPicSet(reader, i, numDeltaPocs));
+    }
+    const longTermRefPicsPresent = reader.readFlag();
+    if (longTermRefPicsPresent) {
+        const numLongTermRefPics = reader.readUe();
+        reader.skipBits(numLongTermRefPics * (log2MaxPicOrderCntLsb + 1)); // lt_ref_pic_poc_lsb_sps, used_by_curr_pic_lt_sps_flag
+    }
+    const temporalMvpEnabled = reader.readFlag();
+    reader.readBit(); // strong_intra_smoothing_enabled_flag
+    const vui = reader.readFlag() ? readHevcVui(reader, maxSubLayers) : null;
+
+    return {
+        vpsId,
+        spsId,
+        maxSubLayers,
+        profileTierLevel,
+        chromaFormatIdc,
+        separateColourPlane,
+        bitDepthLuma,
+        bitDepthChroma,
+        log2MaxPicOrderCntLsb,
+        maxDecPicBuffering,
+        maxNumReorderPics,
+        log2MinLumaCodingBlockSize,
+        log2CtbSize,
+        codedWidth,
+        codedHeight,
+        width,
+        height,
+        numShortTermRefPicSets,
+        longTermRefPicsPresent,
+        temporalMvpEnabled,
+        vui,
+    };
+}
+
+/**
+ * 解析 HEVC PPS（ITU-T H.265 7.3.2.3），只读到 entropy_coding_sync_enabled_flag
+ * @param nal PPS NAL 单元（含 NAL 头，不含起始码）
+ */
+export function parseHevcPps(nal: Uint8Array): HevcPps {
+    const reader = createRbspReader(nal, 2);
+    const ppsId = reader.readUe();
+    const spsId = reader.readUe();
+    const dependentSliceSegmentsEnabled = reader.readFlag();
+    const outputFlagPresent = reader.readFlag();
+    const numExtraSliceHeaderBits = reader.readBits(3);
+    const signDataHiding = reader.readFlag();
+    const cabacInitPresent = reader.readFlag();
+    const numRefIdxL0DefaultActive = reader.readUe() + 1;
+    const numRefIdxL1DefaultActive = reader.readUe() + 1;
+    const initQp = reader.readSe() + 26;
+    const constrainedIntraPred = reader.readFlag();
+    const transformSkipEnabled = reader.readFlag();
+    const cuQpDeltaEnabled = reader.readFlag();
+    if (cuQpDeltaEnabled) {
+        reader.readUe(); // diff_cu_qp_delta_depth
+    }
+    reader.readSe(); // pps_cb_qp_offset
+    reader.readSe(); // pps_cr_qp_offset
+    reader.readBit(); // pps_slice_chroma_qp_offsets_present_flag
+    const weightedPred = reader.readFlag();
+    const weightedBipred = reader.readFlag();
+    reader.readBit(); // transquant_bypass_enabled_flag
+    const tilesEnabled = reader.readFlag();
+    const entropyCodingSyncEnabled = reader.readFlag();
+    return {
+        ppsId,
+        spsId,
+        dependentSliceSegmentsEnabled,
+        outputFlagPresent,
+        numExtraSliceHeaderBits,
+        signDataHiding,
+        cabacInitPresent,
+        numRefIdxL0DefaultActive,
+        numRefIdxL1DefaultActive,
+        initQp,
+        constrainedIntraPred,
+        transformSkipEnabled,
+        cuQpDeltaEnabled,
+        weightedPred,
+        weightedBipred,
+        tilesEnabled,
+        entropyCodingSyncEnabled,
+    };
+}
+
+/**
+ * 按 NAL 类型找到第一个参数集
+ */
+function findNalUnit(codec: 'h264' | 'h265', nalUnits: Uint8Array[], type: number): Uint8Array | undefined {
+    return nalUnits.find((nal) => nal.length > 2 && (codec === 'h264' ? nal[0]! & 0x1F : (nal[0]! >> 1) & 0x3F) === type);
+}
+
+/**
+ * 解析 avcC/hvcC 或包含参数集的 Annex-B 数据，汇总码流参数
+ * @param codec 编码类型，只支持 H.264 和 HEVC
+ * @param data description（avcC/hvcC）或包含参数集的数据
+ * @returns 没有 SPS 或解析失败时返回 undefined
+ */
+export function parseBitstreamInfo(codec: string, data: Uint8Array | undefined): VideoBitstreamInfo | undefined {
+    if ((codec !== 'h264' && codec !== 'h265') || !data || !data.length) {
+        return undefined;
+    }
+    try {
+        const nalUnits = getParameterSetNalUnits(codec, data);
+        if (codec === 'h264') {
+            const spsNal = findNalUnit(codec, nalUnits, 7);
+            if (!spsNal) {
+                return undefined;
+            }
+            const sps = parseH264Sps(spsNal);
+            const ppsNal = findNalUnit(codec, nalUnits, 8);
+            const pps = ppsNal ? parseH264Pps(ppsNal) : undefined;
+            const vui = sps.vui;
+            return {
+                codec,
+                profileIdc: sps.profileIdc,
+                levelIdc: sps.levelIdc,
+                chromaFormat: CHROMA_FORMATS[sps.chromaFormatIdc] ?? '4:2:0',
+                bitDepthLuma: sps.bitDepthLuma,
+                bitDepthChroma: sps.bitDepthChroma,
+                codedWidth: sps.codedWidth,
+                codedHeight: sps.codedHeight,
+                width: sps.width,
+                height: sps.height,
+                sarWidth: vui?.sarWidth ?? 1,
+                sarHeight: vui?.sarHeight ?? 1,
+                // H.264 的一帧为两个 tick
+                frameRate: vui?.numUnitsInTick && vui.timeScale ? vui.timeScale / (2 * vui.numUnitsInTick) : null,
+                interlaced: !sps.frameMbsOnly,
+                colourPrimaries: vui?.colourPrimaries ?? null,
+                transferCharacteristics: vui?.transferCharacteristics ?? null,
+                matrixCoefficients: vui?.matrixCoefficients ?? null,
+                fullRange: vui?.fullRange ?? null,
+                maxRefFrames: sps.maxNumRefFrames,
+                entropyCoding: pps?.entropyCodingMode,
+            };
+        }
+
+        const spsNal = findNalUnit(codec, nalUnits, 33);
+        if (!spsNal) {
+            return undefined;
+        }
+        const sps = parseHevcSps(spsNal);
+        const vpsNal = findNalUnit(codec, nalUnits, 32);
+        const vps = vpsNal ? parseHevcVps(vpsNal) : undefined;
+        const ppsNal = findNalUnit(codec, nalUnits, 34);
+        const pps = ppsNal ? parseHevcPps(ppsNal) : undefined;
+        const vui = sps.vui;
+        // 时间信息优先使用 SPS 的 VUI，其次是 VPS
+        const numUnitsInTick = vui?.numUnitsInTick ?? vps?.numUnitsInTick;
+        const timeScale = vui?.timeScale ?? vps?.timeScale;
+        return {
+            codec,
+            profileIdc: sps.profileTierLevel.profileIdc,
+            levelIdc: sps.profileTierLevel.levelIdc,
+            tier: sps.profileTierLevel.tier,
+            chromaFormat: CHROMA_FORMATS[sps.chromaFormatIdc] ?? '4:2:0',
+            bitDepthLuma: sps.bitDepthLuma,
+            bitDepthChroma: sps.bitDepthChroma,
+            codedWidth: sps.codedWidth,
+            codedHeight: sps.codedHeight,
+            width: sps.width,
+            height: sps.height,
+            sarWidth: vui?.sarWidth ?? 1,
+            sarHeight: vui?.sarHeight ?? 1,
+            frameRate: numUnitsInTick && timeScale ? timeScale / numUnitsInTick : null,
+            interlaced: !!vui?.fieldSeq || sps.profileTierLevel.interlacedSource,
+            colourPrimaries: vui?.colourPrimaries ?? null,
+            transferCharacteristics: vui?.transferCharacteristics ?? null,
+            matrixCoefficients: vui?.matrixCoefficients ?? null,
+            fullRange: vui?.fullRange ?? null,
+            maxRefFrames: sps.maxDecPicBuffering - 1,
+            numExtraSliceHeaderBits: pps?.numExtraSliceHeaderBits,
+        };
+    } catch (error) {
+        console.warn('[parameter-sets] Failed to parse parameter sets:', error);
+        return undefined;
+    }
+}
+
+// colour_primaries / transfer_characteristics / matrix_coeffs（ITU-T H.273）到 WebCodecs 色彩空间的映射
+// lib.dom 只声明了部分取值，浏览器实际支持 bt2020、pq、hlg 等
+const COLOR_PRIMARIES: Record<number, string> = {
+    1: 'bt709',
+    5: 'bt470bg',
+    6: 'smpte170m',
+    9: 'bt2020',
+    12: 'smpte432',
+};
+const TRANSFER_CHARACTERISTICS: Record<number, string> = {
+    1: 'bt709',
+    6: 'smpte170m',
+    8: 'linear',
+    13: 'iec61966-2-1',
+    16: 'pq',
+    18: 'hlg',
+};
+const MATRIX_COEFFICIENTS: Record<number, string> = {
+    0: 'rgb',
+    1: 'bt709',
+    5: 'bt470bg',
+    6: 'smpte170m',
+    9: 'bt2020-ncl',
+};
+
+/**
+ * 把 VUI 中的色彩信息转换为 VideoDecoderConfig.colorSpace，码流中没有色彩描述时返回 undefined
+ * @param info 码流参数
+ */
+export function toVideoColorSpace(info: VideoBitstreamInfo): VideoColorSpaceInit | undefined {
+    const primaries = info.colourPrimaries !== null ? COLOR_PRIMARIES[info.colourPrimaries] : undefined;
+    const transfer = info.transferCharacteristics !== null ? TRANSFER_CHARACTERISTICS[info.transferCharacteristics] : undefined;
+    const matrix = info.matrixCoefficients !== null ? MATRIX_COEFFICIENTS[info.matrixCoefficients] : undefined;
+    if (!primaries && !transfer && !matrix && info.fullRange === null) {
+        return undefined;
+    }
+    return {
+        primaries: primaries as VideoColorPrimaries | undefined,
+        transfer: transfer as VideoTransferCharacteristics | undefined,
+        matrix: matrix as VideoMatrixCoefficients | undefined,
+        fullRange: info.fullRange ?? undefined,
+    };
+}
+
+/**
+ * 按 SAR 计算显示宽高比，SAR 为 1:1 时返回 undefined
+ * @param info 码流参数
+ */
+export function getDisplayAspect(info: VideoBitstreamInfo): { width: number; height: number } | undefined {
+    if (info.sarWidth === info.sarHeight) {
+        return undefined;
+    }
+    return {
+        width: Math.round(info.width * info.sarWidth / info.sarHeight),
+        height: info.height,
+    };
+}
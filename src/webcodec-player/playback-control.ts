@@ -0,0 +1,202 @@
+/**
+ * 播放控制：seek 请求的排队合并，暂停状态下的逐帧前进和后退
+ * @author guo xiao
+ */
+
+import type { StreamTimeline } from './timeline';
+
+// 逐帧步进时解码器超过该时间（毫秒）没有输出才继续送下一帧
+const STEP_IDLE_TIME = 50;
+// 单次逐帧步进的最长等待时间（毫秒）
+const STEP_TIMEOUT = 5000;
+// 记录最近渲染帧时间戳的数量，用于后退一帧时定位上一帧
+const RENDERED_HISTORY_SIZE = 300;
+
+/**
+ * 待执行的 seek：读取循环在两个数据包之间取出执行，执行前的多次请求只保留最后一个目标
+ */
+export class SeekQueue {
+    private target: number | null = null;
+    private resolvers: (() => void)[] = [];
+    private onRequest: () => void;
+
+    /**
+     * @param onRequest 有新的 seek 请求时回调，用于唤醒读取循环
+     */
+    constructor(onRequest: () => void) {
+        this.onRequest = onRequest;
+    }
+
+    /**
+     * 请求 seek，执行完成（或队列销毁）后 resolve
+     * @param seconds 目标时间（秒，相对于流的起始时间）
+     */
+    request(seconds: number): Promise<void> {
+        return new Promise<void>((resolve) => {
+            this.target = seconds;
+            this.resolvers.push(resolve);
+            this.onRequest();
+        });
+    }
+
+    /**
+     * 是否有待执行的 seek
+     */
+    get pending(): boolean {
+        return this.target !== null;
+    }
+
+    /**
+     * 取出待执行的目标，没有时返回 null
+     */
+    take(): number | null {
+        const target = this.target;
+        this.target = null;
+        return target;
+    }
+
+    /**
+     * seek 执行完成，通知目前为止的所有请求方
+     */
+    resolve() {
+        const resolvers = this.resolvers;
+        this.resolvers = [];
+        resolvers.forEach((resolve) => resolve());
+    }
+}
+
+export interface FrameStepperOptions {
+    timeline: StreamTimeline;
+    step: () => boolean; // 从队列取一帧送去解码，队列为空时返回 false
+    isReadEnded: () => boolean; // 解封装是否已读到结尾
+    seek: (seconds: number) => Promise<void>; // 后退时 seek 到上一帧
+    getFrameInterval: () => number; // 帧间隔（毫秒），没有渲染记录时用于估算上一帧
+    signal: AbortSignal;
+}
+
+/**
+ * 逐帧步进：根据解码输出和渲染记录，暂停时一次只前进或后退一帧
+ */
+export class FrameStepper {
+    private options: FrameStepperOptions;
+    private renderedTimestamps: number[] = [];
+    private lastRenderedTimestamp: number = -1;
+    private renderedCount: number = 0;
+    private outputWaiter: (() => void) | null = null;
+    // 步进请求依次执行，连续点击不会并发送帧
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(options: FrameStepperOptions) {
+        this.options = options;
+    }
+
+    /**
+     * 解码器输出了一帧（包括不显示的帧）
+     */
+    notifyOutput() {
+        this.outputWaiter?.();
+    }
+
+    /**
+     * 渲染了一帧
+     * @param timestamp 帧的 pts（微秒）
+     * @param continuous 是否连续解码；只解码关键帧时渲染的帧不连续，不能作为后退一帧的依据
+     */
+    notifyRendered(timestamp: number, continuous: boolean) {
+        this.renderedCount++;
+        this.lastRenderedTimestamp = timestamp;
+        if (continuous) {
+            this.renderedTimestamps.push(timestamp);
+            if (this.renderedTimestamps.length > RENDERED_HISTORY_SIZE) {
+                this.renderedTimestamps.shift();
+            }
+        }
+    }
+
+    /**
+     * 已渲染的帧数
+     */
+    get rendered(): number {
+        return this.renderedCount;
+    }
+
+    /**
+     * 前进或后退一帧，调用方负责先暂停
+     * @param backward 是否后退：从上一帧之前最近的关键帧重新解码到上一帧
+     */
+    step(backward: boolean): Promise<void> {
+        this.queue = this.queue.then(async () => {
+            if (backward) {
+                await this.seekToPreviousFrame();
+            }
+            if (!await this.stepFrame()) {
+                console.warn('逐帧步进没有渲染出新的帧');
+            }
+        });
+        return this.queue;
+    }
+
+    /**
+     * 等待解码器输出一帧
+     * @param timeout 超时（毫秒）
+     * @returns 超时前是否有输出
+     */
+    private waitForOutput(timeout: number): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => {
+                this.outputWaiter = null;
+                resolve(false);
+            }, timeout);
+            this.outputWaiter = () => {
+                clearTimeout(timer);
+                this.outputWaiter = null;
+                resolve(true);
+            };
+        });
+    }
+
+    /**
+     * 暂停状态下逐帧送去解码，直到渲染出新的一帧
+     * 解码器可能缓存若干帧后才输出（B 帧重排），只在解码器空闲时才送下一帧，避免一次跨过多帧
+     * @returns 是否渲染出了新的一帧
+     */
+    private async stepFrame(): Promise<boolean> {
+        const { step, isReadEnded, signal } = this.options;
+        const rendered = this.renderedCount;
+        const deadline = performance.now() + STEP_TIMEOUT;
+        while (this.renderedCount === rendered && performance.now() < deadline && !signal.aborted) {
+            if (await this.waitForOutput(STEP_IDLE_TIME)) {
+                continue;
+            }
+            if (!step() && isReadEnded()) {
+                break;
+            }
+        }
+        return this.renderedCount !== rendered;
+    }
+
+    /**
+     * seek 到上一帧，从它之前最近的关键帧重新解码，只显示上一帧
+     */
+    private async seekToPreviousFrame() {
+        if (this.lastRenderedTimestamp < 0) {
+            return;
+        }
+        // 优先使用实际渲染过的上一帧，没有记录时按帧间隔估算（多退半帧，容忍时间戳抖动）
+        let previous = -Infinity;
+        for (const timestamp of this.renderedTimestamps) {
+            if (timestamp < this.lastRenderedTimestamp && timestamp > previous) {
+                previous = timestamp;
+            }
+        }
+        if (!Number.isFinite(previous)) {
+            previous = this.lastRenderedTimestamp - this.options.getFrameInterval() * 1500;
+        }
+        // 减去半微秒，避免换算成秒再换算回来的误差把上一帧本身丢掉
+        const seconds = this.options.timeline.toSeconds(previous - 0.5);
+        if (seconds < 0) {
+            return;
+        }
+        await this.options.seek(seconds);
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * 通过文件头部字节识别容器格式，不依赖文件扩展名
+ * @author guo xiao
+ */
+
+export type ContainerFormat =
+    | 'mpegts'
+    | 'isobmff'
+    | 'flv'
+    | 'matroska'
+    | 'webm'
+    | 'mpegps'
+    | 'avi'
+    | 'ivf'
+    | 'ogg';
+
+export interface ProbeResult {
+    format: ContainerFormat;
+    packetSize?: number; // MPEG-TS 包长度（188/192/204）
+    offset?: number; // MPEG-TS 第一个同步字节的位置
+}
+
+// 建议读取用于探测的字节数
+export const PROBE_SIZE = 4096;
+
+// MPEG-TS 同步字节
+const TS_SYNC_BYTE = 0x47;
+// 188: 标准 TS，192: M2TS（每个包前有 4 字节时间码），204: 带 16 字节 RS 校验的 TS
+const TS_PACKET_SIZES = [188, 192, 204];
+// 至少需要连续命中的同步字节数
+const TS_MIN_SYNC_COUNT = 3;
+
+// ISOBMFF 顶层 box 类型
+const ISOBMFF_BOX_TYPES = ['ftyp', 'styp', 'moov', 'moof', 'mdat', 'free', 'skip', 'wide', 'pnot', 'sidx'];
+
+function readString(data: Uint8Array, offset: number, length: number): string {
+    let str = '';
+    for (let i = offset; i < offset + length && i < data.length; i++) {
+        str += String.fromCharCode(data[i]!);
+    }
+    return str;
+}
+
+/**
+ * 检测 MPEG-TS：在 188/192/204 字节的步长上连续出现同步字节 0x47
+ * @param data 文件头部数据
+ */
+function probeMpegts(data: Uint8Array): ProbeResult | null {
+    for (const packetSize of TS_PACKET_SIZES) {
+        // 允许文件开头有少量垃圾数据，同步字节可能出现在第一个包长度之内的任意位置
+        for (let offset = 0; offset < packetSize && offset < data.length; offset++) {
+            if (data[offset] !== TS_SYNC_BYTE) {
+                continue;
+            }
+            // 数据较短时能验证几个包算几个，但至少需要两个
+            const available = Math.floor((data.length - offset - 1) / packetSize) + 1;
+            const needCount = Math.min(TS_MIN_SYNC_COUNT, available);
+            if (needCount < 2) {
+                continue;
+            }
+            let count = 0;
+            for (let pos = offset; pos < data.length && count < needCount; pos += packetSize) {
+                if (data[pos] !== TS_SYNC_BYTE) {
+                    break;
+                }
+                count++;
+            }
+            if (count >= needCount) {
+                return { format: 'mpegts', packetSize, offset };
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * 检测 EBML 头，并根据 DocType 区分 Matroska 和 WebM
+ * @param data 文件头部数据
+ */
+function probeEbml(data: Uint8Array): ProbeResult | null {
+    if (data[0] !== 0x1A || data[1] !== 0x45 || data[2] !== 0xDF || data[3] !== 0xA3) {
+        return null;
+    }
+    // DocType 元素 ID 为 0x4282，其内容为 "matroska" 或 "webm"
+    const header = readString(data, 4, Math.min(data.length - 4, 64));
+    return { format: header.includes('webm') ? 'webm' : 'matroska' };
+}
+
+/**
+ * 根据文件头部字节识别容器格式
+ * @param data 文件头部数据（建议 PROBE_SIZE 字节）
+ * @returns 识别结果，无法识别时返回 null
+ */
+export function probeContainer(data: Uint8Array): ProbeResult | null {
+    if (data.length < 4) {
+        return null;
+    }
+
+    // FLV: "FLV" + 版本号 1
+    if (readString(data, 0, 3) === 'FLV' && data[3] === 0x01) {
+        return { format: 'flv' };
+    }
+
+    const ebml = probeEbml(data);
+    if (ebml) {
+        return ebml;
+    }
+
+    // ISOBMFF: 第 4~8 字节为顶层 box 类型
+    if (data.length >= 8 && ISOBMFF_BOX_TYPES.includes(readString(data, 4, 4))) {
+        return { format: 'isobmff' };
+    }
+
+    // AVI: "RIFF" + size + "AVI "
+    if (readString(data, 0, 4) === 'RIFF' && readString(data, 8, 4) === 'AVI ') {
+        return { format: 'avi' };
+    }
+
+    // IVF: "DKIF"
+    if (readString(data, 0, 4) === 'DKIF') {
+        return { format: 'ivf' };
+    }
+
+    // Ogg: "OggS"
+    if (readString(data, 0, 4) === 'OggS') {
+        return { format: 'ogg' };
+    }
+
+    // MPEG-PS: pack header 起始码 0x000001BA
+    if (data[0] === 0x00 && data[1] === 0x00 && data[2] === 0x01 && data[3] === 0xBA) {
+        return { format: 'mpegps' };
+    }
+
+    return probeMpegts(data);
+}
+
+/**
+ * 将前几个字节格式化为十六进制，用于错误提示
+ * @param data 数据
+ * @param length 字节数
+ */
+export function formatProbeBytes(data: Uint8Array, length: number = 16): string {
+    return Array.from(data.subarray(0, length))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join(' ');
+}
@@ -0,0 +1,82 @@
+/**
+ * 渲染器接口，以及根据浏览器能力自动选择渲染器
+ * @author guo xiao
+ */
+
+import { VideoRender } from './video-render';
+import { CanvasRender } from './canvas-render';
+import { CallbackRender } from './callback-render';
+
+/**
+ * auto: 按特性检测自动选择；video: MediaStreamTrackGenerator + video 元素；canvas: WebGL（回退到 2D）
+ */
+export type RendererType = 'auto' | 'video' | 'canvas';
+
+export interface Renderer {
+    /**
+     * 渲染视频帧，渲染器负责关闭 videoFrame
+     * @param videoFrame - VideoFrame 对象
+     */
+    render(videoFrame: VideoFrame): void;
+    /**
+     * 渲染 ImageData（软解输出等）
+     * @param data - ImageData 对象
+     */
+    renderImageData(data: ImageData): void;
+    /**
+     * 视频尺寸变化（码流中途切换分辨率）时调整渲染尺寸
+     * @param width - 视频宽度
+     * @param height - 视频高度
+     */
+    resize(width: number, height: number): void;
+    /**
+     * 销毁渲染器，释放资源
+     */
+    destroy(): void;
+}
+
+export interface RendererOptions {
+    width: number;
+    height: number;
+    videoEl?: HTMLVideoElement;
+    canvasEl?: HTMLCanvasElement | OffscreenCanvas; // canvas 渲染使用的画布，不传时在 videoEl 旁边自动创建
+    type?: RendererType; // 默认 auto
+    onFrame?: (videoFrame: VideoFrame) => void; // 不在本线程渲染，把帧交给回调（例如转发给主线程），优先于 type
+}
+
+/**
+ * 判断当前浏览器是否支持 video 元素渲染（依赖 MediaStreamTrackGenerator）
+ */
+export function isVideoRenderSupported(): boolean {
+    return !!(globalThis as any)['MediaStreamTrackGenerator'];
+}
+
+/**
+ * 创建渲染器
+ * @param options - 渲染配置选项
+ */
+export function createRenderer(options: RendererOptions): Renderer {
+    if (options.onFrame) {
+        console.log('[Renderer] Using callback renderer');
+        return new CallbackRender({ onFrame: options.onFrame });
+    }
+
+    const type = options.type ?? 'auto';
+    const useVideo = !!options.videoEl && (type === 'video' || (type === 'auto' && isVideoRenderSupported()));
+
+    console.log(`[Renderer] Using ${useVideo ? 'video' : 'canvas'} renderer (requested: ${type})`);
+
+    if (useVideo) {
+        return new VideoRender({
+            width: options.width,
+            height: options.height,
+            videoEl: options.videoEl!,
+        });
+    }
+    return new CanvasRender({
+        width: options.width,
+        height: options.height,
+        videoEl: options.videoEl,
+        canvasEl: options.canvasEl,
+    });
+}
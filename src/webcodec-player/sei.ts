@@ -0,0 +1,354 @@
+/**
+ * H.264/HEVC 的 SEI 解析：user_data_unregistered、user_data_registered_itu_t_t35（CEA-608/708 字幕）、pic_timing 和 time_code
+ * @author guo xiao
+ */
+
+import { BitReader } from './bitstream';
+import { splitNalUnits, removeEmulationPrevention, getParameterSetNalUnits, getNalFormat, type NalFormat } from './codec-description';
+import { parseH264Sps, parseHevcSps } from './parameter-sets';
+
+/**
+ * SEI 中的时间码（clock timestamp）
+ */
+export interface SeiTimecode {
+    hours: number;
+    minutes: number;
+    seconds: number;
+    frames: number;
+    dropFrame: boolean; // cnt_dropped_flag
+    text: string; // HH:MM:SS:FF，丢帧时码最后一个分隔符为 ';'
+}
+
+/**
+ * cc_data() 中的一组字幕数据，只保留 cc_valid 的
+ * type 0/1: CEA-608 第 1/2 场，2: CEA-708 DTVCC 包数据，3: CEA-708 DTVCC 包开始
+ */
+export interface CcData {
+    type: number;
+    data1: number;
+    data2: number;
+}
+
+export type SeiMessage =
+    | { type: 'user_data_unregistered'; payloadType: number; uuid: string; payload: Uint8Array; text?: string }
+    | { type: 'user_data_registered'; payloadType: number; countryCode: number; providerCode: number; payload: Uint8Array; ccData?: CcData[] }
+    | { type: 'pic_timing'; payloadType: number; picStruct: number | null; timecodes: SeiTimecode[] }
+    | { type: 'time_code'; payloadType: number; timecodes: SeiTimecode[] };
+
+/**
+ * 一帧中的 SEI 消息
+ */
+export interface SeiEvent {
+    timestamp: number; // 所在帧的 pts（微秒）
+    messages: SeiMessage[];
+}
+
+/**
+ * 解析 pic_timing 需要的 SPS 字段
+ */
+export interface SeiContext {
+    codec: 'h264' | 'h265';
+    nalFormat?: NalFormat; // 送入解码器的数据格式，配置了 avcC/hvcC 时为长度前缀
+    cpbDpbDelaysPresent: boolean; // H.264：VUI 中有 NAL 或 VCL HRD 参数
+    cpbRemovalDelayLength: number;
+    dpbOutputDelayLength: number;
+    timeOffsetLength: number;
+    picStructPresent: boolean; // H.264 pic_struct_present_flag，HEVC frame_field_info_present_flag
+}
+
+const SEI_PAYLOAD_PIC_TIMING = 1;
+const SEI_PAYLOAD_USER_DATA_REGISTERED = 4;
+const SEI_PAYLOAD_USER_DATA_UNREGISTERED = 5;
+const SEI_PAYLOAD_TIME_CODE = 136; // HEVC
+
+// ITU-T T.35：美国，ATSC（A/53）和 DirecTV
+const T35_COUNTRY_USA = 0xB5;
+const T35_COUNTRY_EXTENSION = 0xFF;
+const T35_PROVIDER_ATSC = 0x0031;
+const T35_PROVIDER_DIRECTV = 0x002F;
+const ATSC_USER_IDENTIFIER_GA94 = 0x47413934;
+const USER_DATA_TYPE_CC_DATA = 0x03;
+
+// H.264 pic_struct 对应的 NumClockTS（表 D-1）
+const H264_NUM_CLOCK_TS = [1, 1, 1, 2, 2, 3, 3, 2, 3];
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * 根据 description 中的 SPS 创建解析上下文，没有 SPS 时按没有 HRD 和 pic_struct 处理
+ * @param codec 编码类型
+ * @param description avcC/hvcC
+ */
+export function createSeiContext(codec: 'h264' | 'h265', description?: Uint8Array): SeiContext {
+    const context: SeiContext = {
+        codec,
+        nalFormat: getNalFormat(description),
+        cpbDpbDelaysPresent: false,
+        cpbRemovalDelayLength: 24,
+        dpbOutputDelayLength: 24,
+        timeOffsetLength: 24,
+        picStructPresent: false,
+    };
+    if (!description) {
+        return context;
+    }
+    try {
+        const nalUnits = getParameterSetNalUnits(codec, description);
+        if (codec === 'h264') {
+            const spsNal = nalUnits.find((nal) => nal.length > 1 && (nal[0]! & 0x1F) === 7);
+            const vui = spsNal ? parseH264Sps(spsNal).vui : null;
+            const hrd = vui?.nalHrd ?? vui?.vclHrd;
+            if (vui) {
+                context.picStructPresent = vui.picStructPresent;
+            }
+            if (hrd) {
+                context.cpbDpbDelaysPresent = true;
+                context.cpbRemovalDelayLength = hrd.cpbRemovalDelayLength;
+                context.dpbOutputDelayLength = hrd.dpbOutputDelayLength;
+                context.timeOffsetLength = hrd.timeOffsetLength;
+            }
+        } else {
+            const spsNal = nalUnits.find((nal) => nal.length > 2 && ((nal[0]! >> 1) & 0x3F) === 33);
+            const vui = spsNal ? parseHevcSps(spsNal).vui : null;
+            context.picStructPresent = !!vui?.frameFieldInfoPresent;
+        }
+    } catch (error) {
+        console.warn('[sei] Failed to parse SPS for SEI context:', error);
+    }
+    return context;
+}
+
+/**
+ * 解析一帧中所有 SEI NAL 单元（H.264 类型 6，HEVC 类型 39/40）
+ * @param context 解析上下文
+ * @param data 视频数据（Annex-B 或长度前缀格式）
+ */
+export function extractSeiMessages(context: SeiContext, data: Uint8Array): SeiMessage[] {
+    const messages: SeiMessage[] = [];
+    for (const nal of splitNalUnits(data, context.nalFormat)) {
+        const header = nal[0];
+        if (header === undefined) {
+            continue;
+        }
+        const isSei = context.codec === 'h264'
+            ? (header & 0x1F) === 6
+            : [39, 40].includes((header >> 1) & 0x3F);
+        if (!isSei) {
+            continue;
+        }
+        const rbsp = removeEmulationPrevention(nal.subarray(context.codec === 'h264' ? 1 : 2));
+        messages.push(...parseSeiRbsp(context, rbsp));
+    }
+    return messages;
+}
+
+/**
+ * 解析 sei_rbsp()：依次读取 sei_message() 直到 rbsp_trailing_bits
+ */
+function parseSeiRbsp(context: SeiContext, rbsp: Uint8Array): SeiMessage[] {
+    const messages: SeiMessage[] = [];
+    let offset = 0;
+    // 最后一个字节为 rbsp_stop_one_bit 和对齐的 0
+    while (offset < rbsp.length && !(offset === rbsp.length - 1 && rbsp[offset] === 0x80)) {
+        let payloadType = 0;
+        while (rbsp[offset] === 0xFF) {
+            payloadType += 255;
+            offset++;
+        }
+        payloadType += rbsp[offset++] ?? 0;
+        let payloadSize = 0;
+        while (rbsp[offset] === 0xFF) {
+            payloadSize += 255;
+            offset++;
+        }
+        payloadSize += rbsp[offset++] ?? 0;
+        if (offset + payloadSize > rbsp.length) {
+            break;
+        }
+        try {
+            const message = parseSeiPayload(context, payloadType, rbsp.subarray(offset, offset + payloadSize));
+            if (message) {
+                messages.push(message);
+            }
+        } catch (error) {
+            console.warn(`[sei] Failed to parse SEI payload type ${payloadType}:`, error);
+        }
+        offset += payloadSize;
+    }
+    return messages;
+}
+
+function parseSeiPayload(context: SeiContext, payloadType: number, payload: Uint8Array): SeiMessage | undefined {
+    switch (payloadType) {
+        case SEI_PAYLOAD_USER_DATA_UNREGISTERED:
+            return parseUserDataUnregistered(payloadType, payload);
+        case SEI_PAYLOAD_USER_DATA_REGISTERED:
+            return parseUserDataRegistered(payloadType, payload);
+        case SEI_PAYLOAD_PIC_TIMING:
+            return parsePicTiming(context, payloadType, payload);
+        case SEI_PAYLOAD_TIME_CODE:
+            if (context.codec === 'h265') {
+                return parseTimeCode(payloadType, payload);
+            }
+            return undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * user_data_unregistered：16 字节 UUID 加自定义数据，能按 UTF-8 解码为可打印文本时同时给出 text
+ */
+function parseUserDataUnregistered(payloadType: number, payload: Uint8Array): SeiMessage | undefined {
+    if (payload.length < 16) {
+        return undefined;
+    }
+    const hex = Array.from(payload.subarray(0, 16), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    const uuid = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    // 复制一份，不引用整块 RBSP
+    const data = payload.slice(16);
+    let text: string | undefined;
+    try {
+        const decoded = utf8Decoder.decode(data).replace(/\0+$/, '');
+        if (decoded && !/[\x00-\x08\x0B\x0C\x0E-\x1F]/.test(decoded)) {
+            text = decoded;
+        }
+    } catch {
+        // 二进制数据
+    }
+    return { type: 'user_data_unregistered', payloadType, uuid, payload: data, text };
+}
+
+/**
+ * user_data_registered_itu_t_t35：ATSC A/53（GA94）和 DirecTV 格式中的 cc_data 解析为字幕数据
+ */
+function parseUserDataRegistered(payloadType: number, payload: Uint8Array): SeiMessage | undefined {
+    if (payload.length < 3) {
+        return undefined;
+    }
+    const countryCode = payload[0]!;
+    let offset = countryCode === T35_COUNTRY_EXTENSION ? 2 : 1;
+    const providerCode = ((payload[offset] ?? 0) << 8) | (payload[offset + 1] ?? 0);
+    offset += 2;
+
+    let ccData: CcData[] | undefined;
+    if (countryCode === T35_COUNTRY_USA && providerCode === T35_PROVIDER_ATSC) {
+        const userIdentifier = ((payload[offset] ?? 0) << 24 | (payload[offset + 1] ?? 0) << 16 | (payload[offset + 2] ?? 0) << 8 | (payload[offset + 3] ?? 0)) >>> 0;
+        if (userIdentifier === ATSC_USER_IDENTIFIER_GA94 && payload[offset + 4] === USER_DATA_TYPE_CC_DATA) {
+            ccData = parseCcData(payload.subarray(offset + 5));
+        }
+    } else if (countryCode === T35_COUNTRY_USA && providerCode === T35_PROVIDER_DIRECTV && payload[offset] === USER_DATA_TYPE_CC_DATA) {
+        ccData = parseCcData(payload.subarray(offset + 1));
+    }
+    return { type: 'user_data_registered', payloadType, countryCode, providerCode, payload: payload.slice(offset), ccData };
+}
+
+/**
+ * cc_data()（CEA-708 4.4）：process_cc_data_flag、cc_count、em_data，之后每组 3 字节
+ */
+function parseCcData(data: Uint8Array): CcData[] {
+    const flags = data[0] ?? 0;
+    if (!(flags & 0x40)) {
+        return [];
+    }
+    const count = flags & 0x1F;
+    const result: CcData[] = [];
+    for (let i = 0; i < count; i++) {
+        const offset = 2 + i * 3;
+        if (offset + 3 > data.length) {
+            break;
+        }
+        const header = data[offset]!;
+        if (header & 0x04) { // cc_valid
+            result.push({ type: header & 0x03, data1: data[offset + 1]!, data2: data[offset + 2]! });
+        }
+    }
+    return result;
+}
+
+/**
+ * 读取 clock_timestamp 中 clock_timestamp_flag 之后的部分
+ * H.264 先有 ct_type，n_frames 为 8 位，time_offset_length 来自 HRD；HEVC 的 n_frames 为 9 位，time_offset_length 在时间码中给出
+ */
+function readClockTimestamp(reader: BitReader, codec: 'h264' | 'h265', timeOffsetLength: number): SeiTimecode {
+    if (codec === 'h264') {
+        reader.skipBits(2); // ct_type
+    }
+    reader.skipBits(6); // nuit_field_based_flag / units_field_based_flag, counting_type
+    const fullTimestamp = reader.readFlag();
+    reader.readBit(); // discontinuity_flag
+    const dropFrame = reader.readFlag();
+    const frames = reader.readBits(codec === 'h264' ? 8 : 9);
+    let hours = 0;
+    let minutes = 0;
+    let seconds = 0;
+    if (fullTimestamp) {
+        seconds = reader.readBits(6);
+        minutes = reader.readBits(6);
+        hours = reader.readBits(5);
+    } else if (reader.readFlag()) {
+        seconds = reader.readBits(6);
+        if (reader.readFlag()) {
+            minutes = reader.readBits(6);
+            if (reader.readFlag()) {
+                hours = reader.readBits(5);
+            }
+        }
+    }
+    const offsetLength = codec === 'h264' ? timeOffsetLength : reader.readBits(5);
+    if (offsetLength > 0) {
+        reader.skipBits(offsetLength); // time_offset
+    }
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return {
+        hours,
+        minutes,
+        seconds,
+        frames,
+        dropFrame,
+        text: `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${dropFrame ? ';' : ':'}${pad(frames)}`,
+    };
+}
+
+/**
+ * pic_timing：H.264 带 pic_struct 时读取其中的时间码；HEVC 只读取 pic_struct，时间码在 time_code SEI 中
+ */
+function parsePicTiming(context: SeiContext, payloadType: number, payload: Uint8Array): SeiMessage | undefined {
+    if (!context.picStructPresent) {
+        // 没有 pic_struct 时只有 HRD 延迟，不输出
+        return undefined;
+    }
+    const reader = new BitReader(payload);
+    const timecodes: SeiTimecode[] = [];
+    let picStruct: number;
+    if (context.codec === 'h264') {
+        if (context.cpbDpbDelaysPresent) {
+            reader.skipBits(context.cpbRemovalDelayLength + context.dpbOutputDelayLength);
+        }
+        picStruct = reader.readBits(4);
+        const numClockTs = H264_NUM_CLOCK_TS[picStruct] ?? 0;
+        for (let i = 0; i < numClockTs; i++) {
+            if (reader.readFlag()) { // clock_timestamp_flag
+                timecodes.push(readClockTimestamp(reader, 'h264', context.timeOffsetLength));
+            }
+        }
+    } else {
+        picStruct = reader.readBits(4);
+    }
+    return { type: 'pic_timing', payloadType, picStruct, timecodes };
+}
+
+/**
+ * HEVC time_code（D.2.27）
+ */
+function parseTimeCode(payloadType: number, payload: Uint8Array): SeiMessage {
+    const reader = new BitReader(payload);
+    const numClockTs = reader.readBits(2);
+    const timecodes: SeiTimecode[] = [];
+    for (let i = 0; i < numClockTs; i++) {
+        if (reader.readFlag()) { // clock_timestamp_flag
+            timecodes.push(readClockTimestamp(reader, 'h265', 0));
+        }
+    }
+    return { type: 'time_code', payloadType, timecodes };
+}
@@ -1,70 +1,361 @@
-export class SpeedControl {
-    private encodeVideoChunkQueue: EncodedVideoChunk[] = [];
-    private onFrame: (frame: EncodedVideoChunk) => void;
-    private preTime: number = 0;
+export interface SpeedControlOptions<T> {
+    /**
+     * 队列最大长度，达到后 waitForSpace() 会阻塞生产者（默认 120 帧）
+     */
+    maxQueueSize?: number;
+    /**
+     * 没有时间戳时的帧间隔（毫秒，默认 40ms 即 25fps）
+     */
+    frameInterval?: number;
+    /**
+     * 获取队列项的调度时间戳（微秒，通常为 dts），返回 undefined 时按 frameInterval 推算
+     */
+    getTimestamp?: (item: T) => number | undefined;
+    /**
+     * 主时钟（微秒，通常为音频时钟），返回 undefined 时使用内部时钟
+     */
+    getMasterClock?: () => number | undefined;
+    /**
+     * 直播目标延迟（毫秒）。设置后作为抖动缓冲：延迟超过目标时加速播放，
+     * 落后于时钟的可丢弃项直接跳过，延迟过大时直接跳到目标延迟的位置
+     */
+    targetLatency?: number;
+    /**
+     * 该项是否可以丢弃而不影响后续解码（如非参考帧），仅在设置 targetLatency 时使用
+     */
+    isDroppable?: (item: T) => boolean;
+    /**
+     * 初始播放速率（默认 1），仅作用于内部时钟，有主时钟时跟随主时钟
+     */
+    playbackRate?: number;
+    /**
+     * 播放中队列耗尽（生产者跟不上）时回调，每次耗尽只回调一次
+     */
+    onWaiting?: () => void;
+}
+
+// 单次 requestAnimationFrame 最多推进的时钟（毫秒），避免页面切到后台后恢复时瞬间倾泻大量帧
+const MAX_TICK_ELAPSED = 250;
+// 时间戳与时钟相差超过该值（微秒）视为时间戳不连续，重新对齐时钟
+const DISCONTINUITY_THRESHOLD = 1_000_000;
+// 直播延迟超过目标延迟的倍数时加速追赶的播放速率
+const CATCH_UP_RATE = 1.25;
+// 直播延迟超过目标延迟的该倍数时直接跳到目标延迟的位置
+const MAX_LATENCY_FACTOR = 3;
+// 直播时落后时钟超过该值（微秒）的可丢弃项不再解码
+const LATE_DROP_THRESHOLD = 100_000;
+// 播放速率范围
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 8;
+
+export class SpeedControl<T = EncodedVideoChunk> {
+    private encodeVideoChunkQueue: T[] = [];
+    private onFrame: (frame: T) => void;
     private reqId: number = 0;
-    private frameInterval: number = 35; // 每40ms输出一帧
+    private frameInterval: number = 40; // 每40ms输出一帧
+    private getTimestamp: ((item: T) => number | undefined) | null;
+    private getMasterClock: (() => number | undefined) | null;
     private firstFrameTime: number = 0;
     private paused: boolean = false;
+    private maxQueueSize: number;
+    private spaceWaiters: (() => void)[] = [];
+    private emptyWaiters: (() => void)[] = [];
+    private onWaiting: (() => void) | null;
+    private starved: boolean = false;
+    // 媒体时钟（微秒），-1 表示尚未与第一帧对齐
+    private clock: number = -1;
+    private lastTickTime: number = 0;
+    // 上一个被消费项的调度时间戳（微秒）
+    private lastTimestamp: number = -1;
+    // seek 后快速消费（不按时钟节奏）timestamp 早于该值的项（微秒）
+    private fastForwardTimestamp: number = -Infinity;
+    private targetLatency: number; // 直播目标延迟（微秒），0 表示非直播
+    private isDroppable: ((item: T) => boolean) | null;
+    private lastQueuedTimestamp: number = -1; // 最近入队项的调度时间戳（微秒），即直播的最新位置
+    private droppedCount: number = 0;
+    private playbackRate: number = 1;
 
-    constructor(onFrame: (frame: EncodedVideoChunk) => void) {
+    constructor(onFrame: (frame: T) => void, options: SpeedControlOptions<T> = {}) {
         this.encodeVideoChunkQueue = [];
         this.onFrame = onFrame;
-        
+        this.maxQueueSize = Math.max(1, options.maxQueueSize ?? 120);
+        this.getTimestamp = options.getTimestamp ?? null;
+        this.getMasterClock = options.getMasterClock ?? null;
+        this.targetLatency = Math.max(0, options.targetLatency ?? 0) * 1000;
+        this.isDroppable = options.isDroppable ?? null;
+        this.onWaiting = options.onWaiting ?? null;
+        this.setPlaybackRate(options.playbackRate ?? 1);
+        if (options.frameInterval && options.frameInterval > 0) {
+            this.frameInterval = options.frameInterval;
+        }
+
         const reqFrame = (time: number) => {
             try {
-                // 等待第一帧到达后才开始计时
-                if (this.firstFrameTime) {
-                    const offset = time - this.preTime;
-                    
-                    // 如果时间间隔超过1.5倍的目标间隔，消费两帧追赶进度
-                    if (offset >= 1.5 * this.frameInterval) {
-                        this.preTime = time;
-                        if (!this.paused) {
-                            this.consume();
-                            this.consume();
-                        }
-                    } 
-                    // 如果时间间隔达到目标间隔，消费一帧
-                    else if (offset >= this.frameInterval) {
-                        this.preTime = this.preTime + this.frameInterval;
-                        if (!this.paused) {
-                            this.consume();
-                        }
-                    }
-                }
+                this.tick(time);
             } catch (error) {
                 console.error('[SpeedControl] requestAnimationFrame error:', error);
             } finally {
                 this.reqId = requestAnimationFrame(reqFrame);
             }
         };
-        
+
         this.reqId = requestAnimationFrame(reqFrame);
     }
 
+    /**
+     * 推进媒体时钟，并消费所有调度时间已到的项
+     * @param time requestAnimationFrame 时间（毫秒）
+     */
+    private tick(time: number) {
+        const elapsed = this.lastTickTime ? Math.min(time - this.lastTickTime, MAX_TICK_ELAPSED) : 0;
+        this.lastTickTime = time;
+
+        // 等待第一帧到达后才开始计时；暂停或队列为空（生产者跟不上）时时钟不前进
+        if (!this.firstFrameTime || this.paused) {
+            return;
+        }
+        if (!this.encodeVideoChunkQueue.length) {
+            if (!this.starved) {
+                this.starved = true;
+                this.onWaiting?.();
+            }
+            return;
+        }
+
+        // seek 后从关键帧到目标位置之间的帧不需要显示，立即送去解码
+        while (this.encodeVideoChunkQueue.length && this.peekTimestamp() < this.fastForwardTimestamp) {
+            this.consume();
+        }
+        if (!this.encodeVideoChunkQueue.length) {
+            return;
+        }
+
+        const head = this.peekTimestamp();
+        const masterClock = this.getMasterClock?.();
+        if (masterClock !== undefined) {
+            // 有主时钟时直接跟随主时钟：落后的帧会被立即消费以追赶，超前的帧等待
+            this.clock = masterClock;
+        } else {
+            if (this.clock < 0) {
+                this.clock = head;
+            } else {
+                // 直播延迟超过目标时加速播放，逐渐追上最新位置
+                const catchUp = this.targetLatency && this.getLatency() > this.targetLatency ? CATCH_UP_RATE : 1;
+                this.clock += elapsed * 1000 * this.playbackRate * catchUp;
+            }
+
+            // 时间戳跳变（回绕、分段拼接等）时，直接对齐到下一帧
+            if (Math.abs(head - this.clock) > DISCONTINUITY_THRESHOLD) {
+                this.clock = head;
+            }
+        }
+
+        // 直播延迟过大（网络卡顿后数据集中到达）：直接跳到目标延迟的位置
+        if (this.targetLatency && this.getLatency() > this.targetLatency * MAX_LATENCY_FACTOR) {
+            const target = this.lastQueuedTimestamp - this.targetLatency;
+            console.log(`[SpeedControl] Live latency ${(this.getLatency() / 1000).toFixed(0)}ms exceeds limit, jumping to ${(this.targetLatency / 1000).toFixed(0)}ms`);
+            if (masterClock === undefined) {
+                this.clock = target;
+            }
+            this.skipBefore(target);
+        }
+
+        while (this.encodeVideoChunkQueue.length && this.peekTimestamp() <= this.clock) {
+            // 直播时明显落后于时钟的可丢弃项不再解码，减少追赶时的解码压力
+            if (this.targetLatency && this.clock - this.peekTimestamp() > LATE_DROP_THRESHOLD && this.dropHead()) {
+                continue;
+            }
+            this.consume();
+        }
+    }
+
+    /**
+     * 暂停时手动消费下一项（逐帧步进），seek 后目标位置之前的项会一并送去解码
+     * 内部时钟同步推进到该项，恢复播放时从这里继续
+     * @returns 队列为空时返回 false
+     */
+    step(): boolean {
+        while (this.encodeVideoChunkQueue.length && this.peekTimestamp() < this.fastForwardTimestamp) {
+            this.consume();
+        }
+        if (!this.encodeVideoChunkQueue.length) {
+            return false;
+        }
+        const timestamp = this.peekTimestamp();
+        this.consume();
+        this.clock = Math.max(this.clock, timestamp);
+        return true;
+    }
+
+    /**
+     * 丢弃队首项（仅限可丢弃项）
+     * @returns 是否已丢弃
+     */
+    private dropHead(): boolean {
+        const head = this.encodeVideoChunkQueue[0];
+        if (head === undefined || !this.isDroppable?.(head)) {
+            return false;
+        }
+        this.lastTimestamp = this.peekTimestamp();
+        this.encodeVideoChunkQueue.shift();
+        this.droppedCount++;
+        this.notifySpace();
+        return true;
+    }
+
+    /**
+     * 跳过 timestamp 早于指定值的项：可丢弃项直接丢弃，其余立即送去解码
+     * @param timestamp 时间戳（微秒）
+     */
+    private skipBefore(timestamp: number) {
+        while (this.encodeVideoChunkQueue.length && this.peekTimestamp() < timestamp) {
+            if (!this.dropHead()) {
+                this.consume();
+            }
+        }
+    }
+
+    /**
+     * 获取队首项的调度时间戳（微秒）
+     */
+    private peekTimestamp(): number {
+        const head = this.encodeVideoChunkQueue[0] as T;
+        const timestamp = this.getTimestamp?.(head);
+        if (timestamp !== undefined && Number.isFinite(timestamp)) {
+            return timestamp;
+        }
+        // 没有时间戳时，按固定帧间隔推算
+        return this.lastTimestamp < 0 ? Math.max(this.clock, 0) : this.lastTimestamp + this.frameInterval * 1000;
+    }
+
     /**
      * 添加编码后的视频数据到队列
      * @param encodeVideoChunk 编码后的视频数据
      */
-    addEncodeVideoChunk(encodeVideoChunk: EncodedVideoChunk) {
+    addEncodeVideoChunk(encodeVideoChunk: T) {
         this.encodeVideoChunkQueue.push(encodeVideoChunk);
+        this.starved = false;
+        const timestamp = this.getTimestamp?.(encodeVideoChunk);
+        if (timestamp !== undefined && Number.isFinite(timestamp)) {
+            this.lastQueuedTimestamp = timestamp;
+        }
         // 记录第一帧到达时间
         if (!this.firstFrameTime) {
             console.log('firstFrameTime', performance.now());
             this.firstFrameTime = performance.now();
-            this.preTime = this.firstFrameTime;
         }
     }
 
+    /**
+     * 等待队列出现空位，用于在生产者（解封装）侧实现背压
+     * 队列未满时立即 resolve，否则在消费到低于上限后 resolve
+     */
+    waitForSpace(): Promise<void> {
+        if (this.encodeVideoChunkQueue.length < this.maxQueueSize) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve) => {
+            this.spaceWaiters.push(resolve);
+        });
+    }
+
+    /**
+     * 等待队列被消费完，用于在输入结束后等待剩余项全部送去解码
+     * 队列为空时立即 resolve；clear() 和 destroy() 也会使其 resolve
+     */
+    waitForEmpty(): Promise<void> {
+        if (!this.encodeVideoChunkQueue.length) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve) => {
+            this.emptyWaiters.push(resolve);
+        });
+    }
+
     /**
      * 消费一帧编码数据
      */
     private consume() {
+        if (this.encodeVideoChunkQueue.length) {
+            this.lastTimestamp = this.peekTimestamp();
+        }
         const encodeVideoChunk = this.encodeVideoChunkQueue.shift();
-        if (encodeVideoChunk) {
+        if (encodeVideoChunk !== undefined) {
             this.onFrame(encodeVideoChunk);
         }
+        this.notifySpace();
+    }
+
+    /**
+     * 队列低于上限时唤醒等待中的生产者，队列清空时唤醒等待排空的调用方
+     */
+    private notifySpace() {
+        if (!this.encodeVideoChunkQueue.length && this.emptyWaiters.length) {
+            const emptyWaiters = this.emptyWaiters;
+            this.emptyWaiters = [];
+            emptyWaiters.forEach((resolve) => resolve());
+        }
+        if (this.encodeVideoChunkQueue.length >= this.maxQueueSize || !this.spaceWaiters.length) {
+            return;
+        }
+        const waiters = this.spaceWaiters;
+        this.spaceWaiters = [];
+        waiters.forEach((resolve) => resolve());
+    }
+
+    /**
+     * 设置无时间戳时使用的帧间隔
+     * @param frameInterval 帧间隔（毫秒）
+     */
+    setFrameInterval(frameInterval: number) {
+        if (frameInterval > 0) {
+            this.frameInterval = frameInterval;
+        }
+    }
+
+    /**
+     * 设置主时钟，传 null 时恢复使用内部时钟
+     * @param getMasterClock 返回主时钟（微秒）的函数
+     */
+    setMasterClock(getMasterClock: (() => number | undefined) | null) {
+        this.getMasterClock = getMasterClock;
+    }
+
+    /**
+     * 获取当前媒体时钟（微秒），尚未开始时返回 -1
+     */
+    getClock(): number {
+        return this.clock;
+    }
+
+    /**
+     * 获取直播延迟（微秒）：最新入队项与当前时钟之间的媒体时长，尚未开始时返回 0
+     */
+    getLatency(): number {
+        if (this.clock < 0 || this.lastQueuedTimestamp < 0) {
+            return 0;
+        }
+        return Math.max(0, this.lastQueuedTimestamp - this.clock);
+    }
+
+    /**
+     * 获取直播追赶时丢弃的项数
+     */
+    getDroppedCount(): number {
+        return this.droppedCount;
+    }
+
+    /**
+     * 清空队列并重置时钟（用于 seek），同时唤醒等待中的生产者
+     * @param fastForwardTimestamp 之后 timestamp 早于该值的项会被立即消费（微秒）
+     */
+    clear(fastForwardTimestamp: number = -Infinity) {
+        this.encodeVideoChunkQueue = [];
+        this.clock = -1;
+        this.lastTimestamp = -1;
+        this.lastQueuedTimestamp = -1;
+        this.fastForwardTimestamp = fastForwardTimestamp;
+        this.notifySpace();
     }
 
     /**
@@ -75,6 +366,23 @@ export class SpeedControl {
         this.paused = paused;
     }
 
+    /**
+     * 设置播放速率，超出范围时截断
+     * @param rate 播放速率（0.25 ~ 8）
+     */
+    setPlaybackRate(rate: number) {
+        if (Number.isFinite(rate) && rate > 0) {
+            this.playbackRate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+        }
+    }
+
+    /**
+     * 获取播放速率
+     */
+    getPlaybackRate(): number {
+        return this.playbackRate;
+    }
+
     /**
      * 获取当前队列长度
      */
@@ -82,6 +390,13 @@ export class SpeedControl {
         return this.encodeVideoChunkQueue.length;
     }
 
+    /**
+     * 获取队列最大长度
+     */
+    getMaxQueueSize(): number {
+        return this.maxQueueSize;
+    }
+
     /**
      * 销毁并释放资源
      */
@@ -90,8 +405,10 @@ export class SpeedControl {
             cancelAnimationFrame(this.reqId);
             this.reqId = 0;
         }
-        
+
         this.encodeVideoChunkQueue = [];
+        // 释放阻塞中的生产者，避免其永远挂起
+        this.notifySpace();
         this.onFrame = null as any;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,30 @@
+/**
+ * cheap 结构体实例与 WASM 内存地址之间的转换
+ * @author guo xiao
+ */
+
+import type AVCodecParameters from '@libmedia/avutil/struct/avcodecparameters';
+import { copyCodecParameters } from '@libmedia/avutil/util/codecparameters';
+import { symbolStructAddress } from '@libmedia/cheap/symbol';
+
+// cheap 的指针类型（pointer<T>）是全局声明，这里从 libmedia 函数签名中取出
+export type AVCodecParametersPointer = Parameters<typeof copyCodecParameters>[0];
+
+/**
+ * 由 structAccess 或 libmedia 创建的结构体实例，内部记录了它在 WASM 内存中的地址
+ */
+interface CStructInstance {
+    [symbolStructAddress]?: number;
+}
+
+/**
+ * 取流参数在 WASM 内存中的地址，相当于 cheap 的 addressof（它依赖 cheap 的编译插件，运行时不可用）
+ * @param codecpar 解封装或封装上下文中的流参数
+ */
+export function addressOfCodecParameters(codecpar: AVCodecParameters): AVCodecParametersPointer {
+    const address = (codecpar as CStructInstance)[symbolStructAddress];
+    if (!address) {
+        throw new Error('AVCodecParameters is not backed by WASM memory');
+    }
+    return address as AVCodecParametersPointer;
+}
@@ -0,0 +1,419 @@
+/**
+ * 文字字幕：解析外挂的 WebVTT / SRT / ASS 文件，以及解封装得到的 mov_text、SRT、WebVTT、ASS 字幕包
+ * 只保留文字和位置，不处理字体、颜色和特效
+ * @author guo xiao
+ */
+
+export type SubtitleFormat = 'webvtt' | 'srt' | 'ass' | 'mov_text';
+
+/**
+ * 字幕在画面中的竖直位置，ASS 的 \an 和 WebVTT 的 line 设置决定
+ */
+export type SubtitlePosition = 'top' | 'middle' | 'bottom';
+
+export interface SubtitleCue {
+    start: number; // 开始时间（秒，相对于视频开头）
+    end: number; // 结束时间（秒）
+    text: string; // 已去除样式标签，多行用 \n 分隔
+    position: SubtitlePosition;
+}
+
+/**
+ * 一条字幕轨道：外挂文件或容器中的字幕流
+ */
+export interface SubtitleTrack {
+    id: string;
+    label: string;
+    language?: string;
+    format: SubtitleFormat;
+    source: 'sidecar' | 'embedded';
+    cues: SubtitleCue[]; // 按开始时间排序
+}
+
+export type SubtitleTrackInfo = Omit<SubtitleTrack, 'cues'>;
+
+// 字幕包没有时长时的显示时间（秒）
+const DEFAULT_CUE_DURATION = 4;
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': '\'',
+    '&nbsp;': ' ',
+    '&lrm;': '',
+    '&rlm;': '',
+};
+
+// 默认的 ASS 事件字段顺序
+const ASS_DEFAULT_EVENT_FORMAT = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * 将解封装得到的字幕编码名称（dumpCodecName）转换为支持的字幕格式
+ * @param codecName 编码名称，如 mov_text、subrip、ass、webvtt
+ * @returns 不支持（如图形字幕 hdmv_pgs）时返回 undefined
+ */
+export function toSubtitleFormat(codecName: string): SubtitleFormat | undefined {
+    switch (codecName.toLowerCase()) {
+        case 'webvtt':
+            return 'webvtt';
+        case 'subrip':
+        case 'srt':
+            return 'srt';
+        case 'ass':
+        case 'ssa':
+            return 'ass';
+        case 'mov_text':
+            return 'mov_text';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 解析字幕时间：HH:MM:SS.mmm、MM:SS.mmm（WebVTT）、HH:MM:SS,mmm（SRT）、H:MM:SS.cc（ASS）
+ * @returns 秒，格式错误时返回 null
+ */
+export function parseSubtitleTime(value: string): number | null {
+    const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+    const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction}`);
+}
+
+/**
+ * 解析外挂字幕文件，根据扩展名判断格式，没有可识别的扩展名时根据内容判断
+ * @param text 文件内容
+ * @param fileName 文件名
+ */
+export function parseSubtitleFile(text: string, fileName: string = ''): { format: SubtitleFormat; cues: SubtitleCue[] } {
+    const content = text.replace(/^\uFEFF/, '');
+    const extension = /\.([^.]+)$/.exec(fileName)?.[1]?.toLowerCase();
+    let format: SubtitleFormat;
+    if (extension === 'vtt') {
+        format = 'webvtt';
+    } else if (extension === 'srt') {
+        format = 'srt';
+    } else if (extension === 'ass' || extension === 'ssa') {
+        format = 'ass';
+    } else if (/^WEBVTT/.test(content)) {
+        format = 'webvtt';
+    } else if (/^\s*\[Script Info\]/i.test(content)) {
+        format = 'ass';
+    } else {
+        format = 'srt';
+    }
+    const cues = format === 'webvtt' ? parseWebVtt(content) : format === 'ass' ? parseAss(content) : parseSrt(content);
+    if (!cues.length) {
+        throw new Error(`字幕文件中没有可用的字幕: ${fileName || format}`);
+    }
+    return { format, cues };
+}
+
+/**
+ * 解析 WebVTT，忽略 NOTE、STYLE、REGION 块
+ */
+export function parseWebVtt(text: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    for (const block of splitBlocks(text)) {
+        const timingIndex = block.findIndex((line) => line.includes('-->'));
+        // 时间行只能是第一行，或者在标识符之后
+        if (timingIndex < 0 || timingIndex > 1) {
+            continue;
+        }
+        const match = /^(\S+)\s+-->\s+(\S+)(.*)$/.exec(block[timingIndex]!.trim());
+        const start = match ? parseSubtitleTime(match[1]!) : null;
+        const end = match ? parseSubtitleTime(match[2]!) : null;
+        if (start === null || end === null) {
+            continue;
+        }
+        const cueText = cleanMarkup(block.slice(timingIndex + 1).join('\n'));
+        if (cueText) {
+            cues.push({ start, end, text: cueText, position: getWebVttPosition(match![3]!) });
+        }
+    }
+    return sortCues(cues);
+}
+
+/**
+ * 解析 SRT，支持常见的 <i>/<b>/<font> 标签和 {\an8} 位置标签
+ */
+export function parseSrt(text: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    for (const block of splitBlocks(text)) {
+        const timingIndex = block.findIndex((line) => line.includes('-->'));
+        if (timingIndex < 0) {
+            continue;
+        }
+        const [startText = '', endText = ''] = block[timingIndex]!.split('-->');
+        const start = parseSubtitleTime(startText);
+        // 结束时间后面可能带有坐标（X1:... Y1:...）
+        const end = parseSubtitleTime(endText.trim().split(/\s+/)[0] ?? '');
+        if (start === null || end === null) {
+            continue;
+        }
+        const cue = parseSrtText(block.slice(timingIndex + 1).join('\n'), start, end);
+        if (cue) {
+            cues.push(cue);
+        }
+    }
+    return sortCues(cues);
+}
+
+/**
+ * 解析 ASS/SSA 的 Dialogue 事件，位置取自样式的 Alignment 或 \an 标签
+ */
+export function parseAss(text: string): SubtitleCue[] {
+    const context = parseAssHeader(text);
+    const cues: SubtitleCue[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const cue = parseAssDialogue(line, context);
+        if (cue) {
+            cues.push(cue);
+        }
+    }
+    return sortCues(cues);
+}
+
+/**
+ * 把新解析出的字幕合并到已有的字幕中，按开始时间排序并去除重复（seek 后重新读到的字幕包）
+ * @returns 新数组，不修改传入的数组
+ */
+export function mergeSubtitleCues(cues: readonly SubtitleCue[], added: readonly SubtitleCue[]): SubtitleCue[] {
+    const merged = cues.slice();
+    for (const cue of added) {
+        if (!merged.some((item) => item.start === cue.start && item.text === cue.text)) {
+            merged.push(cue);
+        }
+    }
+    return sortCues(merged);
+}
+
+/**
+ * 获取指定时间正在显示的字幕
+ * @param cues 按开始时间排序的字幕
+ * @param time 时间（秒）
+ */
+export function getActiveCues(cues: readonly SubtitleCue[], time: number): SubtitleCue[] {
+    const active: SubtitleCue[] = [];
+    for (const cue of cues) {
+        if (cue.start > time) {
+            break;
+        }
+        if (cue.end > time) {
+            active.push(cue);
+        }
+    }
+    return active;
+}
+
+/**
+ * 把容器中字幕流的数据包解析为字幕条目
+ */
+export class SubtitlePacketDecoder {
+    private format: SubtitleFormat;
+    private assContext: AssContext | null = null;
+
+    /**
+     * @param format 字幕格式
+     * @param extradata 流的 extradata，ASS 为文件头（包含样式）
+     */
+    constructor(format: SubtitleFormat, extradata?: Uint8Array) {
+        this.format = format;
+        if (format === 'ass') {
+            this.assContext = parseAssHeader(extradata ? utf8Decoder.decode(extradata) : '');
+        }
+    }
+
+    /**
+     * 解析一个字幕包
+     * @param data 数据包内容
+     * @param start 开始时间（秒）
+     * @param duration 显示时长（秒），未知时不传
+     * @returns 没有文字（如 mov_text 用来清除字幕的空样本）时返回 null
+     */
+    decode(data: Uint8Array, start: number, duration?: number): SubtitleCue | null {
+        const end = start + (duration && duration > 0 ? duration : DEFAULT_CUE_DURATION);
+        switch (this.format) {
+            case 'mov_text': {
+                // 2 字节文字长度 + UTF-8 文字，之后是样式 box
+                if (data.length < 2) {
+                    return null;
+                }
+                const length = Math.min((data[0]! << 8) | data[1]!, data.length - 2);
+                const text = utf8Decoder.decode(data.subarray(2, 2 + length)).replace(/\r\n?/g, '\n').trim();
+                return text ? { start, end, text, position: 'bottom' } : null;
+            }
+            case 'ass': {
+                // 解封装器已把 Matroska 的 ASS 块转换为完整的 Dialogue 行
+                const cue = parseAssDialogue(utf8Decoder.decode(data), this.assContext!);
+                return cue ? { ...cue, start, end } : null;
+            }
+            case 'webvtt': {
+                const text = cleanMarkup(utf8Decoder.decode(data));
+                return text ? { start, end, text, position: 'bottom' } : null;
+            }
+            case 'srt':
+                return parseSrtText(utf8Decoder.decode(data), start, end);
+        }
+    }
+}
+
+interface AssContext {
+    eventFormat: string[]; // Dialogue 的字段名（小写）
+    styleAlignments: Map<string, SubtitlePosition>; // 样式名（小写）对应的位置
+}
+
+/**
+ * 按空行拆分字幕块，每块为去除首尾空白后的行
+ */
+function splitBlocks(text: string): string[][] {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .split(/\n{2,}/)
+        .map((block) => block.split('\n').filter((line) => line.trim()))
+        .filter((block) => block.length);
+}
+
+function sortCues(cues: SubtitleCue[]): SubtitleCue[] {
+    return cues.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * 去除 HTML 风格的标签（<i>、<c.class>、<v Speaker> 等）并转换实体
+ */
+function cleanMarkup(text: string): string {
+    return text
+        .replace(/<[^>]*>/g, '')
+        .replace(/&(?:amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g, (entity) => HTML_ENTITIES[entity]!)
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * WebVTT 的 line 设置：行号从上往下数，负数从下往上数；百分比小于 50% 在上方
+ */
+function getWebVttPosition(settings: string): SubtitlePosition {
+    const line = /(?:^|\s)line:([^\s,]+)/.exec(settings)?.[1];
+    if (!line) {
+        return 'bottom';
+    }
+    if (line.endsWith('%')) {
+        const percent = parseFloat(line);
+        return percent < 34 ? 'top' : percent < 67 ? 'middle' : 'bottom';
+    }
+    return parseFloat(line) >= 0 ? 'top' : 'bottom';
+}
+
+/**
+ * ASS 的 \an（小键盘布局：1-3 下，4-6 中，7-9 上）
+ */
+function getNumpadPosition(alignment: number): SubtitlePosition {
+    return alignment >= 7 ? 'top' : alignment >= 4 ? 'middle' : 'bottom';
+}
+
+/**
+ * SSA（V4）的 Alignment 和 \a：1-3 下，5-7 上，9-11 中
+ */
+function getLegacyPosition(alignment: number): SubtitlePosition {
+    return alignment >= 9 ? 'middle' : alignment >= 5 ? 'top' : 'bottom';
+}
+
+function parseSrtText(text: string, start: number, end: number): SubtitleCue | null {
+    const anMatch = /\{\\an(\d)\}/.exec(text);
+    const cueText = cleanMarkup(text.replace(/\{\\[^}]*\}/g, ''));
+    if (!cueText) {
+        return null;
+    }
+    return { start, end, text: cueText, position: anMatch ? getNumpadPosition(Number(anMatch[1])) : 'bottom' };
+}
+
+/**
+ * 解析 ASS 文件头中的样式和事件字段顺序
+ */
+function parseAssHeader(text: string): AssContext {
+    const context: AssContext = { eventFormat: ASS_DEFAULT_EVENT_FORMAT, styleAlignments: new Map() };
+    let section = '';
+    let styleFormat: string[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (/^\[.*\]$/.test(line)) {
+            section = line.toLowerCase();
+            continue;
+        }
+        const separator = line.indexOf(':');
+        if (separator < 0) {
+            continue;
+        }
+        const key = line.slice(0, separator).trim().toLowerCase();
+        const fields = line.slice(separator + 1).split(',').map((field) => field.trim());
+        if (section === '[events]' && key === 'format') {
+            context.eventFormat = fields.map((field) => field.toLowerCase());
+        } else if (section.includes('styles') && key === 'format') {
+            styleFormat = fields.map((field) => field.toLowerCase());
+        } else if (section.includes('styles') && key === 'style') {
+            const name = fields[styleFormat.indexOf('name')];
+            const alignment = Number(fields[styleFormat.indexOf('alignment')]);
+            if (name !== undefined && alignment) {
+                // V4+ 使用小键盘布局，V4（SSA）使用旧的编号
+                const position = section === '[v4 styles]' ? getLegacyPosition(alignment) : getNumpadPosition(alignment);
+                context.styleAlignments.set(name.toLowerCase(), position);
+            }
+        }
+    }
+    return context;
+}
+
+/**
+ * 解析一行 Dialogue，文字中的逗号属于最后一个字段
+ */
+function parseAssDialogue(line: string, context: AssContext): SubtitleCue | null {
+    const match = /^Dialogue:\s*(.*)$/i.exec(line.trim());
+    if (!match) {
+        return null;
+    }
+    const { eventFormat } = context;
+    const fields: string[] = [];
+    let rest = match[1]!;
+    for (let i = 0; i < eventFormat.length - 1; i++) {
+        const comma = rest.indexOf(',');
+        if (comma < 0) {
+            return null;
+        }
+        fields.push(rest.slice(0, comma).trim());
+        rest = rest.slice(comma + 1);
+    }
+    fields.push(rest);
+    const field = (name: string) => fields[eventFormat.indexOf(name)] ?? '';
+    const start = parseSubtitleTime(field('start'));
+    const end = parseSubtitleTime(field('end'));
+    const rawText = field('text');
+    // 绘图命令（\p1 等）不是文字
+    if (start === null || end === null || /\{[^}]*\\p[1-9]/.test(rawText)) {
+        return null;
+    }
+    let position = context.styleAlignments.get(field('style').replace(/^\*/, '').toLowerCase()) ?? 'bottom';
+    const anMatch = /\\an(\d)/.exec(rawText);
+    const aMatch = /\\a(\d+)/.exec(rawText);
+    if (anMatch) {
+        position = getNumpadPosition(Number(anMatch[1]));
+    } else if (aMatch) {
+        position = getLegacyPosition(Number(aMatch[1]));
+    }
+    const text = rawText
+        .replace(/\{[^}]*\}/g, '')
+        .replace(/\\N|\\n/g, '\n')
+        .replace(/\\h/g, ' ')
+        .split('\n')
+        .map((textLine) => textLine.trim())
+        .filter(Boolean)
+        .join('\n');
+    return text ? { start, end, text, position } : null;
+}
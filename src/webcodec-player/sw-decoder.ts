@@ -0,0 +1,199 @@
+/**
+ * 基于 libmedia WASM avcodec 的软件解码器，用于浏览器不支持硬件解码（如 Linux Chrome 下的 HEVC）时的回退
+ * 解码输出转换为 VideoFrame，交给与硬件解码相同的渲染器
+ * @author guo xiao
+ */
+
+import WasmVideoDecoder from '@libmedia/avcodec/wasmcodec/VideoDecoder';
+import AVCodecParameters from '@libmedia/avutil/struct/avcodecparameters';
+import AVPacket from '@libmedia/avutil/struct/avpacket';
+import { AVPacketFlags } from '@libmedia/avutil/enum';
+import { NOPTS_VALUE_BIGINT } from '@libmedia/avutil/constant';
+import { createAVPacket, destroyAVPacket, addAVPacketData, unrefAVPacket } from '@libmedia/avutil/util/avpacket';
+import { destroyAVFrame } from '@libmedia/avutil/util/avframe';
+import { copyCodecParameters, freeCodecParameters } from '@libmedia/avutil/util/codecparameters';
+import { avMalloc, avMallocz, avFree } from '@libmedia/avutil/util/mem';
+import { avframe2VideoFrame } from '@libmedia/avutil/function/avframe2VideoFrame';
+import compileResource from '@libmedia/avutil/function/compileResource';
+import getWasmUrl from '@libmedia/avutil/function/getWasmUrl';
+import structAccess from '@libmedia/cheap/std/structAccess';
+import sizeof from '@libmedia/cheap/std/sizeof';
+import { memcpyFromUint8Array } from '@libmedia/cheap/std/memory';
+import type { VideoCodec } from './hw-decoder';
+import { addressOfCodecParameters, type AVCodecParametersPointer } from './struct-address';
+
+// cheap 的指针类型（pointer<T>）是全局声明，这里从 libmedia 函数签名中取出
+type AVPacketPointer = ReturnType<typeof createAVPacket>;
+type AVFramePointer = Parameters<typeof destroyAVFrame>[0];
+type DataPointer = Parameters<typeof addAVPacketData>[1];
+
+// libmedia 编译好的解码器 wasm 随应用一起部署在 public/libmedia 下，由 npm run wasm:fetch 按锁定的 @libmedia/avcodec 版本准备
+// 可通过 wasmBaseUrl 替换为其他地址
+export const DEFAULT_WASM_BASE_URL = `${import.meta.env.BASE_URL}libmedia`;
+
+export interface SoftwareDecoderOptions {
+    codec: VideoCodec;
+    codecpar: AVCodecParameters; // 解封装得到的视频流参数
+    description?: Uint8Array; // avcC/hvcC，与输入数据的长度前缀格式对应
+    wasmBaseUrl?: string;
+    onFrame: (videoFrame: VideoFrame) => void;
+}
+
+export class SoftwareDecoder {
+    private options: SoftwareDecoderOptions;
+    private decoder: WasmVideoDecoder | null = null;
+    private parameters = 0 as AVCodecParametersPointer;
+    private avpacket = 0 as AVPacketPointer;
+    // reset 时 flush 输出的旧位置帧需要丢弃
+    private discardOutput: boolean = false;
+    private closed: boolean = false;
+
+    /**
+     * 当前是否支持对该编码进行软件解码
+     * @param codec 编码类型
+     */
+    static isSupported(codec: VideoCodec): boolean {
+        return (codec === 'h264' || codec === 'h265') && typeof WebAssembly !== 'undefined';
+    }
+
+    constructor(options: SoftwareDecoderOptions) {
+        this.options = options;
+    }
+
+    /**
+     * 加载 wasm 并打开解码器
+     * @returns 是否成功
+     */
+    async open(): Promise<boolean> {
+        const { codecpar, description } = this.options;
+        const wasmUrl = getWasmUrl(this.options.wasmBaseUrl ?? DEFAULT_WASM_BASE_URL, 'decoder', codecpar.codecId);
+
+        try {
+            console.log(`[SoftwareDecoder] Loading wasm decoder: ${wasmUrl}`);
+            const resource = await compileResource(wasmUrl);
+            if (this.closed) {
+                return false;
+            }
+
+            this.decoder = new WasmVideoDecoder({
+                resource,
+                onReceiveAVFrame: (avframe) => this.handleAVFrame(avframe),
+            });
+
+            // 复制一份流参数，用 avcC/hvcC 替换 extradata，使其与转换后的长度前缀数据一致
+            this.parameters = avMallocz(sizeof(AVCodecParameters)) as AVCodecParametersPointer;
+            copyCodecParameters(this.parameters, addressOfCodecParameters(codecpar));
+            if (description && description.length) {
+                const parameters = structAccess(this.parameters, AVCodecParameters);
+                if (parameters.extradata) {
+                    avFree(parameters.extradata);
+                }
+                const extradata = avMalloc(description.length) as DataPointer;
+                memcpyFromUint8Array(extradata, description.length, description);
+                parameters.extradata = extradata;
+                parameters.extradataSize = description.length;
+            }
+
+            const ret = await this.decoder.open(this.parameters);
+            if (ret < 0) {
+                console.error(`[SoftwareDecoder] Failed to open decoder, ret: ${ret}`);
+                return false;
+            }
+            this.avpacket = createAVPacket();
+            console.log(`[SoftwareDecoder] Decoder opened: ${this.options.codec}`);
+            return !this.closed;
+        } catch (error) {
+            console.error(`[SoftwareDecoder] Failed to load decoder from ${wasmUrl}:`, error);
+            return false;
+        }
+    }
+
+    private handleAVFrame(avframe: AVFramePointer) {
+        try {
+            if (!this.discardOutput && !this.closed) {
+                this.options.onFrame(avframe2VideoFrame(avframe));
+            }
+        } catch (error) {
+            console.error('[SoftwareDecoder] Failed to convert frame:', error);
+        } finally {
+            destroyAVFrame(avframe);
+        }
+    }
+
+    /**
+     * 解码视频数据
+     * @param data 编码后的视频数据
+     * @param isKeyframe 是否是关键帧
+     * @param timestamp 显示时间戳 pts（微秒）
+     * @param duration 帧时长（微秒），未知时不传
+     */
+    decode(data: Uint8Array, isKeyframe: boolean, timestamp: number, duration?: number) {
+        if (!this.decoder || !this.avpacket) {
+            return;
+        }
+
+        const packet = structAccess(this.avpacket, AVPacket);
+        const buffer = avMalloc(data.length) as DataPointer;
+        memcpyFromUint8Array(buffer, data.length, data);
+        addAVPacketData(this.avpacket, buffer, data.length);
+        // 时间基为微秒，输出帧的 timestamp 直接对应
+        packet.timeBase.num = 1;
+        packet.timeBase.den = 1_000_000;
+        packet.pts = BigInt(Math.round(timestamp));
+        packet.dts = NOPTS_VALUE_BIGINT;
+        packet.duration = duration !== undefined && duration > 0 ? BigInt(Math.round(duration)) : 0n;
+        packet.flags = isKeyframe ? AVPacketFlags.AV_PKT_FLAG_KEY : 0;
+
+        const ret = this.decoder.decode(this.avpacket);
+        if (ret < 0) {
+            console.error(`[SoftwareDecoder] decode error, ret: ${ret}`);
+        }
+        unrefAVPacket(this.avpacket);
+    }
+
+    /**
+     * 输出解码器内部缓存的剩余帧（输入结束时使用）
+     */
+    async flush() {
+        if (!this.decoder) {
+            return;
+        }
+        try {
+            await this.decoder.flush();
+        } catch (error) {
+            console.error('[SoftwareDecoder] Failed to flush decoder:', error);
+        }
+    }
+
+    /**
+     * 重置（用于 seek）：清空解码器内部缓存的帧，不输出
+     */
+    async reset() {
+        if (!this.decoder) {
+            return;
+        }
+        this.discardOutput = true;
+        try {
+            await this.decoder.flush();
+        } catch (error) {
+            console.error('[SoftwareDecoder] Failed to flush decoder:', error);
+        } finally {
+            this.discardOutput = false;
+        }
+    }
+
+    close() {
+        this.closed = true;
+        this.decoder?.close();
+        this.decoder = null;
+        if (this.avpacket) {
+            destroyAVPacket(this.avpacket);
+            this.avpacket = 0 as AVPacketPointer;
+        }
+        if (this.parameters) {
+            freeCodecParameters(this.parameters);
+            avFree(this.parameters);
+            this.parameters = 0 as AVCodecParametersPointer;
+        }
+    }
+}
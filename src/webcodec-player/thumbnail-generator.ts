@@ -0,0 +1,296 @@
+/**
+ * 进度条预览缩略图：用独立的低优先级 VideoDecoder 只解码关键帧，缩小后按时间戳缓存为 ImageBitmap
+ * 关键帧由播放时的解封装流程顺带送入，不额外读取数据
+ * @author guo xiao
+ */
+
+import { getVideoCodecString, type VideoCodec } from './hw-decoder';
+
+export interface Thumbnail {
+    time: number; // 时间（秒，相对于流的起始时间）
+    bitmap: ImageBitmap;
+}
+
+export interface ThumbnailGeneratorOptions {
+    codec: VideoCodec;
+    width?: number; // 缩略图宽度（像素），高度按画面比例计算，默认 160
+    interval?: number; // 相邻缩略图的最小间隔（微秒），默认 2 秒
+    maxPending?: number; // 等待解码的关键帧上限，超过时丢弃最早的，默认 8
+    onThumbnail: (timestamp: number, bitmap: ImageBitmap) => void; // timestamp 为微秒，接收方负责 close
+}
+
+interface PendingKeyframe {
+    data: Uint8Array;
+    timestamp: number;
+    description?: Uint8Array;
+}
+
+const DEFAULT_THUMBNAIL_WIDTH = 160;
+const DEFAULT_THUMBNAIL_INTERVAL = 2_000_000;
+const DEFAULT_MAX_PENDING = 8;
+// 页面一直繁忙时，最多等待该时长（毫秒）就解码下一帧
+const IDLE_TIMEOUT = 1000;
+
+/**
+ * 等待页面空闲，Worker 中没有 requestIdleCallback 时只让出一次事件循环
+ */
+function waitForIdle(): Promise<void> {
+    return new Promise((resolve) => {
+        if (typeof requestIdleCallback === 'function') {
+            requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT });
+        } else {
+            setTimeout(resolve, 0);
+        }
+    });
+}
+
+export class ThumbnailGenerator {
+    private options: ThumbnailGeneratorOptions;
+    private interval: number;
+    private decoder: VideoDecoder | null = null;
+    private description: Uint8Array | undefined;
+    private queue: PendingKeyframe[] = [];
+    // 已生成或正在生成的时间段（timestamp / interval），每段只生成一张
+    private buckets: Set<number> = new Set();
+    private bitmapTasks: Promise<void>[] = [];
+    private running: boolean = false;
+    private disabled: boolean = false; // 浏览器不支持该编码时不再生成
+    private destroyed: boolean = false;
+
+    constructor(options: ThumbnailGeneratorOptions) {
+        this.options = options;
+        this.interval = Math.max(1, options.interval ?? DEFAULT_THUMBNAIL_INTERVAL);
+    }
+
+    /**
+     * 送入一个关键帧，所在时间段已有缩略图时忽略
+     * @param data 关键帧数据，与 description 对应的格式（配置了 avcC/hvcC 时为长度前缀格式）
+     * @param timestamp pts（微秒）
+     * @param description avcC/hvcC，编码参数变化时随关键帧传入新的值
+     */
+    add(data: Uint8Array, timestamp: number, description?: Uint8Array) {
+        if (this.destroyed || this.disabled) {
+            return;
+        }
+        const bucket = Math.floor(timestamp / this.interval);
+        if (this.buckets.has(bucket)) {
+            return;
+        }
+        this.buckets.add(bucket);
+        this.queue.push({ data, timestamp, description });
+        // 读取比解码快时丢弃最早的关键帧，该时间段之后再次读到时还可以生成
+        while (this.queue.length > (this.options.maxPending ?? DEFAULT_MAX_PENDING)) {
+            const dropped = this.queue.shift()!;
+            this.buckets.delete(Math.floor(dropped.timestamp / this.interval));
+        }
+        this.run();
+    }
+
+    /**
+     * 依次解码队列中的关键帧，每帧之前等待页面空闲
+     */
+    private async run() {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        try {
+            while (this.queue.length && !this.destroyed) {
+                await waitForIdle();
+                const keyframe = this.queue.shift();
+                if (!keyframe || this.destroyed) {
+                    break;
+                }
+                await this.decodeKeyframe(keyframe);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async decodeKeyframe(keyframe: PendingKeyframe) {
+        const decoder = await this.ensureDecoder(keyframe.description);
+        if (!decoder) {
+            this.buckets.delete(Math.floor(keyframe.timestamp / this.interval));
+            return;
+        }
+        try {
+            decoder.decode(new EncodedVideoChunk({
+                type: 'key',
+                timestamp: keyframe.timestamp,
+                data: keyframe.data,
+            }));
+            // 每个关键帧单独 flush，拿到输出后再处理下一帧
+            await decoder.flush();
+            const tasks = this.bitmapTasks;
+            this.bitmapTasks = [];
+            await Promise.all(tasks);
+        } catch (error) {
+            // 销毁或解码出错时 flush 会被拒绝
+            if (!this.destroyed) {
+                console.warn('[ThumbnailGenerator] Failed to decode keyframe:', error);
+            }
+        }
+    }
+
+    /**
+     * 获取与 description 匹配的解码器，编码参数变化时重新配置
+     * @returns 不支持时返回 null
+     */
+    private async ensureDecoder(description: Uint8Array | undefined): Promise<VideoDecoder | null> {
+        if (this.decoder && this.decoder.state === 'configured' && this.description === description) {
+            return this.decoder;
+        }
+
+        const config: VideoDecoderConfig = {
+            codec: getVideoCodecString(this.options.codec, description),
+            optimizeForLatency: true,
+        };
+        if (description) {
+            config.description = description;
+        }
+        try {
+            const support = await VideoDecoder.isConfigSupported(config);
+            if (!support.supported) {
+                console.warn(`[ThumbnailGenerator] Codec not supported, thumbnails disabled: ${config.codec}`);
+                this.disabled = true;
+                this.queue = [];
+                return null;
+            }
+        } catch (error) {
+            console.warn('[ThumbnailGenerator] Could not check codec support:', error);
+        }
+        if (this.destroyed) {
+            return null;
+        }
+
+        if (!this.decoder || this.decoder.state === 'closed') {
+            this.decoder = new VideoDecoder({
+                output: (videoFrame) => this.handleFrame(videoFrame),
+                error: (error) => {
+                    console.warn('[ThumbnailGenerator] Decoder error:', error);
+                },
+            });
+        }
+        try {
+            this.decoder.configure(config);
+            this.description = description;
+            return this.decoder;
+        } catch (error) {
+            console.warn('[ThumbnailGenerator] Failed to configure decoder:', error);
+            this.decoder.close();
+            this.decoder = null;
+            return null;
+        }
+    }
+
+    /**
+     * 把解码出的帧缩小为 ImageBitmap
+     */
+    private handleFrame(videoFrame: VideoFrame) {
+        const { displayWidth, displayHeight, timestamp } = videoFrame;
+        if (this.destroyed || !displayWidth || !displayHeight) {
+            videoFrame.close();
+            return;
+        }
+        const width = Math.min(displayWidth, this.options.width ?? DEFAULT_THUMBNAIL_WIDTH);
+        const height = Math.max(1, Math.round(width * displayHeight / displayWidth));
+        this.bitmapTasks.push(createImageBitmap(videoFrame, {
+            resizeWidth: width,
+            resizeHeight: height,
+            resizeQuality: 'low',
+        }).then((bitmap) => {
+            if (this.destroyed) {
+                bitmap.close();
+                return;
+            }
+            this.options.onThumbnail(timestamp, bitmap);
+        }).catch((error) => {
+            console.warn('[ThumbnailGenerator] Failed to create bitmap:', error);
+        }).finally(() => {
+            videoFrame.close();
+        }));
+    }
+
+    /**
+     * 停止生成：丢弃等待中的关键帧并关闭解码器，之后生成的缩略图直接释放
+     */
+    destroy() {
+        this.destroyed = true;
+        this.queue = [];
+        this.buckets.clear();
+        if (this.decoder && this.decoder.state !== 'closed') {
+            this.decoder.close();
+        }
+        this.decoder = null;
+    }
+}
+
+/**
+ * 按时间排序的缩略图缓存，查找离指定时间最近的一张
+ */
+export class ThumbnailCache {
+    private thumbnails: Thumbnail[] = [];
+
+    /**
+     * 添加缩略图，同一时间已有缩略图时替换
+     * @param time 时间（秒）
+     * @param bitmap 缩略图，由缓存负责 close
+     */
+    add(time: number, bitmap: ImageBitmap) {
+        const index = this.lowerBound(time);
+        const existing = this.thumbnails[index];
+        if (existing && existing.time === time) {
+            existing.bitmap.close();
+            existing.bitmap = bitmap;
+            return;
+        }
+        this.thumbnails.splice(index, 0, { time, bitmap });
+    }
+
+    /**
+     * 获取离指定时间最近的缩略图，没有缩略图时返回 undefined
+     * @param time 时间（秒）
+     */
+    getNearest(time: number): Thumbnail | undefined {
+        const index = this.lowerBound(time);
+        const after = this.thumbnails[index];
+        const before = this.thumbnails[index - 1];
+        if (!before) {
+            return after;
+        }
+        if (!after) {
+            return before;
+        }
+        return time - before.time <= after.time - time ? before : after;
+    }
+
+    get size(): number {
+        return this.thumbnails.length;
+    }
+
+    /**
+     * 清空缓存并释放全部缩略图
+     */
+    clear() {
+        this.thumbnails.forEach((thumbnail) => thumbnail.bitmap.close());
+        this.thumbnails = [];
+    }
+
+    /**
+     * 第一个 time 不小于目标的位置
+     */
+    private lowerBound(time: number): number {
+        let low = 0;
+        let high = this.thumbnails.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.thumbnails[mid]!.time < time) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+}
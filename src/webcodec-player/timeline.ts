@@ -0,0 +1,89 @@
+/**
+ * 播放时间线：把各个流时间基下的时间戳换算为微秒，HLS 不连续段的时间戳统一平移到同一条时间线上
+ * @author guo xiao
+ */
+
+import { AV_TIME_BASE_Q, NOPTS_VALUE_BIGINT } from '@libmedia/avutil/constant';
+import { avRescaleQ } from '@libmedia/avutil/util/rational';
+import type { Rational } from '@libmedia/avutil/struct/rational';
+import type { HlsSegmentInfo } from './hls-source';
+
+/**
+ * 将流时间基下的时间戳转换为微秒，无效时间戳返回 undefined
+ */
+export function toMicroseconds(value: bigint, timeBase: Rational): number | undefined {
+    if (value === NOPTS_VALUE_BIGINT || !timeBase.den) {
+        return undefined;
+    }
+    return Number(avRescaleQ(value, timeBase, AV_TIME_BASE_Q));
+}
+
+export class StreamTimeline {
+    // 视频流的起始时间（微秒），容器没有给出时以第一个视频包的时间戳为准
+    private startTime: number | undefined;
+    // HLS：不同不连续段的时间戳各自从头开始，加上该偏移后接在分片在时间线上的位置
+    private offset: number = 0;
+    private discontinuity: number | null = null;
+
+    /**
+     * @param startTime 容器给出的起始时间（微秒）
+     */
+    constructor(startTime?: number) {
+        this.startTime = startTime;
+    }
+
+    /**
+     * 起始时间（微秒），还没有读到带时间戳的视频包时为 undefined
+     */
+    getStartTime(): number | undefined {
+        return this.startTime;
+    }
+
+    /**
+     * 容器没有给出起始时间时，使用第一个视频包的时间戳
+     * @param timestamp 时间线上的时间戳（微秒）
+     */
+    setStartTimeIfUnknown(timestamp: number | undefined) {
+        if (this.startTime === undefined) {
+            this.startTime = timestamp;
+        }
+    }
+
+    /**
+     * 读到 HLS 分片中的数据包。进入新的不连续段时，让该数据包接在分片在时间线上的位置
+     * @param segment 数据包所在的分片
+     * @param rawTimestamp 数据包的原始时间戳（微秒），没有时间戳时不处理
+     */
+    enterSegment(segment: HlsSegmentInfo, rawTimestamp: number | undefined) {
+        if (segment.discontinuity === this.discontinuity || rawTimestamp === undefined) {
+            return;
+        }
+        if (this.discontinuity !== null && this.startTime !== undefined) {
+            this.offset = this.startTime + segment.start * 1_000_000 - rawTimestamp;
+            console.log(`HLS 不连续段 ${segment.discontinuity}（分片 ${segment.sequence}），时间戳偏移 ${this.offset}us`);
+        }
+        this.discontinuity = segment.discontinuity;
+    }
+
+    /**
+     * 把流时间基下的时间戳换算为时间线上的微秒，无效时间戳返回 undefined
+     */
+    toTimestamp(value: bigint, timeBase: Rational): number | undefined {
+        const timestamp = toMicroseconds(value, timeBase);
+        return timestamp !== undefined ? timestamp + this.offset : undefined;
+    }
+
+    /**
+     * 时间线上的时间戳（微秒）换算为相对起始时间的秒，可能为负
+     */
+    toSeconds(timestamp: number): number {
+        return (timestamp - (this.startTime ?? 0)) / 1_000_000;
+    }
+
+    /**
+     * 相对起始时间的秒换算为时间线上的时间戳（微秒）
+     */
+    fromSeconds(seconds: number): number {
+        return (this.startTime ?? 0) + seconds * 1_000_000;
+    }
+}
@@ -1,3 +1,5 @@
+import { splitNalUnits, type NalFormat } from './codec-description';
+
 /**
  * 检测 H.264 关键帧
  * @param data 视频数据
@@ -78,6 +80,92 @@ export function isH265Keyframe(data: Uint8Array, maxSearchBytes: number = 100):
   return false;
 }
 
+/**
+ * 检测 VP8 关键帧
+ * VP8 帧头 frame tag 第一个字节的最低位为 0 表示关键帧
+ * @param data 视频数据
+ * @returns 是否为关键帧
+ */
+export function isVP8Keyframe(data: Uint8Array): boolean {
+  if (data.length < 3 || data[0] === undefined) {
+    return false;
+  }
+  return (data[0] & 0x01) === 0;
+}
+
+/**
+ * 检测 VP9 关键帧
+ * 解析 uncompressed header: frame_marker(2) + profile(2~3) + show_existing_frame(1) + frame_type(1)
+ * @param data 视频数据
+ * @returns 是否为关键帧
+ */
+export function isVP9Keyframe(data: Uint8Array): boolean {
+  if (data.length < 1 || data[0] === undefined) {
+    return false;
+  }
+  const byte = data[0];
+  // frame_marker 必须为 2
+  if ((byte >> 6) !== 0x02) {
+    return false;
+  }
+  const profileLow = (byte >> 5) & 0x01;
+  const profileHigh = (byte >> 4) & 0x01;
+  const profile = (profileHigh << 1) | profileLow;
+  // profile 3 多一个保留位
+  let bitPos = profile === 3 ? 2 : 3;
+  const showExistingFrame = (byte >> bitPos) & 0x01;
+  if (showExistingFrame) {
+    return false;
+  }
+  bitPos--;
+  // frame_type: 0 = KEY_FRAME
+  return ((byte >> bitPos) & 0x01) === 0;
+}
+
+/**
+ * 检测非参考帧（不被其他帧参考，丢弃后不影响后续解码）
+ * H.264: 所有 slice 的 nal_ref_idc 为 0
+ * H.265: 所有 slice 都是子层非参考图像（NAL 类型 0~14 中的偶数）
+ * VP8/VP9 无法简单判断，始终返回 false
+ * @param codec 编码类型
+ * @param data 视频数据
+ * @param format 流的 NAL 格式，未知时根据数据判断
+ * @returns 是否为非参考帧
+ */
+export function isNonReferenceFrame(codec: 'h264' | 'h265' | 'vp9' | 'vp8', data: Uint8Array, format?: NalFormat): boolean {
+  if (codec !== 'h264' && codec !== 'h265') {
+    return false;
+  }
+
+  let hasSlice = false;
+  for (const nalUnit of splitNalUnits(data, format)) {
+    const header = nalUnit[0];
+    if (header === undefined) {
+      continue;
+    }
+    if (codec === 'h264') {
+      const nalType = header & 0x1F;
+      // NAL 类型 1~5 为 slice
+      if (nalType >= 1 && nalType <= 5) {
+        hasSlice = true;
+        if ((header & 0x60) !== 0) {
+          return false;
+        }
+      }
+    } else {
+      const nalType = (header >> 1) & 0x3F;
+      // NAL 类型 0~31 为 VCL
+      if (nalType <= 31) {
+        hasSlice = true;
+        if (nalType > 14 || nalType % 2 !== 0) {
+          return false;
+        }
+      }
+    }
+  }
+  return hasSlice;
+}
+
 /**
  * 根据编码类型检测关键帧
  * @param codec 编码类型
@@ -96,9 +184,9 @@ export function detectKeyframe(
     case 'h265':
       return isH265Keyframe(data, maxSearchBytes);
     case 'vp9':
+      return isVP9Keyframe(data);
     case 'vp8':
-      // VP8/VP9 关键帧检测可以在未来添加
-      return false;
+      return isVP8Keyframe(data);
     default:
       return false;
   }
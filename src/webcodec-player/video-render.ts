@@ -3,6 +3,8 @@
  * @author guo xiao
  */
 
+import type { Renderer } from './renderer';
+
 // 为 MediaStreamTrackGenerator 添加类型声明
 declare global {
     class MediaStreamTrackGenerator extends MediaStreamTrack {
@@ -17,7 +19,7 @@ export interface VideoRenderOptions {
     videoEl: HTMLVideoElement;
 }
 
-export class VideoRender {
+export class VideoRender implements Renderer {
     private options: VideoRenderOptions;
     private videoElement: HTMLVideoElement | null = null;
     private videoTrackGenerator: MediaStreamTrackGenerator | null = null;
@@ -89,13 +91,27 @@ export class VideoRender {
 
     /**
      * VideoRender 不支持 ImageData 渲染，因为它依赖于 MediaStreamTrackGenerator
-     * 在低版本浏览器中应该使用 CanvasRender
+     * 需要渲染 ImageData 时应该使用 CanvasRender
      * @param _data - ImageData 对象
      */
     public renderImageData(_data: ImageData): void {
         console.warn('VideoRender does not support ImageData rendering. Please use CanvasRender for compatibility with older browsers.');
     }
 
+    /**
+     * 调整 video 元素的尺寸，与新的视频分辨率一致
+     * @param width - 视频宽度
+     * @param height - 视频高度
+     */
+    public resize(width: number, height: number): void {
+        this.options.width = width;
+        this.options.height = height;
+        if (this.videoElement) {
+            this.videoElement.width = width;
+            this.videoElement.height = height;
+        }
+    }
+
     /**
      * 销毁渲染器，释放资源
      */